@@ -1,5 +1,8 @@
 import type { NextConfig } from 'next';
 
+// Base path for GitHub Pages (will be set by repo name)
+const basePath = process.env.NODE_ENV === 'production' ? '/shade-measurement-v2' : '';
+
 const nextConfig: NextConfig = {
   // Enable strict mode for catching potential issues
   reactStrictMode: true,
@@ -7,8 +10,12 @@ const nextConfig: NextConfig = {
   // Static export for GitHub Pages
   output: 'export',
 
-  // Base path for GitHub Pages (will be set by repo name)
-  basePath: process.env.NODE_ENV === 'production' ? '/shade-measurement-v2' : '',
+  basePath,
+
+  // Expose the base path so links to files in public/ resolve on Pages
+  env: {
+    NEXT_PUBLIC_BASE_PATH: basePath,
+  },
 
   // Disable image optimization for static export
   images: {
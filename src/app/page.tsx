@@ -1,108 +1,605 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useMachine } from '@xstate/react';
+import { tutorialMachine, type TutorialContext } from '@/state/tutorialMachine';
+import {
+  clearSession,
+  loadSession,
+  saveSession,
+  type TutorialSnapshot,
+} from '@/state/session';
+import { MeasurementProviderWrapper, useMeasurement } from '@/providers/MeasurementProvider';
+import { CameraView } from '@/components/CameraView';
+import { CornerReview } from '@/components/CornerReview';
+import { ReferencePicker } from '@/components/ReferencePicker';
+import { ThreePointReadings } from '@/components/ThreePointReadings';
+import { MountRulesForm } from '@/components/MountRulesForm';
+import { OutOfSquareWarning } from '@/components/OutOfSquareWarning';
+import { MeasureGuide, type GuideReading } from '@/components/MeasureGuide';
+import { WindowDetailsForm } from '@/components/WindowDetailsForm';
+import { DebugLogViewer } from '@/components/DebugLogViewer';
+import { REFERENCE_OBJECTS, CALIBRATION_MARKER_PATH } from '@/detection/referenceObjects';
+import { cornersMoved } from '@/detection/geometry';
+import {
+  formatInchesFraction,
+  formatDimensions,
+  formatConfidence,
+  INCH_PRECISIONS,
+  LENGTH_UNITS,
+  type DisplayFormat,
+  type LengthUnit,
+} from '@/utils/format';
+import {
+  appendDebugRecord,
+  appendDepthRecord,
+  appendVerificationRecord,
+  applyDebugRetention,
+  countDebugRecords,
+  getDebugLog,
+  getVerificationSamples,
+  clearDebugLog,
+  copyDebugLogToClipboard,
+  downloadDebugLog,
+  type DebugRecord,
+} from '@/utils/debugLog';
+import { getSettings, updateSettings } from '@/utils/settings';
+import { parseMeasurement } from '@/utils/measurementParser';
+import { manualPassResult } from '@/utils/manualEntry';
+import {
+  accuracyReport,
+  verifyMeasurement,
+  type AccuracyStats,
+  type VerificationSample,
+} from '@/utils/accuracy';
+import type { DebugRetention } from '@/utils/debugStore';
+import { parseDebugLogFile } from '@/utils/debugImport';
+import { downloadFile } from '@/utils/download';
+import {
+  createProject,
+  defaultWindowLabel,
+  deleteWindow,
+  getProject,
+  saveProject,
+  saveWindow,
+  updateWindowDetails,
+  updateWindowMeasurement,
+  windowDetails,
+  windowsByRoom,
+  type WindowDetails,
+  type WindowMeasurement,
+} from '@/utils/project';
+import { shouldRecommendAdditionalPass, type PassPolicy } from '@/utils/aggregate';
+import {
+  describeMountRules,
+  outOfSquareAmount,
+  HEIGHT_POINT_LABELS,
+  WIDTH_POINT_LABELS,
+  type MountRules,
+} from '@/utils/mount';
+import { aggregationStrategies, type AggregationStrategyId } from '@/utils/aggregationStrategies';
+import {
+  checkDepth,
+  depthFromJambShot,
+  SHADE_PRODUCTS,
+  type DepthSource,
+  type ShadeProductId,
+} from '@/utils/depth';
+import { providerRegistry, getQueryProviderType } from '@/providers/registry';
+import { RecordingProvider } from '@/providers/RecordingProvider';
+import {
+  isMockScenarioId,
+  mockScenarios,
+  SCENARIO_QUERY_PARAM,
+  selectMockScenario,
+  type MockScenarioId,
+} from '@/providers/mockScenarios';
+import { exportTrace, getReplayTrace, parseTrace, setReplayTrace } from '@/providers/trace';
+import type {
+  CaptureOptions,
+  ConfidenceCategory,
+  DetectionQuad,
+  FrozenFrame,
+  ProviderType,
+} from '@/providers/types';
 
-type MountType = 'inside' | 'outside';
-type Screen = 'home' | 'permission' | 'mountSelection' | 'pass1' | 'pass1Review' | 'pass2' | 'pass2Review' | 'pass3' | 'completion' | 'details' | 'settings';
+const APP_VERSION = '0.2.0';
 
-interface PassResult {
-  widthInInches: number;
-  heightInInches: number;
-  confidence: number;
-  category: 'Excellent' | 'OK' | 'Not Great';
-  timestamp: number;
-}
-
-// Round UP to nearest 1/16
-function roundUp(n: number): number {
-  return Math.ceil(n * 16) / 16;
-}
+// Spelled-out units for prompts
+const UNIT_NAMES: Record<LengthUnit, string> = { in: 'inches', cm: 'centimetres', mm: 'millimetres' };
 
-// Format as fraction
-function formatFraction(inches: number): string {
-  const rounded = roundUp(inches);
-  const whole = Math.floor(rounded);
-  const frac = rounded - whole;
+// Choices offered on the settings screen for when to stop taking passes
+const TARGET_UNCERTAINTY_OPTIONS = [1 / 16, 1 / 8, 1 / 4];
+const MAX_PASS_OPTIONS = [3, 5, 8];
 
-  if (frac === 0) return `${whole}"`;
+// Choices for how much of the debug log to keep (null = no limit)
+const RETENTION_RECORD_OPTIONS = [100, 1000, 5000];
+const RETENTION_AGE_OPTIONS = [30, 90, null];
 
-  const sixteenths = Math.round(frac * 16);
-  const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
-  const d = gcd(sixteenths, 16);
-  const num = sixteenths / d;
-  const den = 16 / d;
+const EMPTY_WINDOW_DETAILS: WindowDetails = { label: '', roomName: '', notes: '' };
 
-  if (whole === 0) return `${num}/${den}"`;
-  return `${whole} ${num}/${den}"`;
+// Signed error as the camera's reading against the tape
+function describeError(errorInches: number, format: DisplayFormat): string {
+  if (Math.abs(errorInches) < 1e-9) return 'matches the tape';
+  return `${formatInchesFraction(Math.abs(errorInches), format)} ${errorInches > 0 ? 'over' : 'under'}`;
 }
 
-// Mock capture
-function mockCapture(): PassResult {
-  const confidence = 0.7 + Math.random() * 0.25;
+// A finished measurement as saved to the project
+function windowMeasurement(context: TutorialContext): WindowMeasurement {
   return {
-    widthInInches: 35 + Math.random() * 2,
-    heightInInches: 47 + Math.random() * 2,
-    confidence,
-    category: confidence >= 0.85 ? 'Excellent' : confidence >= 0.65 ? 'OK' : 'Not Great',
-    timestamp: Date.now(),
+    mountType: context.mountType ?? 'outside',
+    mountRules: context.mountRules,
+    source: context.entryMode,
+    widthInches: context.finalWidth ?? 0,
+    heightInches: context.finalHeight ?? 0,
+    orderWidthInches: context.finalOrderWidth ?? 0,
+    orderHeightInches: context.finalOrderHeight ?? 0,
+    points: context.finalPoints,
+    outOfSquareInches: context.finalOutOfSquare,
+    depth: context.depth,
+    verification: context.verification,
+    confidence: context.finalConfidence ?? 0,
+    category: context.finalCategory ?? 'Not Great',
+    passCount: context.passes.length,
   };
 }
 
-// Aggregate passes
-function aggregate(passes: PassResult[]) {
-  if (passes.length === 0) return null;
-  const maxW = Math.max(...passes.map(p => p.widthInInches));
-  const maxH = Math.max(...passes.map(p => p.heightInInches));
-  const avgConf = passes.reduce((sum, p) => sum + p.confidence, 0) / passes.length;
-  return {
-    width: roundUp(maxW),
-    height: roundUp(maxH),
-    confidence: avgConf,
-    category: avgConf >= 0.85 ? 'Excellent' : avgConf >= 0.65 ? 'OK' : 'Not Great' as const,
-    passCount: passes.length,
-  };
+function categoryBadgeClass(category: ConfidenceCategory): string {
+  if (category === 'Excellent') return 'bg-green-100 text-green-800';
+  if (category === 'OK') return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+}
+
+interface ClientAppProps {
+  // Session from the last visit the user chose to pick up
+  resumeFrom: TutorialSnapshot | null;
+  // The camera didn't start again when the session was resumed
+  cameraFailed: boolean;
 }
 
 // Client-only app to avoid hydration issues
-function ClientApp() {
-  const [screen, setScreen] = useState<Screen>('home');
-  const [mountType, setMountType] = useState<MountType | null>(null);
-  const [passes, setPasses] = useState<PassResult[]>([]);
+function ClientApp({ resumeFrom, cameraFailed }: ClientAppProps) {
+  const [state, send, actorRef] = useMachine(tutorialMachine, { snapshot: resumeFrom ?? undefined });
+  const measurement = useMeasurement();
   const [isCapturing, setIsCapturing] = useState(false);
-  const [clickCount, setClickCount] = useState(0); // Debug counter
+  const [debugRecordCount, setDebugRecordCount] = useState(0);
+  const [verificationSamples, setVerificationSamples] = useState<VerificationSample[]>([]);
+  // Log open in the viewer: this device's, or a file support was sent
+  const [viewedLog, setViewedLog] = useState<{ title: string; records: DebugRecord[] } | null>(null);
+  const [debugStatus, setDebugStatus] = useState<string | null>(null);
+  const [traceStatus, setTraceStatus] = useState<string | null>(null);
+  const [settings, setSettings] = useState(getSettings);
+  // Frame held for corner review, and the corners as the user left them
+  const [frozenFrame, setFrozenFrame] = useState<FrozenFrame | null>(null);
+  const [adjustedCorners, setAdjustedCorners] = useState<DetectionQuad | null>(null);
+  // Depth step: typed depth, and whether the jamb shot camera is showing
+  const [depthEntry, setDepthEntry] = useState('');
+  const [isDepthShot, setIsDepthShot] = useState(false);
+  const [depthError, setDepthError] = useState<string | null>(null);
+  // Manual entry: typed readings, the one being typed, and what's wrong
+  const [manualWidths, setManualWidths] = useState(['', '', '']);
+  const [manualHeights, setManualHeights] = useState(['', '', '']);
+  const [manualFocus, setManualFocus] = useState<GuideReading | null>(null);
+  const [manualError, setManualError] = useState<string | null>(null);
+  // Verification: tape-measured width and height as typed
+  const [tapeWidth, setTapeWidth] = useState('');
+  const [tapeHeight, setTapeHeight] = useState('');
+  const [tapeError, setTapeError] = useState<string | null>(null);
+  // Project: saved windows, the details being typed, the window being
+  // edited on the list, and what a second tap would delete
+  const [project, setProject] = useState(getProject);
+  const [windowForm, setWindowForm] = useState(EMPTY_WINDOW_DETAILS);
+  const [windowFormError, setWindowFormError] = useState<string | null>(null);
+  const [editingWindowId, setEditingWindowId] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
 
-  const results = aggregate(passes);
+  const { context } = state;
+  const { passes } = context;
+  const display = settings.displayFormat;
 
-  // Debug: log clicks
-  const handleClick = (action: string, callback: () => void) => {
-    return () => {
-      setClickCount(c => c + 1);
-      console.log(`[Click ${clickCount + 1}] ${action}`);
-      callback();
-    };
+  // Save progress after every transition in case the tab is discarded
+  useEffect(() => {
+    const subscription = actorRef.subscribe(saveSession);
+    return () => subscription.unsubscribe();
+  }, [actorRef]);
+
+  // A saved window follows its measurement: depth and tape checks, mount
+  // rules or strategy changed after saving all reach the project
+  useEffect(() => {
+    const subscription = actorRef.subscribe(({ context: latest }) => {
+      const windowId = latest.savedWindowId;
+      if (!windowId || latest.finalWidth === null) return;
+      setProject((current) => {
+        const updated = updateWindowMeasurement(current, windowId, windowMeasurement(latest));
+        return updated === current ? current : saveProject(updated);
+      });
+    });
+    return () => subscription.unsubscribe();
+  }, [actorRef]);
+
+  // Re-read what the settings screen shows after the debug log changes
+  const refreshDebugLog = useCallback(async () => {
+    setDebugRecordCount(await countDebugRecords());
+    setVerificationSamples(await getVerificationSamples());
+  }, []);
+
+  useEffect(() => {
+    void refreshDebugLog();
+  }, [refreshDebugLog]);
+
+  // Keep the machine combining passes the way the settings say
+  useEffect(() => {
+    send({ type: 'SET_AGGREGATION_STRATEGY', strategy: settings.aggregationStrategy });
+  }, [send, settings.aggregationStrategy]);
+
+  useEffect(() => {
+    send({ type: 'SET_PASS_POLICY', policy: settings.passPolicy });
+  }, [send, settings.passPolicy]);
+
+  // A resumed measurement whose camera didn't start asks for it again once
+  // it needs it to capture
+  const isCaptureScreen = state.matches('capture');
+  useEffect(() => {
+    if (cameraFailed && isCaptureScreen && !measurement.isInitialized) send({ type: 'PERMISSION_DENIED' });
+  }, [send, cameraFailed, isCaptureScreen, measurement.isInitialized]);
+
+  const requestPermission = async () => {
+    const success = await measurement.initialize();
+    send({ type: success ? 'PERMISSION_GRANTED' : 'PERMISSION_DENIED' });
+  };
+
+  const doCapture = async (options?: CaptureOptions) => {
+    if (isCapturing || !measurement.provider) return;
+    setIsCapturing(true);
+
+    const result = await measurement.capture(options);
+    if (result) {
+      void appendDebugRecord(result, measurement.provider.providerType, display).then(refreshDebugLog);
+      setFrozenFrame(null);
+      send({ type: 'CAPTURE_COMPLETE', result, providerType: measurement.provider.providerType });
+    }
+
+    setIsCapturing(false);
+  };
+
+  // Freeze the frame so the corners can be checked; providers that can't
+  // freeze capture straight away
+  const startCornerReview = () => {
+    const frame = measurement.freezeFrame();
+    if (!frame) {
+      void doCapture();
+      return;
+    }
+    setFrozenFrame(frame);
+    setAdjustedCorners(frame.detection.corners);
+  };
+
+  const confirmCorners = () => {
+    if (!frozenFrame || !adjustedCorners) return;
+    const moved = cornersMoved(adjustedCorners, frozenFrame.detection.corners);
+    void doCapture(moved ? { corners: adjustedCorners } : undefined);
+  };
+
+  const discardFrozenFrame = () => {
+    measurement.unfreezeFrame();
+    setFrozenFrame(null);
+  };
+
+  const leaveCamera = (event: { type: 'BACK' } | { type: 'SKIP_PASS' }) => {
+    discardFrozenFrame();
+    send(event);
+  };
+
+  const choosePhoto = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Let the same file be picked again after a failed load
+    event.target.value = '';
+    if (file) await measurement.loadImage(file);
+  };
+
+  const usePhotoInstead = async () => {
+    setSettings(updateSettings({ providerType: 'photo' }));
+    measurement.cleanup();
+    await requestPermission();
+  };
+
+  const chooseProvider = (providerType: ProviderType) => {
+    setSettings(updateSettings({ providerType }));
+    // Drop the running provider so the next camera start uses the new choice
+    measurement.cleanup();
+  };
+
+  const chooseMockScenario = (mockScenario: MockScenarioId) => {
+    setSettings(updateSettings({ mockScenario }));
+    // Restart the simulated provider so it plays the new scenario
+    if (measurement.provider?.providerType === 'mock') measurement.cleanup();
+  };
+
+  const changeMountRules = (mountRules: MountRules) => {
+    setSettings(updateSettings({ mountRules }));
+    send({ type: 'UPDATE_MOUNT_RULES', rules: mountRules });
+  };
+
+  const chooseAggregationStrategy = (aggregationStrategy: AggregationStrategyId) => {
+    setSettings(updateSettings({ aggregationStrategy }));
+  };
+
+  const changePassPolicy = (update: Partial<PassPolicy>) => {
+    setSettings(updateSettings({ passPolicy: { ...settings.passPolicy, ...update } }));
+  };
+
+  const changeDebugRetention = (update: Partial<DebugRetention>) => {
+    const next = updateSettings({ debugRetention: { ...settings.debugRetention, ...update } });
+    setSettings(next);
+    void applyDebugRetention(next.debugRetention).then(refreshDebugLog);
+  };
+
+  const viewDeviceLog = async () => {
+    setDebugStatus(null);
+    setViewedLog({ title: 'This device', records: await getDebugLog() });
+    send({ type: 'VIEW_DEBUG_LOG' });
   };
 
-  const doCapture = () => {
-    if (isCapturing) return;
+  const importDebugLog = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const parsed = parseDebugLogFile(await file.text());
+    if (!parsed.ok) {
+      setDebugStatus(parsed.error);
+      return;
+    }
+    setDebugStatus(
+      parsed.skipped > 0 ? `Skipped ${parsed.skipped} unreadable ${parsed.skipped === 1 ? 'record' : 'records'}` : null
+    );
+    setViewedLog({ title: file.name, records: parsed.records });
+    send({ type: 'VIEW_DEBUG_LOG' });
+  };
+
+  const toggleRecordTraces = () => {
+    setSettings(updateSettings({ recordTraces: !settings.recordTraces }));
+    setTraceStatus(null);
+    // Restart the provider so the next camera start is (or isn't) recorded
+    measurement.cleanup();
+  };
+
+  const downloadTrace = (recording: RecordingProvider) => {
+    downloadFile(
+      exportTrace(recording.getTrace()),
+      `window-measurement-trace-${new Date().toISOString().split('T')[0]}.json`
+    );
+    setTraceStatus('Download started');
+  };
+
+  const loadReplayTrace = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const parsed = parseTrace(await file.text());
+    if (!parsed.ok) {
+      setTraceStatus(parsed.error);
+      return;
+    }
+    setReplayTrace(parsed.trace);
+    chooseProvider('replay');
+    setTraceStatus(
+      `Replaying ${parsed.trace.detections.length} frames and ${parsed.trace.captures.length} captures from ${parsed.trace.providerType}`
+    );
+  };
+
+  const changeDisplayFormat = (update: Partial<DisplayFormat>) => {
+    setSettings(updateSettings({ displayFormat: { ...display, ...update } }));
+  };
+
+  const chooseShadeProduct = (shadeProduct: ShadeProductId) => {
+    setSettings(updateSettings({ shadeProduct }));
+  };
+
+  const finishDepth = (depthInches: number, source: DepthSource) => {
+    const depth = checkDepth(depthInches, source, settings.shadeProduct);
+    void appendDepthRecord(
+      depth,
+      {
+        widthInches: context.finalWidth ?? 0,
+        heightInches: context.finalHeight ?? 0,
+        confidence: context.finalConfidence ?? 0,
+        category: context.finalCategory ?? 'Not Great',
+      },
+      context.passProvider,
+      display
+    ).then(refreshDebugLog);
+    setIsDepthShot(false);
+    setDepthError(null);
+    send({ type: 'DEPTH_COMPLETE', depth });
+  };
+
+  const enterDepth = () => {
+    const depth = parseMeasurement(depthEntry, { defaultUnit: display.unit });
+    if (!depth.ok) {
+      setDepthError(depth.error);
+      return;
+    }
+    finishDepth(depth.inches, 'manual');
+  };
+
+  const captureDepth = async () => {
+    if (isCapturing || !measurement.provider) return;
     setIsCapturing(true);
-    setTimeout(() => {
-      const result = mockCapture();
-      setPasses(prev => [...prev, result]);
-      if (screen === 'pass1') setScreen('pass1Review');
-      else if (screen === 'pass2') setScreen('pass2Review');
-      else if (screen === 'pass3') setScreen('completion');
-      setIsCapturing(false);
-    }, 500);
+    const shot = await measurement.capture({ subject: 'jamb' });
+    setIsCapturing(false);
+    if (!shot) return;
+
+    const jamb = depthFromJambShot(shot, context.finalHeight ?? 0);
+    if (jamb === null) {
+      setIsDepthShot(false);
+      setDepthError("That didn't look like a jamb - try again or enter the depth by hand");
+      return;
+    }
+    finishDepth(jamb.depthInches, jamb.source);
+  };
+
+  const skipDepth = () => {
+    setIsDepthShot(false);
+    setDepthError(null);
+    send({ type: 'SKIP_DEPTH' });
+  };
+
+  // Parse typed readings, reporting the first that can't be read
+  const parseReadings = (
+    entries: string[],
+    labels: string[],
+    showError: (message: string) => void
+  ): number[] | null => {
+    const values: number[] = [];
+    for (const [i, label] of labels.entries()) {
+      const reading = parseMeasurement(entries[i], { defaultUnit: display.unit });
+      if (!reading.ok) {
+        showError(`${label}: ${reading.error}`);
+        return null;
+      }
+      values.push(reading.inches);
+    }
+    return values;
+  };
+
+  const submitManualEntry = () => {
+    const isInside = context.mountType === 'inside';
+    const widths = parseReadings(
+      manualWidths,
+      isInside ? WIDTH_POINT_LABELS.map((label) => `${label} width`) : ['Width'],
+      setManualError
+    );
+    const heights =
+      widths &&
+      parseReadings(
+        manualHeights,
+        isInside ? HEIGHT_POINT_LABELS.map((label) => `${label} height`) : ['Height'],
+        setManualError
+      );
+    if (!widths || !heights) return;
+
+    const result = manualPassResult({ widths, heights });
+    void appendDebugRecord(result, null, display).then(refreshDebugLog);
+    setManualError(null);
+    send({ type: 'MANUAL_ENTRY_COMPLETE', result });
+  };
+
+  const submitVerification = () => {
+    const isInside = context.mountType === 'inside';
+    const tape = parseReadings(
+      [tapeWidth, tapeHeight],
+      isInside ? ['Narrowest width', 'Shortest height'] : ['Width', 'Height'],
+      setTapeError
+    );
+    if (!tape) return;
+
+    const verification = verifyMeasurement(
+      passes,
+      { widthInches: context.finalWidth ?? 0, heightInches: context.finalHeight ?? 0 },
+      context.mountType ?? 'outside',
+      { widthInches: tape[0], heightInches: tape[1] }
+    );
+    void appendVerificationRecord(
+      verification,
+      {
+        widthInches: context.finalWidth ?? 0,
+        heightInches: context.finalHeight ?? 0,
+        confidence: context.finalConfidence ?? 0,
+        category: context.finalCategory ?? 'Not Great',
+      },
+      // The provider that took the passes, not whichever is running now
+      context.passProvider,
+      display
+    ).then(refreshDebugLog);
+    setTapeError(null);
+    send({ type: 'VERIFICATION_COMPLETE', verification });
+  };
+
+  const savedWindow = project.windows.find((w) => w.id === context.savedWindowId);
+
+  const openSaveWindow = () => {
+    // Re-saving keeps what was typed last time; a new window starts in the last room used
+    const lastWindow = project.windows[project.windows.length - 1];
+    setWindowForm(
+      savedWindow
+        ? windowDetails(project, savedWindow)
+        : { ...EMPTY_WINDOW_DETAILS, roomName: lastWindow ? windowDetails(project, lastWindow).roomName : '' }
+    );
+    setWindowFormError(null);
+    send({ type: 'SAVE_WINDOW' });
+  };
+
+  const submitSaveWindow = (measureAnother: boolean) => {
+    if (!windowForm.roomName.trim()) {
+      setWindowFormError('Enter the room this window is in');
+      return;
+    }
+    const saved = saveWindow(project, windowForm, windowMeasurement(context), context.savedWindowId);
+    setProject(saveProject(saved.project));
+    if (measureAnother) clearEntries();
+    send({ type: 'WINDOW_SAVED', windowId: saved.windowId, measureAnother });
+  };
+
+  const measureAnother = () => {
+    if (!savedWindow) {
+      openSaveWindow();
+      return;
+    }
+    clearEntries();
+    send({ type: 'MEASURE_ANOTHER' });
+  };
+
+  const startEditingWindow = (windowId: string) => {
+    const saved = project.windows.find((w) => w.id === windowId);
+    if (!saved) return;
+    setWindowForm(windowDetails(project, saved));
+    setWindowFormError(null);
+    setEditingWindowId(windowId);
+    setConfirmingDelete(null);
+  };
+
+  const submitWindowEdit = () => {
+    if (!editingWindowId) return;
+    if (!windowForm.roomName.trim()) {
+      setWindowFormError('Enter the room this window is in');
+      return;
+    }
+    setProject(saveProject(updateWindowDetails(project, editingWindowId, windowForm)));
+    setEditingWindowId(null);
+  };
+
+  // First tap asks, second tap deletes
+  const confirmDelete = (target: string, remove: () => void) => {
+    if (confirmingDelete !== target) {
+      setConfirmingDelete(target);
+      return;
+    }
+    remove();
+    setConfirmingDelete(null);
+  };
+
+  // Typed entries belong to one window
+  const clearEntries = () => {
+    setFrozenFrame(null);
+    setDepthEntry('');
+    setManualWidths(['', '', '']);
+    setManualHeights(['', '', '']);
+    setManualError(null);
+    setTapeWidth('');
+    setTapeHeight('');
+    setTapeError(null);
   };
 
   const restart = () => {
-    setPasses([]);
-    setMountType(null);
-    setScreen('home');
+    measurement.cleanup();
+    clearEntries();
+    send({ type: 'RESTART' });
   };
 
   // HOME
-  if (screen === 'home') {
+  if (state.matches('home')) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-white">
         <h1 className="text-2xl font-bold text-gray-900 mb-2">Window Measurement</h1>
@@ -110,30 +607,40 @@ function ClientApp() {
 
         <button
           type="button"
-          onClick={handleClick('Start Measuring', () => setScreen('permission'))}
+          onClick={() => send({ type: 'START' })}
           className="bg-blue-600 text-white px-8 py-4 rounded-lg text-lg font-semibold mb-4 w-full max-w-xs"
         >
           Start Measuring
         </button>
 
+        {project.windows.length > 0 && (
+          <button
+            type="button"
+            onClick={() => send({ type: 'VIEW_PROJECT' })}
+            className="bg-gray-100 text-gray-900 px-8 py-4 rounded-lg font-semibold mb-4 w-full max-w-xs"
+          >
+            {project.name} ({project.windows.length} {project.windows.length > 1 ? 'windows' : 'window'})
+          </button>
+        )}
+
         <button
           type="button"
-          onClick={handleClick('Settings', () => setScreen('settings'))}
+          onClick={() => send({ type: 'VIEW_SETTINGS' })}
           className="text-gray-500 text-sm"
         >
           Settings
         </button>
 
-        <p className="text-gray-400 text-xs mt-8">Version 0.1.3 • Clicks: {clickCount}</p>
+        <p className="text-gray-400 text-xs mt-8">Version {APP_VERSION}</p>
       </div>
     );
   }
 
   // PERMISSION
-  if (screen === 'permission') {
+  if (state.matches('permission')) {
     return (
       <div className="min-h-screen flex flex-col p-6 bg-white">
-        <button type="button" onClick={handleClick('Back', () => setScreen('home'))} className="text-blue-600 mb-8">
+        <button type="button" onClick={() => send({ type: 'BACK' })} className="text-blue-600 mb-8">
           ← Back
         </button>
         <div className="flex-1 flex flex-col items-center justify-center">
@@ -141,25 +648,69 @@ function ClientApp() {
             <span className="text-3xl">📷</span>
           </div>
           <h2 className="text-xl font-bold text-gray-900 mb-2">Camera Access</h2>
-          <p className="text-gray-600 mb-8 text-center">We need camera access to measure your windows.</p>
-          <button
-            type="button"
-            onClick={handleClick('Allow Camera', () => setScreen('mountSelection'))}
-            className="bg-blue-600 text-white px-8 py-4 rounded-lg text-lg font-semibold w-full max-w-xs"
-          >
-            Allow Camera Access
-          </button>
+
+          {context.cameraPermissionDenied ? (
+            <>
+              <p className="text-red-700 mb-8 text-center">
+                {measurement.error ?? 'Camera access was denied.'} Check your browser settings and try again.
+              </p>
+              <button
+                type="button"
+                onClick={() => send({ type: 'RETRY_PERMISSION' })}
+                className="bg-blue-600 text-white px-8 py-4 rounded-lg text-lg font-semibold w-full max-w-xs"
+              >
+                Try Again
+              </button>
+              <button type="button" onClick={usePhotoInstead} className="text-blue-600 text-sm mt-4">
+                Measure from a photo instead
+              </button>
+              <button
+                type="button"
+                onClick={() => send({ type: 'ENTER_MANUALLY' })}
+                className="text-blue-600 text-sm mt-4"
+              >
+                Enter tape measurements instead
+              </button>
+            </>
+          ) : (
+            <>
+              <p className="text-gray-600 mb-8 text-center">We need camera access to measure your windows.</p>
+              <button
+                type="button"
+                onClick={requestPermission}
+                disabled={measurement.isInitializing}
+                className={`bg-blue-600 text-white px-8 py-4 rounded-lg text-lg font-semibold w-full max-w-xs ${measurement.isInitializing ? 'opacity-50' : ''}`}
+              >
+                {measurement.isInitializing ? 'Starting Camera...' : 'Allow Camera Access'}
+              </button>
+              <button
+                type="button"
+                onClick={usePhotoInstead}
+                disabled={measurement.isInitializing}
+                className="text-blue-600 text-sm mt-4"
+              >
+                Measure from a photo instead
+              </button>
+              <button
+                type="button"
+                onClick={() => send({ type: 'ENTER_MANUALLY' })}
+                disabled={measurement.isInitializing}
+                className="text-blue-600 text-sm mt-4"
+              >
+                Enter tape measurements instead
+              </button>
+            </>
+          )}
         </div>
-        <p className="text-gray-400 text-xs text-center">Clicks: {clickCount}</p>
       </div>
     );
   }
 
   // MOUNT SELECTION
-  if (screen === 'mountSelection') {
+  if (state.matches('mountSelection')) {
     return (
       <div className="min-h-screen flex flex-col p-6 bg-white">
-        <button type="button" onClick={handleClick('Back', () => setScreen('permission'))} className="text-blue-600 mb-8">
+        <button type="button" onClick={() => send({ type: 'BACK' })} className="text-blue-600 mb-8">
           ← Back
         </button>
         <h2 className="text-xl font-bold text-gray-900 mb-2">Mount Type</h2>
@@ -167,7 +718,7 @@ function ClientApp() {
         <div className="space-y-4">
           <button
             type="button"
-            onClick={handleClick('Inside Mount', () => { setMountType('inside'); setScreen('pass1'); })}
+            onClick={() => send({ type: 'SELECT_MOUNT', mountType: 'inside', rules: settings.mountRules })}
             className="w-full p-6 border-2 border-gray-200 rounded-lg text-left"
           >
             <span className="font-semibold text-gray-900">Inside Mount</span>
@@ -175,75 +726,293 @@ function ClientApp() {
           </button>
           <button
             type="button"
-            onClick={handleClick('Outside Mount', () => { setMountType('outside'); setScreen('pass1'); })}
+            onClick={() => send({ type: 'SELECT_MOUNT', mountType: 'outside', rules: settings.mountRules })}
             className="w-full p-6 border-2 border-gray-200 rounded-lg text-left"
           >
             <span className="font-semibold text-gray-900">Outside Mount</span>
             <p className="text-gray-600 text-sm mt-1">Shade covers the window from outside</p>
           </button>
         </div>
-        <p className="text-gray-400 text-xs text-center mt-8">Clicks: {clickCount}</p>
       </div>
     );
   }
 
-  // PASS 1/2/3 (Camera screens)
-  if (screen === 'pass1' || screen === 'pass2' || screen === 'pass3') {
-    const passNum = screen === 'pass1' ? 1 : screen === 'pass2' ? 2 : 3;
-    const backTo: Screen = screen === 'pass1' ? 'mountSelection' : screen === 'pass2' ? 'pass1Review' : 'pass2Review';
+  // THREE-POINT GUIDE (inside mount)
+  if (state.matches('threePointGuide')) {
+    return (
+      <div className="min-h-screen flex flex-col p-6 bg-white">
+        <button type="button" onClick={() => send({ type: 'BACK' })} className="text-blue-600 mb-8">
+          ← Back
+        </button>
+        <h2 className="text-xl font-bold text-gray-900 mb-2">Measuring Inside Mount</h2>
+        <p className="text-gray-600 mb-6">
+          Window openings are rarely perfectly square, so inside mount shades are made to the
+          smallest size.
+        </p>
+        {context.entryMode === 'manual' ? (
+          <ul className="space-y-3 text-gray-700 mb-6">
+            <li>Measure the width at the top, middle and bottom of the opening</li>
+            <li>Measure the height at the left, center and right</li>
+            <li>Measure inside the frame, from edge to edge</li>
+          </ul>
+        ) : (
+          <>
+            <ul className="space-y-3 text-gray-700 mb-6">
+              <li>Each pass measures the width at the top, middle and bottom of the opening</li>
+              <li>It also measures the height at the left, center and right</li>
+              <li>Keep the whole inside edge of the frame in view</li>
+            </ul>
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+              <p className="text-blue-800 text-sm">
+                Tape the printed marker to the glass to measure each side separately. Without it,
+                the opening is treated as square.
+              </p>
+            </div>
+          </>
+        )}
+        <button
+          type="button"
+          onClick={() => send({ type: 'CONTINUE_TO_PASS1' })}
+          className="mt-auto bg-blue-600 text-white px-8 py-4 rounded-lg text-lg font-semibold w-full"
+        >
+          Start Measuring
+        </button>
+      </div>
+    );
+  }
+
+  // MANUAL ENTRY (tape measurements)
+  if (state.matches('manualEntry')) {
+    const isInside = context.mountType === 'inside';
+    const fields = [
+      {
+        axis: 'width' as const,
+        title: isInside ? 'Widths' : 'Width',
+        labels: isInside ? WIDTH_POINT_LABELS : ['Width'],
+        entries: manualWidths,
+        setEntries: setManualWidths,
+      },
+      {
+        axis: 'height' as const,
+        title: isInside ? 'Heights' : 'Height',
+        labels: isInside ? HEIGHT_POINT_LABELS : ['Height'],
+        entries: manualHeights,
+        setEntries: setManualHeights,
+      },
+    ];
 
     return (
-      <div className="h-screen flex flex-col bg-black">
-        <div className="bg-gray-900 text-white p-4 flex items-center justify-between">
-          <button type="button" onClick={handleClick('Back', () => setScreen(backTo))} className="text-white">
-            ← Back
-          </button>
-          <span className="font-semibold">Pass {passNum} of {passNum <= 2 ? '2+' : '3'}</span>
-          <div className="w-12" />
+      <div className="min-h-screen flex flex-col p-6 bg-white">
+        <button type="button" onClick={() => send({ type: 'BACK' })} className="text-blue-600 mb-8">
+          ← Back
+        </button>
+        <h2 className="text-xl font-bold text-gray-900 mb-2">Enter Measurements</h2>
+        <p className="text-gray-600 mb-6">
+          {isInside
+            ? 'Measure inside the frame at each point shown. The shade is made to the smallest of each.'
+            : 'Measure the area the shade should cover, including any overlap past the frame.'}
+        </p>
+
+        <div className="mb-6">
+          <MeasureGuide mountType={context.mountType ?? 'outside'} highlight={manualFocus} />
         </div>
 
-        <div className="flex-1 bg-gray-800 flex items-center justify-center">
-          <div className="text-center">
-            <div className="text-gray-400 text-sm mb-2">Mock Camera View</div>
-            <div className="border-2 border-dashed border-gray-500 w-48 h-64 flex items-center justify-center">
-              <span className="text-gray-500 text-xs">Window Frame</span>
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          {fields.map(({ axis, title, labels, entries, setEntries }) => (
+            <div key={axis}>
+              <p className="font-semibold text-gray-900 text-sm mb-2">{title}</p>
+              {labels.map((label, index) => (
+                <label key={label} className="block text-sm text-gray-700 mb-2">
+                  {isInside && label}
+                  <input
+                    type="text"
+                    placeholder={display.unit === 'in' ? 'e.g. 36 1/2' : display.unit}
+                    value={entries[index]}
+                    onFocus={() => setManualFocus({ axis, index })}
+                    onBlur={() => setManualFocus(null)}
+                    onChange={(event) => {
+                      const next = [...entries];
+                      next[index] = event.target.value;
+                      setEntries(next);
+                    }}
+                    className="block w-full border border-gray-300 rounded-lg px-3 py-2 mt-1 font-mono"
+                  />
+                </label>
+              ))}
             </div>
+          ))}
+        </div>
+        {manualError && <p className="text-red-700 text-sm mb-2">{manualError}</p>}
+
+        <button
+          type="button"
+          onClick={submitManualEntry}
+          className="mt-auto bg-blue-600 text-white px-8 py-4 rounded-lg text-lg font-semibold w-full"
+        >
+          View Results
+        </button>
+      </div>
+    );
+  }
+
+  // PASS CAPTURE (Camera screen)
+  if (state.matches('capture')) {
+    const passNum = passes.length + 1;
+    // Passes beyond the required ones can be skipped
+    const isOptional = state.can({ type: 'SKIP_PASS' });
+    const isPhoto = Boolean(measurement.provider?.loadImage);
+    const noWindowInPhoto = isPhoto && measurement.imageElement !== null && !measurement.detection;
+
+    const header = (
+      <div className="bg-gray-900 text-white p-4 flex items-center justify-between">
+        <button type="button" onClick={() => leaveCamera({ type: 'BACK' })} className="text-white">
+          ← Back
+        </button>
+        <span className="font-semibold">
+          Pass {passNum} of {isOptional ? context.passPolicy.maxPasses : `${context.passPolicy.minPasses}+`}
+        </span>
+        {isOptional ? (
+          <button type="button" onClick={() => leaveCamera({ type: 'SKIP_PASS' })} className="text-white">
+            Skip
+          </button>
+        ) : (
+          <div className="w-12" />
+        )}
+      </div>
+    );
+
+    // Frozen frame: let the user fix the corners before measuring
+    if (frozenFrame && adjustedCorners) {
+      return (
+        <div className="h-screen flex flex-col bg-black">
+          {header}
+
+          <CornerReview frame={frozenFrame} corners={adjustedCorners} onCornersChange={setAdjustedCorners} />
+
+          <div className="bg-gray-900 p-6 flex gap-4 justify-center">
+            <button
+              type="button"
+              onClick={discardFrozenFrame}
+              disabled={isCapturing}
+              className="flex-1 max-w-xs border border-gray-500 text-white py-4 rounded-lg font-semibold"
+            >
+              Retake
+            </button>
+            <button
+              type="button"
+              onClick={confirmCorners}
+              disabled={isCapturing}
+              className={`flex-1 max-w-xs bg-blue-600 text-white py-4 rounded-lg font-semibold ${isCapturing ? 'opacity-50' : ''}`}
+            >
+              {isCapturing ? 'Measuring...' : 'Measure'}
+            </button>
+          </div>
+
+          <div className="bg-gray-900 text-white text-center pb-6 text-sm">
+            {cornersMoved(adjustedCorners, frozenFrame.detection.corners)
+              ? 'Corners adjusted - measuring your outline'
+              : 'Check the corners sit on the window frame'}
+            {measurement.error && <p className="text-red-400 text-xs mt-2">{measurement.error}</p>}
           </div>
         </div>
+      );
+    }
+
+    return (
+      <div className="h-screen flex flex-col bg-black">
+        {header}
+
+        <CameraView
+          mediaElement={measurement.videoElement ?? measurement.imageElement}
+          detection={measurement.detection}
+          stability={measurement.stability}
+          suggestCapture={measurement.suggestCapture}
+          placeholder={isPhoto ? 'Choose a photo of your window' : undefined}
+        />
+
+        {isPhoto && (
+          <div className="bg-gray-900 px-4 pt-4">
+            <label className="block w-full text-center bg-gray-700 text-white py-3 rounded-lg text-sm cursor-pointer">
+              {measurement.imageElement ? 'Choose a Different Photo' : 'Choose Photo'}
+              <input type="file" accept="image/*" className="hidden" onChange={choosePhoto} />
+            </label>
+          </div>
+        )}
+
+        {measurement.provider?.setReferenceObject && (
+          <div className="bg-gray-900 px-4 pt-4">
+            <ReferencePicker value={measurement.referenceObject} onChange={measurement.setReferenceObject} />
+          </div>
+        )}
 
         <div className="bg-gray-900 p-6 flex justify-center">
-          <button
-            type="button"
-            onClick={handleClick('Capture', doCapture)}
-            disabled={isCapturing}
-            className={`w-20 h-20 rounded-full border-4 flex items-center justify-center bg-white border-gray-300 ${isCapturing ? 'opacity-50' : ''}`}
-          >
-            {isCapturing ? '...' : <div className="w-14 h-14 rounded-full bg-red-500" />}
-          </button>
+          {isPhoto ? (
+            <button
+              type="button"
+              onClick={startCornerReview}
+              disabled={isCapturing || !measurement.detection}
+              className={`bg-blue-600 text-white px-8 py-4 rounded-lg font-semibold w-full max-w-xs ${isCapturing || !measurement.detection ? 'opacity-50' : ''}`}
+            >
+              {isCapturing ? 'Measuring...' : 'Use This Photo'}
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={startCornerReview}
+              disabled={isCapturing}
+              className={`w-20 h-20 rounded-full border-4 flex items-center justify-center bg-white border-gray-300 ${isCapturing ? 'opacity-50' : ''}`}
+            >
+              {isCapturing ? '...' : <div className="w-14 h-14 rounded-full bg-red-500" />}
+            </button>
+          )}
         </div>
 
         <div className="bg-gray-900 text-white text-center pb-6 text-sm">
-          {passNum === 1 && 'Position window in frame and capture'}
-          {passNum === 2 && 'Capture from a slightly different angle'}
-          {passNum === 3 && 'Optional: One more capture for better accuracy'}
-          <br />
-          <span className="text-gray-500 text-xs">Clicks: {clickCount}</span>
+          {isPhoto ? (
+            <>
+              {passNum === 1
+                ? 'Choose a photo showing the whole window, then confirm'
+                : isOptional
+                  ? 'Optional: One more photo for better accuracy'
+                  : 'Choose a photo taken from a slightly different angle'}
+              {noWindowInPhoto && <p className="text-amber-400 text-xs mt-2">No window found in this photo</p>}
+            </>
+          ) : (
+            <>
+              {passNum === 1
+                ? 'Position window in frame and capture'
+                : isOptional
+                  ? 'Optional: One more capture for better accuracy'
+                  : 'Capture from a slightly different angle'}
+            </>
+          )}
+          {measurement.error && <p className="text-red-400 text-xs mt-2">{measurement.error}</p>}
         </div>
       </div>
     );
   }
 
   // PASS REVIEW
-  if (screen === 'pass1Review' || screen === 'pass2Review') {
-    const passNum = screen === 'pass1Review' ? 1 : 2;
+  if (state.matches('review')) {
+    const passNum = passes.length;
     const lastPass = passes[passes.length - 1];
-    const lowConf = passes.reduce((sum, p) => sum + p.confidence, 0) / passes.length < 0.65;
-    const needsPass3 = passNum === 2 && lowConf && passes.length < 3;
+    const needsAnotherPass = state.can({ type: 'NEXT_PASS' });
+    const canViewResults = state.can({ type: 'VIEW_RESULTS' });
+    // Why a pass beyond the required ones is suggested
+    const extraPassReason =
+      needsAnotherPass && canViewResults
+        ? shouldRecommendAdditionalPass(passes, {
+            mountType: context.mountType ?? 'outside',
+            rules: context.mountRules,
+            strategy: context.aggregationStrategy,
+            policy: context.passPolicy,
+          }).reason
+        : null;
 
     return (
       <div className="min-h-screen flex flex-col p-6 bg-white">
-        <button type="button" onClick={handleClick('Back', () => setScreen(passNum === 1 ? 'pass1' : 'pass2'))} className="text-blue-600 mb-8">
-          ← Back
+        <button type="button" onClick={() => send({ type: 'BACK' })} className="text-blue-600 mb-8">
+          ← Retake
         </button>
 
         <h2 className="text-xl font-bold text-gray-900 mb-2">Pass {passNum} Complete</h2>
@@ -252,168 +1021,1005 @@ function ClientApp() {
           <div className="text-center">
             <p className="text-gray-600 text-sm">Measured Dimensions</p>
             <p className="text-2xl font-bold text-gray-900 mt-1">
-              {formatFraction(lastPass.widthInInches)} × {formatFraction(lastPass.heightInInches)}
+              {formatDimensions(lastPass.widthInInches, lastPass.heightInInches, display)}
             </p>
             <p className="text-sm mt-2">
-              <span className={`inline-block px-2 py-1 rounded ${
-                lastPass.category === 'Excellent' ? 'bg-green-100 text-green-800' :
-                lastPass.category === 'OK' ? 'bg-yellow-100 text-yellow-800' :
-                'bg-red-100 text-red-800'
-              }`}>
-                {lastPass.category} ({Math.round(lastPass.confidence * 100)}%)
+              <span className={`inline-block px-2 py-1 rounded ${categoryBadgeClass(lastPass.category)}`}>
+                {lastPass.category} ({formatConfidence(lastPass.confidence)})
               </span>
             </p>
+            {lastPass.frameMetadata.scaleReference ? (
+              <p className="text-green-700 text-xs mt-2">
+                Scaled with {REFERENCE_OBJECTS[lastPass.frameMetadata.scaleReference].label.toLowerCase()}
+              </p>
+            ) : (
+              measurement.referenceObject && (
+                <p className="text-amber-700 text-xs mt-2">
+                  {REFERENCE_OBJECTS[measurement.referenceObject].label} not found - size is estimated
+                </p>
+              )
+            )}
+            {lastPass.frameMetadata.cornersUserCorrected && (
+              <p className="text-gray-500 text-xs mt-1">Corners adjusted by hand</p>
+            )}
           </div>
+          {context.mountType === 'inside' && lastPass.points && (
+            <div className="border-t border-gray-200 mt-4 pt-4">
+              <ThreePointReadings points={lastPass.points} format={display} />
+            </div>
+          )}
         </div>
 
-        {needsPass3 && (
+        {context.mountType === 'inside' && lastPass.diagonals && (
+          <OutOfSquareWarning
+            outOfSquareInches={outOfSquareAmount(lastPass.diagonals)}
+            rules={context.mountRules}
+            format={display}
+          />
+        )}
+
+        {extraPassReason && (
           <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
-            <p className="text-amber-800 text-sm">Low confidence - an additional pass may improve accuracy</p>
+            <p className="text-amber-800 text-sm">{extraPassReason}</p>
           </div>
         )}
 
         <div className="mt-auto space-y-3">
           <button
             type="button"
-            onClick={handleClick('Continue', () => {
-              if (passNum === 1) setScreen('pass2');
-              else if (needsPass3) setScreen('pass3');
-              else setScreen('completion');
-            })}
+            onClick={() => send({ type: needsAnotherPass ? 'NEXT_PASS' : 'VIEW_RESULTS' })}
             className="bg-blue-600 text-white px-8 py-4 rounded-lg text-lg font-semibold w-full"
           >
-            {passNum === 1 ? 'Continue to Pass 2' : needsPass3 ? 'Take Pass 3' : 'View Results'}
+            {!needsAnotherPass
+              ? 'View Results'
+              : canViewResults
+                ? `Take Pass ${passNum + 1}`
+                : `Continue to Pass ${passNum + 1}`}
           </button>
 
-          {passNum === 2 && (
+          {extraPassReason && (
             <button
               type="button"
-              onClick={handleClick('Skip to Results', () => setScreen('completion'))}
+              onClick={() => send({ type: 'VIEW_RESULTS' })}
               className="text-gray-600 py-2 w-full"
             >
-              {needsPass3 ? 'Skip and View Results' : 'View Results'}
+              Skip and View Results
             </button>
           )}
         </div>
+      </div>
+    );
+  }
+
+  // DEPTH (inside mount, optional)
+  if (state.matches('depth')) {
+    const isPhoto = Boolean(measurement.provider?.loadImage);
+    const product = SHADE_PRODUCTS[settings.shadeProduct];
+
+    if (isDepthShot) {
+      return (
+        <div className="h-screen flex flex-col bg-black">
+          <div className="bg-gray-900 text-white p-4 flex items-center justify-between">
+            <button type="button" onClick={() => setIsDepthShot(false)} className="text-white">
+              ← Back
+            </button>
+            <span className="font-semibold">Frame Depth</span>
+            <div className="w-12" />
+          </div>
+
+          <CameraView
+            mediaElement={measurement.videoElement ?? measurement.imageElement}
+            detection={measurement.detection}
+            stability={measurement.stability}
+            suggestCapture={measurement.suggestCapture}
+            placeholder={isPhoto ? 'Choose a photo of the side jamb' : undefined}
+          />
 
-        <p className="text-gray-400 text-xs text-center mt-4">Clicks: {clickCount}</p>
+          {isPhoto && (
+            <div className="bg-gray-900 px-4 pt-4">
+              <label className="block w-full text-center bg-gray-700 text-white py-3 rounded-lg text-sm cursor-pointer">
+                Choose Photo
+                <input type="file" accept="image/*" className="hidden" onChange={choosePhoto} />
+              </label>
+            </div>
+          )}
+
+          <div className="bg-gray-900 p-6 flex justify-center">
+            <button
+              type="button"
+              onClick={captureDepth}
+              disabled={isCapturing || (isPhoto && !measurement.detection)}
+              className={`bg-blue-600 text-white px-8 py-4 rounded-lg font-semibold w-full max-w-xs ${isCapturing ? 'opacity-50' : ''}`}
+            >
+              {isCapturing ? 'Measuring...' : 'Measure Depth'}
+            </button>
+          </div>
+
+          <div className="bg-gray-900 text-white text-center pb-6 text-sm px-6">
+            Stand to one side and frame the inside face of the side jamb, top to bottom
+            {measurement.error && <p className="text-red-400 text-xs mt-2">{measurement.error}</p>}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="min-h-screen flex flex-col p-6 bg-white">
+        <h2 className="text-xl font-bold text-gray-900 mb-2">Frame Depth</h2>
+        <p className="text-gray-600 mb-6">
+          Inside mount shades need a deep enough frame to mount the headrail. Measure from the
+          glass (or window stop) to the front edge of the frame.
+        </p>
+
+        <h3 className="font-semibold text-gray-900 mb-2">Product</h3>
+        <div className="flex flex-wrap gap-2 mb-2">
+          {Object.values(SHADE_PRODUCTS).map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => chooseShadeProduct(option.id)}
+              className={`px-3 py-1 rounded-full text-xs ${
+                option.id === product.id ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-gray-500 text-xs mb-6">
+          Needs at least {formatInchesFraction(product.minInsideDepthInches, display)} of depth
+        </p>
+
+        <label className="block text-sm text-gray-700 mb-2">
+          Depth ({UNIT_NAMES[display.unit]})
+          <input
+            type="text"
+            placeholder={display.unit === 'in' ? 'e.g. 3 1/4' : undefined}
+            value={depthEntry}
+            onChange={(event) => setDepthEntry(event.target.value)}
+            className="block w-full border border-gray-300 rounded-lg px-3 py-2 mt-1 font-mono"
+          />
+        </label>
+        {depthError && <p className="text-red-700 text-sm mb-2">{depthError}</p>}
+
+        <div className="mt-auto space-y-3">
+          <button
+            type="button"
+            onClick={enterDepth}
+            className="bg-blue-600 text-white px-8 py-4 rounded-lg text-lg font-semibold w-full"
+          >
+            Check Depth
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setDepthError(null);
+              setIsDepthShot(true);
+            }}
+            disabled={!measurement.provider}
+            className="bg-gray-100 text-gray-900 px-8 py-4 rounded-lg font-semibold w-full"
+          >
+            Measure From an Angled Shot
+          </button>
+          <button type="button" onClick={skipDepth} className="text-gray-600 py-2 w-full">
+            Skip
+          </button>
+        </div>
       </div>
     );
   }
 
   // COMPLETION
-  if (screen === 'completion' && results) {
+  if (state.matches('completion')) {
+    const category = context.finalCategory ?? 'Not Great';
+
     return (
       <div className="min-h-screen flex flex-col p-6 bg-white">
         <h2 className="text-xl font-bold text-gray-900 mb-2 text-center">Measurement Complete</h2>
+        {savedWindow && (
+          <p className="text-gray-500 text-sm text-center">
+            Saved as {savedWindow.label} in {windowDetails(project, savedWindow).roomName}
+          </p>
+        )}
 
         <div className="flex-1 flex flex-col items-center justify-center">
+          {context.mountType === 'inside' && (
+            <div className="w-full max-w-sm">
+              <OutOfSquareWarning
+                outOfSquareInches={context.finalOutOfSquare}
+                rules={context.mountRules}
+                format={display}
+              />
+            </div>
+          )}
           <div className="bg-gray-100 rounded-lg p-8 w-full max-w-sm">
-            <p className="text-gray-600 text-sm text-center">Final Dimensions ({mountType} mount)</p>
+            <p className="text-gray-600 text-sm text-center">Order Size ({context.mountType} mount)</p>
             <p className="text-3xl font-bold text-gray-900 text-center mt-2">
-              {formatFraction(results.width)} × {formatFraction(results.height)}
+              {formatDimensions(context.finalOrderWidth ?? 0, context.finalOrderHeight ?? 0, display)}
             </p>
+            {context.mountType && (
+              <p className="text-gray-500 text-xs text-center mt-1">
+                {describeMountRules(context.mountType, context.mountRules, display)}
+              </p>
+            )}
+            <div className="border-t border-gray-200 mt-4 pt-4 text-center">
+              <p className="text-gray-600 text-sm">Opening</p>
+              <p className="text-lg font-semibold text-gray-900">
+                {formatDimensions(context.finalWidth ?? 0, context.finalHeight ?? 0, display)}
+              </p>
+              {context.finalWidthUncertainty !== null && context.finalHeightUncertainty !== null && (
+                <p className="text-gray-500 text-xs mt-1">
+                  ±{formatInchesFraction(context.finalWidthUncertainty, display)} × ±
+                  {formatInchesFraction(context.finalHeightUncertainty, display)}
+                </p>
+              )}
+              {context.finalPoints && (
+                <p className="text-gray-500 text-xs mt-1">Narrowest width × shortest height</p>
+              )}
+              {context.rejectedPasses.length > 0 && (
+                <p className="text-amber-700 text-xs mt-1">
+                  Left out {context.rejectedPasses.map((i) => `pass ${i + 1}`).join(', ')} as{' '}
+                  {context.rejectedPasses.length > 1 ? 'outliers' : 'an outlier'}
+                </p>
+              )}
+            </div>
+            {context.finalPoints && (
+              <div className="border-t border-gray-200 mt-4 pt-4">
+                <ThreePointReadings points={context.finalPoints} format={display} />
+              </div>
+            )}
+            {context.depth && (
+              <div className="border-t border-gray-200 mt-4 pt-4 text-center text-sm">
+                <p className="text-gray-600">
+                  Frame depth {context.depth.source === 'estimate' && 'about '}
+                  {formatInchesFraction(context.depth.depthInches, display)}
+                  {context.depth.source === 'photo' && ' (from photo)'}
+                </p>
+                {context.depth.source === 'estimate' && (
+                  <p className="text-amber-700 text-xs">
+                    Estimated from a photo without a reference object - check it with a tape
+                  </p>
+                )}
+                <p className={context.depth.feasible ? 'text-green-700' : 'text-red-700'}>
+                  {context.depth.source === 'estimate'
+                    ? context.depth.feasible
+                      ? 'Probably deep enough for'
+                      : 'Probably too shallow for'
+                    : context.depth.feasible
+                      ? 'Deep enough for'
+                      : 'Too shallow for'}{' '}
+                  {SHADE_PRODUCTS[context.depth.productId].label.toLowerCase()} (needs{' '}
+                  {formatInchesFraction(context.depth.minimumDepthInches, display)})
+                </p>
+              </div>
+            )}
             <div className="mt-6 text-center">
-              <span className={`inline-block px-3 py-1 rounded-full text-sm font-semibold ${
-                results.category === 'Excellent' ? 'bg-green-100 text-green-800' :
-                results.category === 'OK' ? 'bg-yellow-100 text-yellow-800' :
-                'bg-red-100 text-red-800'
-              }`}>
-                {results.category}
+              <span className={`inline-block px-3 py-1 rounded-full text-sm font-semibold ${categoryBadgeClass(category)}`}>
+                {category}
               </span>
               <p className="text-gray-500 text-sm mt-2">
-                {Math.round(results.confidence * 100)}% confidence • {results.passCount} passes
+                {context.entryMode === 'manual'
+                  ? 'Entered from a tape measure'
+                  : `${formatConfidence(context.finalConfidence ?? 0)} confidence • ${passes.length} passes`}
               </p>
             </div>
+            {context.verification && (
+              <div className="border-t border-gray-200 mt-4 pt-4 text-center text-sm">
+                <p className="text-gray-600">
+                  Tape measure{' '}
+                  {formatDimensions(context.verification.tape.widthInches, context.verification.tape.heightInches, display)}
+                </p>
+                <p className="text-gray-500 text-xs mt-1">
+                  Width {describeError(context.verification.aggregate.widthInches, display)} • height{' '}
+                  {describeError(context.verification.aggregate.heightInches, display)}
+                </p>
+              </div>
+            )}
           </div>
         </div>
 
         <div className="space-y-3">
+          {state.can({ type: 'MEASURE_DEPTH' }) && (
+            <button
+              type="button"
+              onClick={() => send({ type: 'MEASURE_DEPTH' })}
+              className="bg-gray-100 text-gray-900 px-8 py-4 rounded-lg font-semibold w-full"
+            >
+              {context.depth ? 'Re-check Frame Depth' : 'Check Frame Depth'}
+            </button>
+          )}
+          {state.can({ type: 'VERIFY' }) && (
+            <button
+              type="button"
+              onClick={() => send({ type: 'VERIFY' })}
+              className="bg-gray-100 text-gray-900 px-8 py-4 rounded-lg font-semibold w-full"
+            >
+              {context.verification ? 'Re-check Against Tape Measure' : 'Check Against Tape Measure'}
+            </button>
+          )}
           <button
             type="button"
-            onClick={handleClick('View Details', () => setScreen('details'))}
+            onClick={() => send({ type: 'VIEW_DETAILS' })}
             className="bg-gray-100 text-gray-900 px-8 py-4 rounded-lg font-semibold w-full"
           >
             View Details
           </button>
           <button
             type="button"
-            onClick={handleClick('Measure Another', restart)}
+            onClick={openSaveWindow}
+            className="bg-gray-100 text-gray-900 px-8 py-4 rounded-lg font-semibold w-full"
+          >
+            {savedWindow ? 'Edit Saved Window' : 'Save to Project'}
+          </button>
+          <button
+            type="button"
+            onClick={measureAnother}
             className="bg-blue-600 text-white px-8 py-4 rounded-lg font-semibold w-full"
           >
             Measure Another Window
           </button>
+          <div className="flex justify-between">
+            <button
+              type="button"
+              onClick={() => send({ type: 'VIEW_PROJECT' })}
+              className="text-gray-500 text-sm"
+            >
+              {project.name}
+            </button>
+            <button type="button" onClick={restart} className="text-gray-500 text-sm">
+              Finish
+            </button>
+            <button
+              type="button"
+              onClick={() => send({ type: 'VIEW_SETTINGS' })}
+              className="text-gray-500 text-sm"
+            >
+              Settings
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // VERIFICATION (optional, camera measurements only)
+  if (state.matches('verification')) {
+    const isInside = context.mountType === 'inside';
+    const fields = [
+      { label: isInside ? 'Narrowest width' : 'Width', value: tapeWidth, set: setTapeWidth },
+      { label: isInside ? 'Shortest height' : 'Height', value: tapeHeight, set: setTapeHeight },
+    ];
+
+    return (
+      <div className="min-h-screen flex flex-col p-6 bg-white">
+        <button type="button" onClick={() => send({ type: 'BACK' })} className="text-blue-600 mb-8">
+          ← Back
+        </button>
+        <h2 className="text-xl font-bold text-gray-900 mb-2">Check Against Tape Measure</h2>
+        <p className="text-gray-600 mb-6">
+          {isInside
+            ? 'Measure the opening with a tape at its narrowest width and shortest height.'
+            : 'Measure the overall width and height with a tape.'}{' '}
+          Comparing helps track how accurate the camera is.
+        </p>
+
+        {fields.map(({ label, value, set }) => (
+          <label key={label} className="block text-sm text-gray-700 mb-4">
+            {label} ({UNIT_NAMES[display.unit]})
+            <input
+              type="text"
+              placeholder={display.unit === 'in' ? 'e.g. 36 1/2' : undefined}
+              value={value}
+              onChange={(event) => set(event.target.value)}
+              className="block w-full border border-gray-300 rounded-lg px-3 py-2 mt-1 font-mono"
+            />
+          </label>
+        ))}
+        {tapeError && <p className="text-red-700 text-sm mb-2">{tapeError}</p>}
+
+        <div className="mt-auto">
+          <button
+            type="button"
+            onClick={submitVerification}
+            className="bg-blue-600 text-white px-8 py-4 rounded-lg text-lg font-semibold w-full"
+          >
+            Compare
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // SAVE WINDOW
+  if (state.matches('saveWindow')) {
+    return (
+      <div className="min-h-screen flex flex-col p-6 bg-white">
+        <button type="button" onClick={() => send({ type: 'BACK' })} className="text-blue-600 mb-8">
+          ← Back
+        </button>
+        <h2 className="text-xl font-bold text-gray-900 mb-2">{savedWindow ? 'Edit Saved Window' : 'Save to Project'}</h2>
+        <p className="text-gray-600 mb-6">
+          {context.mountType} mount •{' '}
+          {formatDimensions(context.finalOrderWidth ?? 0, context.finalOrderHeight ?? 0, display)} to order
+        </p>
+
+        <WindowDetailsForm
+          value={windowForm}
+          onChange={setWindowForm}
+          roomNames={project.rooms.map((room) => room.name)}
+          labelPlaceholder={savedWindow?.label ?? defaultWindowLabel(project)}
+        />
+        {windowFormError && <p className="text-red-700 text-sm mt-2">{windowFormError}</p>}
+
+        <div className="mt-auto pt-6 space-y-3">
+          <button
+            type="button"
+            onClick={() => submitSaveWindow(true)}
+            className="bg-blue-600 text-white px-8 py-4 rounded-lg text-lg font-semibold w-full"
+          >
+            Save and Measure Another
+          </button>
           <button
             type="button"
-            onClick={handleClick('Settings', () => setScreen('settings'))}
-            className="text-gray-500 text-sm w-full"
+            onClick={() => submitSaveWindow(false)}
+            className="bg-gray-100 text-gray-900 px-8 py-4 rounded-lg font-semibold w-full"
           >
-            Settings
+            Save
           </button>
         </div>
+      </div>
+    );
+  }
+
+  // PROJECT
+  if (state.matches('project')) {
+    const rooms = windowsByRoom(project);
+
+    return (
+      <div className="min-h-screen flex flex-col p-6 bg-white">
+        <button type="button" onClick={() => send({ type: 'BACK' })} className="text-blue-600 mb-8">
+          ← Back
+        </button>
+        <input
+          type="text"
+          aria-label="Project name"
+          value={project.name}
+          onChange={(event) => setProject(saveProject({ ...project, name: event.target.value }))}
+          className="text-xl font-bold text-gray-900 mb-1 border-b border-transparent focus:border-gray-300 outline-none"
+        />
+        <p className="text-gray-600 text-sm mb-6">
+          {project.windows.length} {project.windows.length === 1 ? 'window' : 'windows'} in {rooms.length}{' '}
+          {rooms.length === 1 ? 'room' : 'rooms'}
+        </p>
+
+        {rooms.length === 0 && (
+          <p className="text-gray-600">Windows you save after measuring will be listed here by room.</p>
+        )}
 
-        <p className="text-gray-400 text-xs text-center mt-4">Clicks: {clickCount}</p>
+        <div className="space-y-6">
+          {rooms.map(({ room, windows }) => (
+            <div key={room.id}>
+              <h3 className="font-semibold text-gray-900 mb-2">{room.name}</h3>
+              <div className="space-y-3">
+                {windows.map((saved) =>
+                  saved.id === editingWindowId ? (
+                    <div key={saved.id} className="bg-gray-100 rounded-lg p-4">
+                      <WindowDetailsForm
+                        value={windowForm}
+                        onChange={setWindowForm}
+                        roomNames={project.rooms.map((r) => r.name)}
+                        labelPlaceholder={saved.label}
+                      />
+                      {windowFormError && <p className="text-red-700 text-sm mt-2">{windowFormError}</p>}
+                      <div className="grid grid-cols-2 gap-2 mt-4">
+                        <button
+                          type="button"
+                          onClick={submitWindowEdit}
+                          className="bg-blue-600 text-white py-2 rounded-lg text-sm font-semibold"
+                        >
+                          Save
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setEditingWindowId(null)}
+                          className="bg-white text-gray-900 py-2 rounded-lg text-sm font-semibold"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div key={saved.id} className="bg-gray-100 rounded-lg p-4">
+                      <div className="flex justify-between items-start mb-1">
+                        <span className="font-semibold text-gray-900">
+                          {saved.label}
+                          {saved.source === 'manual' && (
+                            <span className="text-gray-500 text-xs font-normal ml-2">typed in</span>
+                          )}
+                        </span>
+                        <span className={`text-xs px-2 py-1 rounded ${categoryBadgeClass(saved.category)}`}>
+                          {saved.category}
+                        </span>
+                      </div>
+                      <p className="font-mono text-gray-900">
+                        {formatDimensions(saved.orderWidthInches, saved.orderHeightInches, display)}
+                      </p>
+                      <p className="text-gray-500 text-xs">
+                        {saved.mountType} mount • opening {formatDimensions(saved.widthInches, saved.heightInches, display)}
+                      </p>
+                      {saved.depth && !saved.depth.feasible && (
+                        <p className="text-red-700 text-xs mt-1">Frame too shallow for inside mount</p>
+                      )}
+                      {saved.verification && (
+                        <p className="text-gray-500 text-xs mt-1">
+                          Tape check: width {describeError(saved.verification.aggregate.widthInches, display)} •
+                          height {describeError(saved.verification.aggregate.heightInches, display)}
+                        </p>
+                      )}
+                      {saved.notes && <p className="text-gray-600 text-sm mt-2">{saved.notes}</p>}
+                      <div className="flex gap-4 mt-3 text-sm">
+                        <button type="button" onClick={() => startEditingWindow(saved.id)} className="text-blue-600">
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            confirmDelete(saved.id, () => setProject(saveProject(deleteWindow(project, saved.id))))
+                          }
+                          className="text-red-700"
+                        >
+                          {confirmingDelete === saved.id ? 'Tap again to delete' : 'Delete'}
+                        </button>
+                      </div>
+                    </div>
+                  )
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {project.windows.length > 0 && (
+          <div className="mt-auto pt-6">
+            <button
+              type="button"
+              onClick={() => confirmDelete('project', () => setProject(saveProject(createProject())))}
+              className="text-red-700 text-sm w-full"
+            >
+              {confirmingDelete === 'project' ? 'Tap again to delete every window' : 'Start a New Project'}
+            </button>
+          </div>
+        )}
       </div>
     );
   }
 
   // DETAILS
-  if (screen === 'details') {
+  if (state.matches('details')) {
     return (
       <div className="min-h-screen flex flex-col p-6 bg-white">
-        <button type="button" onClick={handleClick('Back', () => setScreen('completion'))} className="text-blue-600 mb-8">
+        <button type="button" onClick={() => send({ type: 'BACK' })} className="text-blue-600 mb-8">
           ← Back
         </button>
         <h2 className="text-xl font-bold text-gray-900 mb-6">Measurement Details</h2>
         <div className="space-y-4">
           {passes.map((pass, i) => (
-            <div key={i} className="bg-gray-100 rounded-lg p-4">
+            <div key={pass.timestamp} className="bg-gray-100 rounded-lg p-4">
               <div className="flex justify-between items-start mb-2">
-                <span className="font-semibold text-gray-900">Pass {i + 1}</span>
-                <span className={`text-xs px-2 py-1 rounded ${
-                  pass.category === 'Excellent' ? 'bg-green-100 text-green-800' :
-                  pass.category === 'OK' ? 'bg-yellow-100 text-yellow-800' :
-                  'bg-red-100 text-red-800'
-                }`}>
-                  {pass.category}
+                <span className="font-semibold text-gray-900">
+                  Pass {i + 1}
+                  {pass.source === 'manual' && (
+                    <span className="text-gray-500 text-xs font-normal ml-2">typed in</span>
+                  )}
+                  {context.rejectedPasses.includes(i) && (
+                    <span className="text-amber-700 text-xs font-normal ml-2">outlier, not used</span>
+                  )}
+                </span>
+                <span className={`text-xs px-2 py-1 rounded ${categoryBadgeClass(pass.category)}`}>
+                  {pass.category} ({formatConfidence(pass.confidence)})
                 </span>
               </div>
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
                   <p className="text-gray-500">Width</p>
-                  <p className="font-mono">{formatFraction(pass.widthInInches)}</p>
+                  <p className="font-mono">{formatInchesFraction(pass.widthInInches, display)}</p>
                 </div>
                 <div>
                   <p className="text-gray-500">Height</p>
-                  <p className="font-mono">{formatFraction(pass.heightInInches)}</p>
+                  <p className="font-mono">{formatInchesFraction(pass.heightInInches, display)}</p>
                 </div>
               </div>
+              {context.mountType === 'inside' && pass.points && (
+                <div className="border-t border-gray-200 mt-3 pt-3">
+                  <ThreePointReadings points={pass.points} format={display} />
+                </div>
+              )}
             </div>
           ))}
         </div>
-        <p className="text-gray-400 text-xs text-center mt-8">Clicks: {clickCount}</p>
+      </div>
+    );
+  }
+
+  // DEBUG LOG VIEWER
+  if (state.matches('debugViewer')) {
+    return (
+      <div className="min-h-screen flex flex-col p-6 bg-white">
+        <button type="button" onClick={() => send({ type: 'BACK' })} className="text-blue-600 mb-8">
+          ← Back
+        </button>
+        <h2 className="text-xl font-bold text-gray-900 mb-1">Debug Log</h2>
+        <p className="text-gray-600 text-sm mb-4">{viewedLog?.title}</p>
+        {debugStatus && <p className="text-amber-700 text-xs mb-4">{debugStatus}</p>}
+        <DebugLogViewer records={viewedLog?.records ?? []} format={display} />
       </div>
     );
   }
 
   // SETTINGS
-  if (screen === 'settings') {
+  if (state.matches('settings')) {
+    const runDebugAction = async (action: () => Promise<boolean | void>, message: string) => {
+      const ok = await action();
+      setDebugStatus(ok === false ? 'Action failed' : message);
+      await refreshDebugLog();
+    };
+    const queryProviderType = getQueryProviderType(window.location.search);
+    const scenarioFromUrl = isMockScenarioId(new URLSearchParams(window.location.search).get(SCENARIO_QUERY_PARAM));
+    const scenario = selectMockScenario(window.location.search, settings.mockScenario);
+    const recording = measurement.provider instanceof RecordingProvider ? measurement.provider : null;
+    const replayTrace = getReplayTrace();
+    const accuracy = accuracyReport(verificationSamples);
+    const accuracyText = (stats: AccuracyStats) =>
+      `±${formatInchesFraction(stats.meanErrorInches, display)} mean • ±${formatInchesFraction(
+        stats.p95ErrorInches,
+        display
+      )} 95%`;
+
     return (
       <div className="min-h-screen flex flex-col p-6 bg-white">
-        <button type="button" onClick={handleClick('Back', () => setScreen(results ? 'completion' : 'home'))} className="text-blue-600 mb-8">
+        <button type="button" onClick={() => send({ type: 'BACK' })} className="text-blue-600 mb-8">
           ← Back
         </button>
         <h2 className="text-xl font-bold text-gray-900 mb-6">Settings</h2>
         <div className="space-y-6">
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Measurement Provider</h3>
+            <div className="space-y-2">
+              {Object.values(providerRegistry).map((entry) => {
+                const supported = entry.isSupported();
+                const selected = (settings.providerType ?? measurement.selection?.type) === entry.type;
+                return (
+                  <button
+                    key={entry.type}
+                    type="button"
+                    onClick={() => chooseProvider(entry.type)}
+                    disabled={!supported}
+                    className={`w-full p-3 border-2 rounded-lg text-left ${selected ? 'border-blue-600' : 'border-gray-200'} ${supported ? '' : 'opacity-50'}`}
+                  >
+                    <span className="font-semibold text-gray-900 text-sm">{entry.label}</span>
+                    <p className="text-gray-600 text-xs mt-1">
+                      {supported ? entry.description : (entry.unsupportedReason ?? 'Not supported in this browser')}
+                    </p>
+                  </button>
+                );
+              })}
+            </div>
+            {queryProviderType && (
+              <p className="text-amber-700 text-xs mt-2">
+                Overridden by the URL: using {providerRegistry[queryProviderType].label}
+              </p>
+            )}
+            {measurement.selection?.fellBack && (
+              <p className="text-amber-700 text-xs mt-2">
+                {providerRegistry[measurement.selection.requested].label} is unavailable, using{' '}
+                {providerRegistry[measurement.selection.type].label} instead
+              </p>
+            )}
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Simulated Scenario</h3>
+            <p className="text-gray-600 text-sm mb-2">What the Simulated provider plays out, the same way every time.</p>
+            <div className="flex flex-wrap gap-2">
+              {Object.values(mockScenarios).map((entry) => (
+                <button
+                  key={entry.id}
+                  type="button"
+                  onClick={() => chooseMockScenario(entry.id)}
+                  className={`px-3 py-1 rounded-full text-xs ${
+                    entry.id === settings.mockScenario ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  {entry.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-gray-600 text-xs mt-2">{scenario.description}</p>
+            {scenarioFromUrl && (
+              <p className="text-amber-700 text-xs mt-2">Overridden by the URL: using {scenario.label}</p>
+            )}
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Scale Reference</h3>
+            <p className="text-gray-600 text-sm mb-2">
+              Hold a known object against the window so the camera can measure true size.
+            </p>
+            <div className="bg-gray-800 rounded-lg p-3">
+              <ReferencePicker value={measurement.referenceObject} onChange={measurement.setReferenceObject} />
+            </div>
+            <a
+              href={`${process.env.NEXT_PUBLIC_BASE_PATH ?? ''}${CALIBRATION_MARKER_PATH}`}
+              download
+              className="inline-block text-blue-600 text-sm mt-2"
+            >
+              Download printable marker sheet
+            </a>
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Units</h3>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm text-gray-700">Show sizes in</span>
+              <span className="flex gap-2">
+                {LENGTH_UNITS.map((unit) => (
+                  <button
+                    key={unit}
+                    type="button"
+                    onClick={() => changeDisplayFormat({ unit })}
+                    className={`px-3 py-1 rounded-full text-xs ${
+                      unit === display.unit ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'
+                    }`}
+                  >
+                    {unit}
+                  </button>
+                ))}
+              </span>
+            </div>
+            {display.unit === 'in' && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-700">Round up to</span>
+                <span className="flex gap-2">
+                  {INCH_PRECISIONS.map((precision) => (
+                    <button
+                      key={precision}
+                      type="button"
+                      onClick={() => changeDisplayFormat({ precision })}
+                      className={`px-3 py-1 rounded-full text-xs ${
+                        precision === display.precision ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      1/{precision}&quot;
+                    </button>
+                  ))}
+                </span>
+              </div>
+            )}
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Combining Passes</h3>
+            <div className="space-y-2">
+              {Object.values(aggregationStrategies).map((strategy) => (
+                <button
+                  key={strategy.id}
+                  type="button"
+                  onClick={() => chooseAggregationStrategy(strategy.id)}
+                  className={`w-full p-3 border-2 rounded-lg text-left ${settings.aggregationStrategy === strategy.id ? 'border-blue-600' : 'border-gray-200'}`}
+                >
+                  <span className="font-semibold text-gray-900 text-sm">{strategy.label}</span>
+                  <p className="text-gray-600 text-xs mt-1">{strategy.description}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Mount Rules</h3>
+            <p className="text-gray-600 text-sm mb-2">
+              Turn the measured opening into the size to order, and set how far out of square an
+              inside mount can be. Check your shade maker&apos;s guide.
+            </p>
+            <MountRulesForm value={settings.mountRules} onChange={changeMountRules} unit={display.unit} />
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Passes</h3>
+            <p className="text-gray-600 text-sm mb-2">
+              Keep asking for passes until they agree to within the target, up to the limit.
+            </p>
+            {[
+              {
+                label: 'Target',
+                options: TARGET_UNCERTAINTY_OPTIONS,
+                selected: settings.passPolicy.targetUncertaintyInches,
+                text: (inches: number) => `±${formatInchesFraction(inches, display)}`,
+                choose: (inches: number) => changePassPolicy({ targetUncertaintyInches: inches }),
+              },
+              {
+                label: 'At most',
+                options: MAX_PASS_OPTIONS,
+                selected: settings.passPolicy.maxPasses,
+                text: (count: number) => `${count} passes`,
+                choose: (count: number) => changePassPolicy({ maxPasses: count }),
+              },
+            ].map(({ label, options, selected, text, choose }) => (
+              <div key={label} className="flex items-center justify-between mb-2">
+                <span className="text-sm text-gray-700">{label}</span>
+                <span className="flex gap-2">
+                  {options.map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => choose(option)}
+                      className={`px-3 py-1 rounded-full text-xs ${
+                        option === selected ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {text(option)}
+                    </button>
+                  ))}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Accuracy</h3>
+            {accuracy.windows === 0 ? (
+              <p className="text-gray-600 text-sm">
+                No tape measure checks yet. Use Check Against Tape Measure after a measurement.
+              </p>
+            ) : (
+              <>
+                <p className="text-gray-600 text-sm mb-2">
+                  {accuracy.windows} {accuracy.windows > 1 ? 'windows' : 'window'} checked • final size{' '}
+                  {accuracyText(accuracy.overall)}
+                </p>
+                {[
+                  { title: 'By provider', groups: accuracy.byProvider },
+                  { title: 'By mount type', groups: accuracy.byMountType },
+                  { title: 'By confidence', groups: accuracy.byCategory },
+                ].map(({ title, groups }) => (
+                  <div key={title} className="mb-2">
+                    <p className="text-gray-500 text-xs">{title} (single passes)</p>
+                    {groups.map((group) => (
+                      <p key={group.label} className="flex justify-between text-sm text-gray-700">
+                        <span>{group.label}</span>
+                        <span className="font-mono text-xs">{accuracyText(group)}</span>
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Debug Log</h3>
+            <p className="text-gray-600 text-sm mb-3">{debugRecordCount} records stored on this device</p>
+            <div className="grid grid-cols-2 gap-2 mb-2">
+              <button
+                type="button"
+                onClick={viewDeviceLog}
+                className="bg-gray-100 text-gray-900 py-2 rounded-lg text-sm font-semibold"
+              >
+                View
+              </button>
+              <label className="bg-gray-100 text-gray-900 py-2 rounded-lg text-sm font-semibold text-center cursor-pointer">
+                Import File
+                <input type="file" accept="application/json,.json" className="hidden" onChange={importDebugLog} />
+              </label>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                type="button"
+                onClick={() => runDebugAction(copyDebugLogToClipboard, 'Copied to clipboard')}
+                className="bg-gray-100 text-gray-900 py-2 rounded-lg text-sm font-semibold"
+              >
+                Copy
+              </button>
+              <button
+                type="button"
+                onClick={() => runDebugAction(downloadDebugLog, 'Download started')}
+                className="bg-gray-100 text-gray-900 py-2 rounded-lg text-sm font-semibold"
+              >
+                Download
+              </button>
+              <button
+                type="button"
+                onClick={() => runDebugAction(clearDebugLog, 'Debug log cleared')}
+                className="bg-red-50 text-red-700 py-2 rounded-lg text-sm font-semibold"
+              >
+                Clear
+              </button>
+            </div>
+            {debugStatus && <p className="text-gray-500 text-xs mt-2">{debugStatus}</p>}
+            <div className="mt-3">
+              {[
+                {
+                  label: 'Keep up to',
+                  options: RETENTION_RECORD_OPTIONS,
+                  selected: settings.debugRetention.maxRecords,
+                  text: (count: number | null) => `${count} records`,
+                  choose: (count: number | null) => changeDebugRetention({ maxRecords: count }),
+                },
+                {
+                  label: 'For',
+                  options: RETENTION_AGE_OPTIONS,
+                  selected: settings.debugRetention.maxAgeDays,
+                  text: (days: number | null) => (days === null ? 'Always' : `${days} days`),
+                  choose: (days: number | null) => changeDebugRetention({ maxAgeDays: days }),
+                },
+              ].map(({ label, options, selected, text, choose }) => (
+                <div key={label} className="flex items-center justify-between mb-2">
+                  <span className="text-sm text-gray-700">{label}</span>
+                  <span className="flex gap-2">
+                    {options.map((option) => (
+                      <button
+                        key={String(option)}
+                        type="button"
+                        onClick={() => choose(option)}
+                        className={`px-3 py-1 rounded-full text-xs ${
+                          option === selected ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'
+                        }`}
+                      >
+                        {text(option)}
+                      </button>
+                    ))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Provider Traces</h3>
+            <p className="text-gray-600 text-sm mb-3">
+              Record what the provider sees, then replay it here or in a test to reproduce a session exactly.
+            </p>
+            <button
+              type="button"
+              onClick={toggleRecordTraces}
+              className="w-full flex justify-between items-center bg-gray-100 rounded-lg px-3 py-2 mb-2"
+            >
+              <span className="text-sm text-gray-900">Record traces</span>
+              <span className={`text-xs font-semibold ${settings.recordTraces ? 'text-blue-600' : 'text-gray-500'}`}>
+                {settings.recordTraces ? 'On' : 'Off'}
+              </span>
+            </button>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={() => recording && downloadTrace(recording)}
+                disabled={!recording}
+                className={`bg-gray-100 text-gray-900 py-2 rounded-lg text-sm font-semibold ${recording ? '' : 'opacity-50'}`}
+              >
+                Download Trace
+              </button>
+              <label className="bg-gray-100 text-gray-900 py-2 rounded-lg text-sm font-semibold text-center cursor-pointer">
+                Load for Replay
+                <input type="file" accept="application/json,.json" className="hidden" onChange={loadReplayTrace} />
+              </label>
+            </div>
+            {recording ? (
+              <p className="text-gray-500 text-xs mt-2">
+                Recorded {recording.getTrace().detections.length} frames and {recording.getTrace().captures.length}{' '}
+                captures since the camera started
+              </p>
+            ) : (
+              settings.recordTraces && (
+                <p className="text-gray-500 text-xs mt-2">Recording starts with the next measurement</p>
+              )
+            )}
+            {replayTrace && (
+              <p className="text-gray-500 text-xs mt-2">
+                Replay trace loaded: {replayTrace.providerType}, recorded{' '}
+                {new Date(replayTrace.recordedAt).toLocaleString()}
+              </p>
+            )}
+            {traceStatus && <p className="text-gray-500 text-xs mt-2">{traceStatus}</p>}
+          </div>
           <div>
             <h3 className="font-semibold text-gray-900 mb-2">Debug Info</h3>
-            <p className="text-gray-600 text-sm">Click counter: {clickCount}</p>
-            <p className="text-gray-600 text-sm">Current screen: {screen}</p>
+            <p className="text-gray-600 text-sm">Current state: {String(state.value)}</p>
+            <p className="text-gray-600 text-sm">Provider: {measurement.provider?.providerType ?? 'not started'}</p>
             <p className="text-gray-600 text-sm">Passes completed: {passes.length}</p>
           </div>
           <div className="pt-6 border-t border-gray-200">
             <p className="text-gray-500 text-xs">
-              Window Measurement App v0.1.3
+              Window Measurement App v{APP_VERSION}
               <br />
               Client-only render (no SSR hydration)
             </p>
@@ -423,7 +2029,58 @@ function ClientApp() {
     );
   }
 
-  return <div className="p-6">Unknown screen: {screen}</div>;
+  return <div className="p-6">Unknown state: {String(state.value)}</div>;
+}
+
+// Offer back a measurement the last visit didn't finish
+function SessionGate() {
+  const measurement = useMeasurement();
+  const [session, setSession] = useState(loadSession);
+  const [resumeFrom, setResumeFrom] = useState<TutorialSnapshot | null>(null);
+  const [cameraFailed, setCameraFailed] = useState(false);
+
+  if (session) {
+    const { context } = session.snapshot;
+
+    const resume = async () => {
+      // Ask for the camera again from the tap, as mobile browsers require
+      if (context.entryMode === 'camera') setCameraFailed(!(await measurement.initialize()));
+      setResumeFrom(session.snapshot);
+      setSession(null);
+    };
+
+    const startOver = () => {
+      clearSession();
+      setSession(null);
+    };
+
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-white">
+        <h2 className="text-xl font-bold text-gray-900 mb-2">Resume measurement?</h2>
+        <p className="text-gray-600 text-center">
+          {context.mountType} mount
+          {context.finalWidth !== null
+            ? ' • measurement complete'
+            : ` • ${context.passes.length} ${context.passes.length === 1 ? 'pass' : 'passes'} taken`}
+        </p>
+        <p className="text-gray-500 text-sm mb-8">Last saved {new Date(session.savedAt).toLocaleString()}</p>
+
+        <button
+          type="button"
+          onClick={resume}
+          disabled={measurement.isInitializing}
+          className={`bg-blue-600 text-white px-8 py-4 rounded-lg text-lg font-semibold mb-4 w-full max-w-xs ${measurement.isInitializing ? 'opacity-50' : ''}`}
+        >
+          {measurement.isInitializing ? 'Starting Camera...' : 'Resume'}
+        </button>
+        <button type="button" onClick={startOver} className="text-gray-600 py-2">
+          Start Over
+        </button>
+      </div>
+    );
+  }
+
+  return <ClientApp resumeFrom={resumeFrom} cameraFailed={cameraFailed} />;
 }
 
 // Main page - render nothing on server, only on client
@@ -444,5 +2101,9 @@ export default function Page() {
     );
   }
 
-  return <ClientApp />;
+  return (
+    <MeasurementProviderWrapper>
+      <SessionGate />
+    </MeasurementProviderWrapper>
+  );
 }
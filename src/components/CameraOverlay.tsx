@@ -1,7 +1,7 @@
 'use client';
 
-import React from 'react';
-import type { DetectionResult, StabilityState } from '@/providers/types';
+import React, { useRef } from 'react';
+import type { DetectionCorner, DetectionQuad, DetectionResult, StabilityState } from '@/providers/types';
 
 interface CameraOverlayProps {
   detection: DetectionResult | null;
@@ -10,10 +10,41 @@ interface CameraOverlayProps {
   containerWidth: number;
   containerHeight: number;
   showGrid?: boolean;
+  // Turns the corner markers into draggable handles (frozen-frame review)
+  onCornersChange?: (corners: DetectionQuad) => void;
+  // Corner being dragged, or null when released
+  onActiveCornerChange?: (index: number | null) => void;
+}
+
+interface CornerDrag {
+  index: number;
+  pointerId: number;
+  // Pointer position and corner when the drag started
+  startX: number;
+  startY: number;
+  corner: DetectionCorner;
+}
+
+// Point a fraction of the way from a to b
+function lerp(a: { x: number; y: number }, b: { x: number; y: number }, t: number) {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+// Length of the L-shaped corner markers (pixels)
+const CORNER_MARKER_LENGTH = 20;
+// Touch target radius of a draggable corner handle (pixels)
+const HANDLE_HIT_RADIUS = 22;
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
 }
 
 /**
- * SVG overlay for detection bounding box, grid, and warnings
+ * SVG overlay for the detected window quad, corner markers, grid, and warnings
+ *
+ * With `onCornersChange` the corners can be dragged (mouse or touch). A
+ * drag moves the corner by the pointer's movement rather than jumping it
+ * under the finger, so the user can see what they are lining up.
  */
 export function CameraOverlay({
   detection,
@@ -22,7 +53,11 @@ export function CameraOverlay({
   containerWidth,
   containerHeight,
   showGrid = true,
+  onCornersChange,
+  onActiveCornerChange,
 }: CameraOverlayProps) {
+  const dragRef = useRef<CornerDrag | null>(null);
+
   if (!detection) {
     return (
       <div className="absolute inset-0 flex items-center justify-center">
@@ -33,11 +68,13 @@ export function CameraOverlay({
     );
   }
 
-  // Convert normalized coordinates to pixels
-  const boxX = detection.x * containerWidth;
-  const boxY = detection.y * containerHeight;
-  const boxWidth = detection.width * containerWidth;
-  const boxHeight = detection.height * containerHeight;
+  // Convert normalized corners to pixels (TL, TR, BR, BL)
+  const points = detection.corners.map((c) => ({
+    x: c.x * containerWidth,
+    y: c.y * containerHeight,
+  }));
+  const [tl, tr, br, bl] = points;
+  const outline = points.map((p) => `${p.x},${p.y}`).join(' ');
 
   // Determine box color based on stability and suggestion
   let boxColor = '#f59e0b'; // yellow - not stable
@@ -47,79 +84,108 @@ export function CameraOverlay({
     boxColor = '#3b82f6'; // blue - stable but not confident enough
   }
 
+  // Each corner's marker runs along its two adjacent edges
+  const cornerMarkers = points.map((corner, i) => {
+    const prev = points[(i + 3) % 4];
+    const next = points[(i + 1) % 4];
+    const toward = (target: { x: number; y: number }) => {
+      const length = Math.hypot(target.x - corner.x, target.y - corner.y) || 1;
+      return lerp(corner, target, Math.min(1, CORNER_MARKER_LENGTH / length));
+    };
+    const a = toward(prev);
+    const b = toward(next);
+    return `M ${a.x} ${a.y} L ${corner.x} ${corner.y} L ${b.x} ${b.y}`;
+  });
+
+  const topMid = lerp(tl, tr, 0.5);
+  const editable = Boolean(onCornersChange);
+
+  const startDrag = (index: number) => (event: React.PointerEvent<SVGCircleElement>) => {
+    event.currentTarget.ownerSVGElement?.setPointerCapture(event.pointerId);
+    dragRef.current = {
+      index,
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      corner: detection.corners[index],
+    };
+    onActiveCornerChange?.(index);
+  };
+
+  const moveDrag = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId || !onCornersChange) return;
+
+    const moved: DetectionCorner = {
+      x: clamp01(drag.corner.x + (event.clientX - drag.startX) / containerWidth),
+      y: clamp01(drag.corner.y + (event.clientY - drag.startY) / containerHeight),
+      // Placed by the user, so no longer a detector guess
+      confidence: 1,
+    };
+    onCornersChange(
+      detection.corners.map((corner, i) => (i === drag.index ? moved : corner)) as DetectionQuad
+    );
+  };
+
+  const endDrag = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragRef.current?.pointerId !== event.pointerId) return;
+    dragRef.current = null;
+    onActiveCornerChange?.(null);
+  };
+
   return (
     <svg
-      className="absolute inset-0 pointer-events-none"
+      className={`absolute inset-0 ${editable ? 'touch-none' : 'pointer-events-none'}`}
+      onPointerMove={editable ? moveDrag : undefined}
+      onPointerUp={editable ? endDrag : undefined}
+      onPointerCancel={editable ? endDrag : undefined}
       width={containerWidth}
       height={containerHeight}
       viewBox={`0 0 ${containerWidth} ${containerHeight}`}
     >
-      {/* Detection bounding box */}
-      <rect
-        x={boxX}
-        y={boxY}
-        width={boxWidth}
-        height={boxHeight}
+      {/* Detected window quad */}
+      <polygon
+        points={outline}
         fill="none"
         stroke={boxColor}
         strokeWidth={3}
         strokeDasharray={suggestCapture ? 'none' : '10,5'}
       />
 
-      {/* Corner markers */}
+      {/* Corner markers, faded by per-corner confidence */}
       <g stroke={boxColor} strokeWidth={4} fill="none">
-        {/* Top-left */}
-        <path d={`M ${boxX} ${boxY + 20} L ${boxX} ${boxY} L ${boxX + 20} ${boxY}`} />
-        {/* Top-right */}
-        <path
-          d={`M ${boxX + boxWidth - 20} ${boxY} L ${boxX + boxWidth} ${boxY} L ${boxX + boxWidth} ${boxY + 20}`}
-        />
-        {/* Bottom-left */}
-        <path
-          d={`M ${boxX} ${boxY + boxHeight - 20} L ${boxX} ${boxY + boxHeight} L ${boxX + 20} ${boxY + boxHeight}`}
-        />
-        {/* Bottom-right */}
-        <path
-          d={`M ${boxX + boxWidth - 20} ${boxY + boxHeight} L ${boxX + boxWidth} ${boxY + boxHeight} L ${boxX + boxWidth} ${boxY + boxHeight - 20}`}
-        />
+        {cornerMarkers.map((d, i) => (
+          <path key={i} d={d} opacity={0.4 + 0.6 * detection.corners[i].confidence} />
+        ))}
+      </g>
+      <g fill={boxColor}>
+        {points.map((p, i) => (
+          <circle key={i} cx={p.x} cy={p.y} r={4} opacity={0.4 + 0.6 * detection.corners[i].confidence} />
+        ))}
       </g>
 
-      {/* Grid overlay (3x3) */}
+      {/* Grid overlay (3x3), following the quad's edges */}
       {showGrid && (
         <g stroke={boxColor} strokeWidth={1} opacity={0.3}>
-          {/* Vertical lines */}
-          <line
-            x1={boxX + boxWidth / 3}
-            y1={boxY}
-            x2={boxX + boxWidth / 3}
-            y2={boxY + boxHeight}
-          />
-          <line
-            x1={boxX + (2 * boxWidth) / 3}
-            y1={boxY}
-            x2={boxX + (2 * boxWidth) / 3}
-            y2={boxY + boxHeight}
-          />
-          {/* Horizontal lines */}
-          <line
-            x1={boxX}
-            y1={boxY + boxHeight / 3}
-            x2={boxX + boxWidth}
-            y2={boxY + boxHeight / 3}
-          />
-          <line
-            x1={boxX}
-            y1={boxY + (2 * boxHeight) / 3}
-            x2={boxX + boxWidth}
-            y2={boxY + (2 * boxHeight) / 3}
-          />
+          {[1 / 3, 2 / 3].map((t) => {
+            const top = lerp(tl, tr, t);
+            const bottom = lerp(bl, br, t);
+            const left = lerp(tl, bl, t);
+            const right = lerp(tr, br, t);
+            return (
+              <React.Fragment key={t}>
+                <line x1={top.x} y1={top.y} x2={bottom.x} y2={bottom.y} />
+                <line x1={left.x} y1={left.y} x2={right.x} y2={right.y} />
+              </React.Fragment>
+            );
+          })}
         </g>
       )}
 
       {/* Confidence indicator */}
       <text
-        x={boxX + boxWidth / 2}
-        y={boxY - 10}
+        x={topMid.x}
+        y={topMid.y - 10}
         textAnchor="middle"
         fill={boxColor}
         fontSize={14}
@@ -127,6 +193,25 @@ export function CameraOverlay({
       >
         {Math.round(detection.confidence * 100)}%
       </text>
+
+      {/* Draggable handles over the corners */}
+      {editable && (
+        <g>
+          {points.map((p, i) => (
+            <React.Fragment key={i}>
+              <circle cx={p.x} cy={p.y} r={10} fill="none" stroke="#ffffff" strokeWidth={2} />
+              <circle
+                cx={p.x}
+                cy={p.y}
+                r={HANDLE_HIT_RADIUS}
+                fill="transparent"
+                className="cursor-move"
+                onPointerDown={startDrag(i)}
+              />
+            </React.Fragment>
+          ))}
+        </g>
+      )}
     </svg>
   );
 }
@@ -0,0 +1,80 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CameraOverlay, CameraWarnings } from './CameraOverlay';
+import type { DetectionResult, StabilityState } from '@/providers/types';
+
+interface CameraViewProps {
+  // Live video or still photo to show under the overlay
+  mediaElement: HTMLVideoElement | HTMLImageElement | null;
+  detection: DetectionResult | null;
+  stability: StabilityState;
+  suggestCapture: boolean;
+  // Shown when there is nothing to display yet
+  placeholder?: string;
+}
+
+/**
+ * Live camera feed (or still photo) with the detection overlay sized to
+ * fit on top of it. Providers without media (mock, photo before one is
+ * chosen) get a placeholder background.
+ */
+export function CameraView({
+  mediaElement,
+  detection,
+  stability,
+  suggestCapture,
+  placeholder = 'Mock Camera View',
+}: CameraViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Track container size so the overlay matches the rendered feed
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const updateSize = () => {
+      setSize({ width: container.clientWidth, height: container.clientHeight });
+    };
+
+    updateSize();
+    window.addEventListener('resize', updateSize);
+    return () => window.removeEventListener('resize', updateSize);
+  }, []);
+
+  // Attach the provider's media element to the container
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !mediaElement) return;
+
+    mediaElement.className = 'absolute inset-0 w-full h-full object-cover';
+    container.prepend(mediaElement);
+
+    return () => {
+      mediaElement.remove();
+    };
+  }, [mediaElement]);
+
+  return (
+    <div ref={containerRef} className="relative flex-1 bg-gray-800 overflow-hidden">
+      {!mediaElement && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="text-gray-400 text-sm">{placeholder}</div>
+        </div>
+      )}
+
+      {size.width > 0 && (
+        <CameraOverlay
+          detection={detection}
+          stability={stability}
+          suggestCapture={suggestCapture}
+          containerWidth={size.width}
+          containerHeight={size.height}
+        />
+      )}
+
+      <CameraWarnings stability={stability} suggestCapture={suggestCapture} />
+    </div>
+  );
+}
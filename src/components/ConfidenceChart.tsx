@@ -0,0 +1,81 @@
+'use client';
+
+import React from 'react';
+import type { ConfidenceCategory } from '@/providers/types';
+import type { DebugRecord } from '@/utils/debugLog';
+import { getConfidencePolicy } from '@/utils/confidence';
+
+interface ConfidenceChartProps {
+  records: DebugRecord[];
+  // Record drawn larger, and called back when a point is tapped
+  selected?: DebugRecord | null;
+  onSelect?: (record: DebugRecord) => void;
+}
+
+// Drawing size and the plot area within it
+const WIDTH = 300;
+const HEIGHT = 120;
+const PLOT = { left: 28, top: 8, right: 292, bottom: 104 };
+
+const CATEGORY_COLORS: Record<ConfidenceCategory, string> = {
+  Excellent: '#16a34a',
+  OK: '#ca8a04',
+  'Not Great': '#dc2626',
+};
+
+/**
+ * Confidence of each record over time, against the category thresholds
+ */
+export function ConfidenceChart({ records, selected = null, onSelect }: ConfidenceChartProps) {
+  const { left, top, right, bottom } = PLOT;
+  const policy = getConfidencePolicy();
+
+  const times = records.map((record) => record.timestamp);
+  const start = Math.min(...times);
+  const span = Math.max(...times) - start;
+  // A single record (or all at one time) sits in the middle
+  const xOf = (timestamp: number) =>
+    span > 0 ? left + ((timestamp - start) / span) * (right - left) : (left + right) / 2;
+  const yOf = (confidence: number) => bottom - confidence * (bottom - top);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label="Confidence over time">
+      <rect x={left} y={top} width={right - left} height={bottom - top} fill="#f9fafb" stroke="#e5e7eb" />
+      {[
+        { label: 'Excellent', value: policy.excellent },
+        { label: 'OK', value: policy.ok },
+      ].map(({ label, value }) => (
+        <g key={label}>
+          <line x1={left} y1={yOf(value)} x2={right} y2={yOf(value)} stroke="#d1d5db" strokeDasharray="3 3" />
+          <text x={left - 4} y={yOf(value) + 3} textAnchor="end" fontSize="8" fill="#6b7280">
+            {Math.round(value * 100)}
+          </text>
+        </g>
+      ))}
+      <text x={left} y={HEIGHT - 4} fontSize="8" fill="#6b7280">
+        {records.length > 0 && new Date(start).toLocaleString()}
+      </text>
+
+      {records.length > 1 && (
+        <polyline
+          points={records.map((record) => `${xOf(record.timestamp)},${yOf(record.confidence)}`).join(' ')}
+          fill="none"
+          stroke="#9ca3af"
+          strokeWidth="1"
+        />
+      )}
+      {records.map((record, i) => (
+        <circle
+          key={`${record.timestamp}-${i}`}
+          cx={xOf(record.timestamp)}
+          cy={yOf(record.confidence)}
+          r={record === selected ? 5 : 3}
+          fill={CATEGORY_COLORS[record.category]}
+          stroke={record === selected ? '#111827' : 'none'}
+          onClick={onSelect && (() => onSelect(record))}
+          className={onSelect ? 'cursor-pointer' : undefined}
+        />
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CameraOverlay } from './CameraOverlay';
+import type { DetectionQuad, FrozenFrame, StabilityState } from '@/providers/types';
+
+interface CornerReviewProps {
+  frame: FrozenFrame;
+  corners: DetectionQuad;
+  onCornersChange: (corners: DetectionQuad) => void;
+}
+
+interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Loupe diameter (pixels) and magnification over the displayed frame
+const LOUPE_SIZE = 112;
+const LOUPE_ZOOM = 3;
+// Gap between the loupe and the corner it magnifies (pixels)
+const LOUPE_OFFSET = 48;
+
+// The frozen frame is by definition still
+const FROZEN_STABILITY: StabilityState = { isStable: true, jitter: 0, frameCount: 0 };
+
+function imageSize(image: HTMLCanvasElement | HTMLImageElement) {
+  return image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+}
+
+/**
+ * Largest rectangle with the image's proportions that fits the container,
+ * so normalized corners map onto the displayed frame exactly
+ */
+function fitFrame(container: { width: number; height: number }, image: FrozenFrame['image']): Rect {
+  if (!image) return { left: 0, top: 0, ...container };
+
+  const size = imageSize(image);
+  const scale = Math.min(container.width / size.width, container.height / size.height);
+  const width = size.width * scale;
+  const height = size.height * scale;
+  return {
+    left: (container.width - width) / 2,
+    top: (container.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+/**
+ * Frozen frame with draggable corner handles and a magnifier loupe over
+ * the corner being dragged
+ */
+export function CornerReview({ frame, corners, onCornersChange }: CornerReviewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const loupeRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [activeCorner, setActiveCorner] = useState<number | null>(null);
+
+  const { image } = frame;
+  const rect = fitFrame(size, image);
+
+  // Track container size so the frame and handles stay aligned
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const updateSize = () => {
+      setSize({ width: container.clientWidth, height: container.clientHeight });
+    };
+
+    updateSize();
+    window.addEventListener('resize', updateSize);
+    return () => window.removeEventListener('resize', updateSize);
+  }, []);
+
+  // Show the frozen image under the handles
+  useEffect(() => {
+    const holder = frameRef.current;
+    if (!holder || !image) return;
+
+    image.className = 'absolute inset-0 w-full h-full';
+    holder.prepend(image);
+
+    return () => {
+      image.remove();
+    };
+  }, [image]);
+
+  // Redraw the loupe as the active corner moves
+  useEffect(() => {
+    const loupe = loupeRef.current;
+    const context = loupe?.getContext('2d');
+    if (!context || !image || activeCorner === null || rect.width === 0) return;
+
+    const corner = corners[activeCorner];
+    const source = imageSize(image);
+    // Source pixels under the loupe
+    const region = (LOUPE_SIZE / LOUPE_ZOOM) * (source.width / rect.width);
+
+    context.fillStyle = '#000000';
+    context.fillRect(0, 0, LOUPE_SIZE, LOUPE_SIZE);
+    context.imageSmoothingEnabled = false;
+    context.drawImage(
+      image,
+      corner.x * source.width - region / 2,
+      corner.y * source.height - region / 2,
+      region,
+      region,
+      0,
+      0,
+      LOUPE_SIZE,
+      LOUPE_SIZE
+    );
+
+    // Adjacent edges, so the corner can be lined up with the frame
+    const toLoupe = (c: { x: number; y: number }) => ({
+      x: LOUPE_SIZE / 2 + (c.x - corner.x) * rect.width * LOUPE_ZOOM,
+      y: LOUPE_SIZE / 2 + (c.y - corner.y) * rect.height * LOUPE_ZOOM,
+    });
+    const prev = toLoupe(corners[(activeCorner + 3) % 4]);
+    const next = toLoupe(corners[(activeCorner + 1) % 4]);
+    context.strokeStyle = '#22c55e';
+    context.lineWidth = 2;
+    context.beginPath();
+    context.moveTo(prev.x, prev.y);
+    context.lineTo(LOUPE_SIZE / 2, LOUPE_SIZE / 2);
+    context.lineTo(next.x, next.y);
+    context.stroke();
+  }, [image, activeCorner, corners, rect.width, rect.height]);
+
+  let loupePosition: { left: number; top: number } | null = null;
+  if (image && activeCorner !== null) {
+    const corner = corners[activeCorner];
+    const cx = rect.left + corner.x * rect.width;
+    const cy = rect.top + corner.y * rect.height;
+    // Above the finger, or below it near the top edge
+    const above = cy - LOUPE_OFFSET - LOUPE_SIZE;
+    loupePosition = {
+      left: Math.min(Math.max(0, cx - LOUPE_SIZE / 2), size.width - LOUPE_SIZE),
+      top: above >= 0 ? above : cy + LOUPE_OFFSET,
+    };
+  }
+
+  return (
+    <div ref={containerRef} className="relative flex-1 bg-gray-800 overflow-hidden">
+      <div
+        ref={frameRef}
+        className="absolute"
+        style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+      >
+        {rect.width > 0 && (
+          <CameraOverlay
+            detection={{ ...frame.detection, corners }}
+            stability={FROZEN_STABILITY}
+            suggestCapture
+            containerWidth={rect.width}
+            containerHeight={rect.height}
+            showGrid={false}
+            onCornersChange={onCornersChange}
+            onActiveCornerChange={setActiveCorner}
+          />
+        )}
+      </div>
+
+      {loupePosition && (
+        <div
+          className="absolute rounded-full overflow-hidden border-2 border-white shadow-lg pointer-events-none"
+          style={{ ...loupePosition, width: LOUPE_SIZE, height: LOUPE_SIZE }}
+        >
+          <canvas ref={loupeRef} width={LOUPE_SIZE} height={LOUPE_SIZE} />
+          <div className="absolute left-1/2 top-0 bottom-0 w-px bg-white/70" />
+          <div className="absolute top-1/2 left-0 right-0 h-px bg-white/70" />
+        </div>
+      )}
+
+      <div className="absolute top-4 left-0 right-0 flex justify-center pointer-events-none">
+        <div className="bg-black/70 text-white px-4 py-2 rounded-lg text-sm">
+          Drag the corners onto the window frame
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { ConfidenceCategory, ProviderType } from '@/providers/types';
+import type { DebugRecord } from '@/utils/debugLog';
+import {
+  filterDebugRecords,
+  recordDetection,
+  recordType,
+  type DebugLogFilter,
+  type DebugRecordType,
+} from '@/utils/debugImport';
+import { formatConfidence, formatDimensions, type DisplayFormat } from '@/utils/format';
+import { ConfidenceChart } from './ConfidenceChart';
+import { DetectionSchematic } from './DetectionSchematic';
+
+interface DebugLogViewerProps {
+  records: DebugRecord[];
+  format?: DisplayFormat;
+}
+
+const CATEGORIES: ConfidenceCategory[] = ['Excellent', 'OK', 'Not Great'];
+const RECORD_TYPES: DebugRecordType[] = ['pass', 'depth', 'verification'];
+
+interface ChipRowProps<T> {
+  label: string;
+  options: T[];
+  selected: T | undefined;
+  text: (option: T) => string;
+  // Tapping the selected chip clears the filter
+  onChange: (option: T | undefined) => void;
+}
+
+function ChipRow<T>({ label, options, selected, text, onChange }: ChipRowProps<T>) {
+  return (
+    <div className="flex items-center gap-2 mb-2 flex-wrap">
+      <span className="text-xs text-gray-500 w-16">{label}</span>
+      {options.map((option) => (
+        <button
+          key={String(option)}
+          type="button"
+          onClick={() => onChange(option === selected ? undefined : option)}
+          className={`px-3 py-1 rounded-full text-xs ${
+            option === selected ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'
+          }`}
+        >
+          {text(option)}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function providerName(providerType: ProviderType | null): string {
+  return providerType ?? 'typed in';
+}
+
+/**
+ * Debug records filtered by provider, confidence and type, with
+ * confidence charted over time and the selected record's detection
+ */
+export function DebugLogViewer({ records, format }: DebugLogViewerProps) {
+  const [filter, setFilter] = useState<DebugLogFilter>({});
+  const [selected, setSelected] = useState<DebugRecord | null>(null);
+
+  const providers = [...new Set(records.map((record) => record.providerType))];
+  const shown = filterDebugRecords(records, filter);
+  const detection = selected && recordDetection(selected);
+
+  const changeFilter = (update: DebugLogFilter) => {
+    setFilter({ ...filter, ...update });
+    setSelected(null);
+  };
+
+  return (
+    <div>
+      <ChipRow
+        label="Provider"
+        options={providers}
+        selected={filter.providerType}
+        text={providerName}
+        onChange={(providerType) => changeFilter({ providerType })}
+      />
+      <ChipRow
+        label="Rating"
+        options={CATEGORIES}
+        selected={filter.category}
+        text={(category) => category}
+        onChange={(category) => changeFilter({ category })}
+      />
+      <ChipRow
+        label="Type"
+        options={RECORD_TYPES}
+        selected={filter.recordType}
+        text={(type) => type}
+        onChange={(type) => changeFilter({ recordType: type })}
+      />
+
+      <p className="text-gray-600 text-sm my-3">
+        {shown.length} of {records.length} records
+      </p>
+
+      {shown.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg p-2 mb-4">
+          <ConfidenceChart records={shown} selected={selected} onSelect={setSelected} />
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-gray-100 rounded-lg p-4 mb-4">
+          <div className="flex justify-between items-start mb-2">
+            <span className="font-semibold text-gray-900">{new Date(selected.timestamp).toLocaleString()}</span>
+            <button type="button" onClick={() => setSelected(null)} className="text-gray-500 text-sm">
+              Close
+            </button>
+          </div>
+          <p className="text-sm text-gray-700">
+            {recordType(selected)} • {providerName(selected.providerType)} • {selected.category} (
+            {formatConfidence(selected.confidence)})
+          </p>
+          <p className="font-mono text-sm text-gray-900 mb-3">
+            {formatDimensions(selected.rawWidthInches, selected.rawHeightInches, format)}
+          </p>
+          {detection ? (
+            <DetectionSchematic detection={detection} />
+          ) : (
+            <p className="text-gray-500 text-xs">No detection was logged for this record</p>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {shown.map((record, i) => (
+          <button
+            key={`${record.timestamp}-${i}`}
+            type="button"
+            onClick={() => setSelected(record)}
+            className={`w-full text-left rounded-lg px-3 py-2 text-sm ${
+              record === selected ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50'
+            }`}
+          >
+            <span className="flex justify-between">
+              <span className="text-gray-900">
+                {recordType(record)} • {providerName(record.providerType)}
+              </span>
+              <span className="text-gray-500 text-xs">{new Date(record.timestamp).toLocaleTimeString()}</span>
+            </span>
+            <span className="flex justify-between text-xs text-gray-600">
+              <span className="font-mono">{formatDimensions(record.rawWidthInches, record.rawHeightInches, format)}</span>
+              <span>
+                {record.category} ({formatConfidence(record.confidence)})
+              </span>
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+import type { RecordDetection } from '@/utils/debugImport';
+
+interface DetectionSchematicProps {
+  detection: RecordDetection;
+}
+
+// Camera frame drawn at 4:3, coordinates are normalized to it
+const WIDTH = 240;
+const HEIGHT = 180;
+
+/**
+ * Camera frame with where the detector found the window: its bounding
+ * box, and the corners measured when they were logged
+ */
+export function DetectionSchematic({ detection }: DetectionSchematicProps) {
+  const { bounds, corners } = detection;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full max-w-xs mx-auto" role="img" aria-label="Detection">
+      <rect x={0} y={0} width={WIDTH} height={HEIGHT} fill="#111827" />
+      <rect
+        x={bounds.x * WIDTH}
+        y={bounds.y * HEIGHT}
+        width={bounds.width * WIDTH}
+        height={bounds.height * HEIGHT}
+        fill="none"
+        stroke="#9ca3af"
+        strokeDasharray="4 3"
+      />
+      {corners && (
+        <>
+          <polygon
+            points={corners.map((p) => `${p.x * WIDTH},${p.y * HEIGHT}`).join(' ')}
+            fill="rgba(37, 99, 235, 0.2)"
+            stroke="#3b82f6"
+            strokeWidth="2"
+          />
+          {corners.map((p, i) => (
+            <circle key={i} cx={p.x * WIDTH} cy={p.y * HEIGHT} r={3} fill="#3b82f6" />
+          ))}
+        </>
+      )}
+    </svg>
+  );
+}
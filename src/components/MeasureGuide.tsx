@@ -0,0 +1,120 @@
+'use client';
+
+import React from 'react';
+import type { MountType } from '@/utils/mount';
+
+export interface GuideReading {
+  axis: 'width' | 'height';
+  index: number;
+}
+
+interface MeasureGuideProps {
+  mountType: MountType;
+  // Reading being typed in, drawn in blue
+  highlight?: GuideReading | null;
+}
+
+// Drawing size, and the window opening within it
+const WIDTH = 200;
+const HEIGHT = 240;
+const FRAME = 16;
+const OPENING = { left: 40, top: 40, right: 160, bottom: 200 };
+
+// Where readings cross the opening: near one edge, the middle, the other edge
+const STATIONS = [0.15, 0.5, 0.85];
+
+const COLORS = { idle: '#9ca3af', active: '#2563eb' };
+
+interface Arrow {
+  key: string;
+  reading: GuideReading;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Where to hold the tape for each reading: three widths and heights inside
+ * the frame for inside mount, or the overall size for outside mount
+ */
+function arrows(mountType: MountType): Arrow[] {
+  const { left, top, right, bottom } = OPENING;
+
+  if (mountType === 'outside') {
+    // Outside mount covers the frame, so measure past it
+    const above = top - FRAME - 12;
+    const beside = right + FRAME + 12;
+    return [
+      { key: 'w', reading: { axis: 'width', index: 0 }, x1: left - FRAME, y1: above, x2: right + FRAME, y2: above },
+      { key: 'h', reading: { axis: 'height', index: 0 }, x1: beside, y1: top - FRAME, x2: beside, y2: bottom + FRAME },
+    ];
+  }
+
+  return [
+    ...STATIONS.map((t, index) => {
+      const y = top + (bottom - top) * t;
+      return { key: `w${index}`, reading: { axis: 'width' as const, index }, x1: left, y1: y, x2: right, y2: y };
+    }),
+    ...STATIONS.map((t, index) => {
+      const x = left + (right - left) * t;
+      return { key: `h${index}`, reading: { axis: 'height' as const, index }, x1: x, y1: top, x2: x, y2: bottom };
+    }),
+  ];
+}
+
+/**
+ * Window drawing showing where to hold the tape, with the reading being
+ * typed in highlighted
+ */
+export function MeasureGuide({ mountType, highlight = null }: MeasureGuideProps) {
+  const { left, top, right, bottom } = OPENING;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-40 h-48 mx-auto" aria-hidden="true">
+      <defs>
+        {Object.entries(COLORS).map(([state, color]) => (
+          <marker
+            key={state}
+            id={`guide-arrow-${state}`}
+            viewBox="0 0 6 6"
+            refX="3"
+            refY="3"
+            markerWidth="5"
+            markerHeight="5"
+            orient="auto-start-reverse"
+          >
+            <path d="M0,0 L6,3 L0,6 z" fill={color} />
+          </marker>
+        ))}
+      </defs>
+
+      <rect
+        x={left - FRAME}
+        y={top - FRAME}
+        width={right - left + 2 * FRAME}
+        height={bottom - top + 2 * FRAME}
+        fill="#e5e7eb"
+        stroke={COLORS.idle}
+      />
+      <rect x={left} y={top} width={right - left} height={bottom - top} fill="#eff6ff" stroke={COLORS.idle} />
+
+      {arrows(mountType).map(({ key, reading, x1, y1, x2, y2 }) => {
+        const state = highlight?.axis === reading.axis && highlight.index === reading.index ? 'active' : 'idle';
+        return (
+          <line
+            key={key}
+            x1={x1}
+            y1={y1}
+            x2={x2}
+            y2={y2}
+            stroke={COLORS[state]}
+            strokeWidth={state === 'active' ? 3 : 1.5}
+            markerStart={`url(#guide-arrow-${state})`}
+            markerEnd={`url(#guide-arrow-${state})`}
+          />
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import React from 'react';
+import type { MountRules } from '@/utils/mount';
+import { inchesToUnit, unitToInches, type LengthUnit } from '@/utils/format';
+
+interface MountRulesFormProps {
+  value: MountRules;
+  onChange: (rules: MountRules) => void;
+  // Unit the fields are shown and typed in; rules are stored in inches
+  unit?: LengthUnit;
+}
+
+const FIELDS: { key: keyof MountRules; label: string }[] = [
+  { key: 'insideDeduction', label: 'Inside mount deduction' },
+  { key: 'outsideSideOverlap', label: 'Outside mount overlap, each side' },
+  { key: 'outsideTopOverlap', label: 'Outside mount overlap, top' },
+  { key: 'outOfSquareTolerance', label: 'Out-of-square tolerance' },
+];
+
+// Field step per unit: 1/16" or 1 mm
+const STEPS: Record<LengthUnit, number> = { in: 0.0625, cm: 0.1, mm: 1 };
+
+// Keep converted defaults free of floating point noise
+function displayValue(inches: number, unit: LengthUnit): number {
+  return Number(inchesToUnit(inches, unit).toFixed(unit === 'in' ? 4 : 1));
+}
+
+/**
+ * Length fields for the deductions and overlaps applied to the order size,
+ * and the out-of-square tolerance for inside mount
+ */
+export function MountRulesForm({ value, onChange, unit = 'in' }: MountRulesFormProps) {
+  return (
+    <div className="space-y-2">
+      {FIELDS.map(({ key, label }) => (
+        // Keyed by unit so the fields re-read their values when it changes
+        <label key={`${key}-${unit}`} className="flex items-center justify-between gap-4 text-sm text-gray-700">
+          {label}
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0}
+              step={STEPS[unit]}
+              defaultValue={displayValue(value[key], unit)}
+              onChange={(event) => {
+                const length = event.target.valueAsNumber;
+                // Leave the stored rule alone while the field is half typed
+                if (Number.isFinite(length) && length >= 0) {
+                  onChange({ ...value, [key]: unitToInches(length, unit) });
+                }
+              }}
+              className="w-20 border border-gray-300 rounded px-2 py-1 text-right font-mono"
+            />
+            {unit}
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
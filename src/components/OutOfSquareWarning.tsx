@@ -0,0 +1,31 @@
+'use client';
+
+import React from 'react';
+import { formatInchesFraction, type DisplayFormat } from '@/utils/format';
+import { exceedsSquareTolerance, type MountRules } from '@/utils/mount';
+
+interface OutOfSquareWarningProps {
+  outOfSquareInches: number | null;
+  rules: MountRules;
+  format?: DisplayFormat;
+}
+
+/**
+ * Warns that an inside mount opening is too far out of square and
+ * recommends outside mount; renders nothing within tolerance
+ */
+export function OutOfSquareWarning({ outOfSquareInches, rules, format }: OutOfSquareWarningProps) {
+  if (outOfSquareInches === null || !exceedsSquareTolerance(outOfSquareInches, rules)) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+      <p className="text-amber-800 text-sm font-semibold">
+        Window is {formatInchesFraction(outOfSquareInches, format)} out of square
+      </p>
+      <p className="text-amber-800 text-sm mt-1">
+        The diagonals differ by more than {formatInchesFraction(rules.outOfSquareTolerance, format)}, so an
+        inside mount shade may hang crooked or leave uneven gaps. Outside mount is recommended.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import React from 'react';
+import { REFERENCE_OBJECTS } from '@/detection/referenceObjects';
+import type { ReferenceObjectId } from '@/providers/types';
+
+interface ReferencePickerProps {
+  value: ReferenceObjectId | null;
+  onChange: (reference: ReferenceObjectId | null) => void;
+}
+
+/**
+ * Row of chips for choosing the scale reference held against the frame
+ */
+export function ReferencePicker({ value, onChange }: ReferencePickerProps) {
+  const options: { id: ReferenceObjectId | null; label: string }[] = [
+    { id: null, label: 'None' },
+    ...Object.values(REFERENCE_OBJECTS).map((spec) => ({ id: spec.id, label: spec.label })),
+  ];
+
+  return (
+    <div>
+      <div className="flex gap-2 overflow-x-auto">
+        {options.map((option) => (
+          <button
+            key={option.id ?? 'none'}
+            type="button"
+            onClick={() => onChange(option.id)}
+            className={`px-3 py-1 rounded-full text-xs whitespace-nowrap ${
+              value === option.id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-gray-400 text-xs mt-2">
+        {value ? REFERENCE_OBJECTS[value].instructions : 'No scale reference - sizes are rough estimates'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { formatInchesFraction, type DisplayFormat } from '@/utils/format';
+import { HEIGHT_POINT_LABELS, WIDTH_POINT_LABELS, smallestPoint } from '@/utils/mount';
+import type { MeasurementPoints } from '@/providers/types';
+
+interface ThreePointReadingsProps {
+  points: MeasurementPoints;
+  format?: DisplayFormat;
+}
+
+/**
+ * Inside-mount widths and heights side by side, with the smallest of each
+ * (the one the shade is built to) highlighted
+ */
+export function ThreePointReadings({ points, format }: ThreePointReadingsProps) {
+  const columns = [
+    { title: 'Widths', labels: WIDTH_POINT_LABELS, values: points.widths },
+    { title: 'Heights', labels: HEIGHT_POINT_LABELS, values: points.heights },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-4 text-sm">
+      {columns.map(({ title, labels, values }) => {
+        const smallest = smallestPoint(values);
+        return (
+          <div key={title}>
+            <p className="text-gray-500 mb-1">{title}</p>
+            {values.map((value, i) => (
+              <p
+                key={labels[i]}
+                className={`flex justify-between font-mono ${
+                  i === smallest ? 'text-gray-900 font-semibold' : 'text-gray-500'
+                }`}
+              >
+                <span className="font-sans">{labels[i]}</span>
+                {formatInchesFraction(value, format)}
+              </p>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
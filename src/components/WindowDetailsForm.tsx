@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import type { WindowDetails } from '@/utils/project';
+
+interface WindowDetailsFormProps {
+  value: WindowDetails;
+  onChange: (details: WindowDetails) => void;
+  // Rooms already in the project, offered as shortcuts
+  roomNames: string[];
+  // Shown when the label is left empty
+  labelPlaceholder?: string;
+}
+
+const INPUT_CLASS = 'block w-full border border-gray-300 rounded-lg px-3 py-2 mt-1';
+
+/**
+ * Label, room and notes for a window saved to the project
+ */
+export function WindowDetailsForm({ value, onChange, roomNames, labelPlaceholder }: WindowDetailsFormProps) {
+  return (
+    <div className="space-y-4">
+      <label className="block text-sm text-gray-700">
+        Label
+        <input
+          type="text"
+          placeholder={labelPlaceholder}
+          value={value.label}
+          onChange={(event) => onChange({ ...value, label: event.target.value })}
+          className={INPUT_CLASS}
+        />
+      </label>
+      <div>
+        <label className="block text-sm text-gray-700">
+          Room
+          <input
+            type="text"
+            placeholder="e.g. Kitchen"
+            value={value.roomName}
+            onChange={(event) => onChange({ ...value, roomName: event.target.value })}
+            className={INPUT_CLASS}
+          />
+        </label>
+        {roomNames.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {roomNames.map((name) => (
+              <button
+                key={name}
+                type="button"
+                onClick={() => onChange({ ...value, roomName: name })}
+                className={`px-3 py-1 rounded-full text-xs ${
+                  name === value.roomName ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                {name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <label className="block text-sm text-gray-700">
+        Notes
+        <textarea
+          rows={2}
+          value={value.notes}
+          onChange={(event) => onChange({ ...value, notes: event.target.value })}
+          className={INPUT_CLASS}
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,469 @@
+/**
+ * Printable fiducial marker decoding
+ *
+ * The calibration sheet carries a square ArUco-style marker: a 6×6 grid
+ * of 1" cells whose outer ring is solid black and whose inner 4×4 cells
+ * encode an ID. Decoding the grid confirms that the square really is our
+ * marker (not a dark pane or a picture frame), tells us which way up it
+ * is, and — because its size is known exactly — gives both the plane
+ * scale and the plane's orientation relative to the camera.
+ */
+
+import {
+  findRectangles,
+  toGrayscale,
+  type FrameDetectorOptions,
+  type GrayImage,
+  type ImageDataLike,
+} from './frameDetector';
+import {
+  applyHomography,
+  computeHomography,
+  type Matrix3,
+  type QuadRectification,
+} from './homography';
+import { distance, type Point } from './geometry';
+
+// Printed edge length of the black square
+export const FIDUCIAL_MARKER_SIZE_INCHES = 6;
+// Cells per side, including the one-cell black border
+export const FIDUCIAL_MARKER_GRID = 6;
+// ID printed on the calibration sheet
+export const DEFAULT_FIDUCIAL_MARKER_ID = 0;
+
+// 4×4 payloads, row-major from the top-left cell, 1 = black. Every pair of
+// codes (in any rotation) and every code against its own rotations differ
+// in at least 6 cells, so single-cell misreads can be corrected safely
+export const FIDUCIAL_MARKER_CODES: readonly number[] = [0x167e, 0xf800, 0x1f00, 0xeb38];
+
+// Cell misreads tolerated when matching a code
+const MAX_BIT_ERRORS = 1;
+// Minimum grey-level difference between the black border and the paper
+const MIN_CONTRAST = 40;
+// Share of border cells that must read black
+const MIN_BORDER_FRACTION = 0.9;
+
+// The marker is small in frame and its interior produces many short
+// lines, so search for small rectangles among more lines
+export const MARKER_DETECTOR_OPTIONS: Partial<FrameDetectorOptions> = {
+  minLineFraction: 0.02,
+  minSizeFraction: 0.02,
+  minSideSupport: 0.6,
+  maxLinesPerDirection: 16,
+};
+
+export interface MarkerPose {
+  // Unit normal of the marker plane in camera coordinates (z = viewing axis)
+  normal: [number, number, number];
+  // Angle between the plane normal and the viewing axis
+  tiltDegrees: number;
+  // Turn of the plane about the vertical and horizontal axes
+  yawDegrees: number;
+  pitchDegrees: number;
+  // In-plane rotation of the marker's top edge
+  rollDegrees: number;
+  // Camera to marker center
+  distanceInches: number;
+}
+
+export interface FiducialMarkerMeasurement {
+  id: number;
+  // Image corners in pixels, ordered TL, TR, BR, BL as printed
+  corners: Point[];
+  // Quarter turns (clockwise) the printed marker appears rotated by
+  rotation: number;
+  // Payload cells that disagreed with the matched code
+  bitErrors: number;
+  // Paper minus border grey level (0-255)
+  contrast: number;
+  // Inches per pixel of the rectified window plane
+  pxToInch: number;
+  pose: MarkerPose;
+}
+
+/**
+ * Rotate a 4×4 payload a quarter turn clockwise
+ */
+export function rotateMarkerCode(code: number): number {
+  let rotated = 0;
+  for (let y = 0; y < 4; y++) {
+    for (let x = 0; x < 4; x++) {
+      if ((code >> (15 - (y * 4 + x))) & 1) {
+        rotated |= 1 << (15 - (x * 4 + (3 - y)));
+      }
+    }
+  }
+  return rotated;
+}
+
+function bitCount(value: number): number {
+  let count = 0;
+  for (let v = value; v; v >>>= 1) count += v & 1;
+  return count;
+}
+
+/**
+ * Match a payload read off the image against the dictionary
+ *
+ * Returns the marker ID, how many quarter turns clockwise the printed
+ * marker was rotated to produce `bits`, and the number of cell errors.
+ */
+export function matchMarkerCode(
+  bits: number
+): { id: number; rotation: number; bitErrors: number } | null {
+  let best: { id: number; rotation: number; bitErrors: number } | null = null;
+
+  FIDUCIAL_MARKER_CODES.forEach((code, id) => {
+    let rotated = code;
+    for (let rotation = 0; rotation < 4; rotation++) {
+      const bitErrors = bitCount(rotated ^ bits);
+      if (bitErrors <= MAX_BIT_ERRORS && (!best || bitErrors < best.bitErrors)) {
+        best = { id, rotation, bitErrors };
+      }
+      rotated = rotateMarkerCode(rotated);
+    }
+  });
+
+  return best;
+}
+
+type Vec3 = [number, number, number];
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.hypot(v[0], v[1], v[2]);
+  return [v[0] / length, v[1] / length, v[2] / length];
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+/**
+ * Map image pixels onto the marker's plane in inches, printed top-left
+ * corner at the origin
+ *
+ * Unlike the window rectification this doesn't assume the window is a
+ * rectangle, so points on the glass keep their true spacing even when the
+ * opening is out of square.
+ *
+ * @param corners - Image corners in pixels, ordered TL, TR, BR, BL as printed
+ */
+export function markerPlaneHomography(corners: readonly Point[]): Matrix3 | null {
+  const size = FIDUCIAL_MARKER_SIZE_INCHES;
+  return computeHomography(corners, [
+    { x: 0, y: 0 },
+    { x: size, y: 0 },
+    { x: size, y: size },
+    { x: 0, y: size },
+  ]);
+}
+
+/**
+ * Recover the marker plane's pose from its image corners
+ *
+ * Decomposes the plane→image homography with a pinhole camera whose
+ * principal point is the image center.
+ *
+ * @param corners - Image corners in pixels, ordered TL, TR, BR, BL as printed
+ */
+export function estimateMarkerPose(
+  corners: readonly Point[],
+  imageWidth: number,
+  imageHeight: number,
+  focalLengthPx: number
+): MarkerPose | null {
+  const size = FIDUCIAL_MARKER_SIZE_INCHES;
+  const cx = imageWidth / 2;
+  const cy = imageHeight / 2;
+
+  const h = computeHomography(
+    [
+      { x: 0, y: 0 },
+      { x: size, y: 0 },
+      { x: size, y: size },
+      { x: 0, y: size },
+    ],
+    corners.map((p) => ({ x: (p.x - cx) / focalLengthPx, y: (p.y - cy) / focalLengthPx }))
+  );
+  if (!h) return null;
+
+  // Columns of K⁻¹H are the plane axes and origin, up to a common scale
+  const col1: Vec3 = [h[0], h[3], h[6]];
+  const col2: Vec3 = [h[1], h[4], h[7]];
+  const col3: Vec3 = [h[2], h[5], h[8]];
+  let scale = 2 / (Math.hypot(...col1) + Math.hypot(...col2));
+  // The marker is in front of the camera
+  if (col3[2] < 0) scale = -scale;
+
+  const xAxis = normalize(col1);
+  const yAxis = normalize(col2);
+  const normal = normalize([
+    xAxis[1] * yAxis[2] - xAxis[2] * yAxis[1],
+    xAxis[2] * yAxis[0] - xAxis[0] * yAxis[2],
+    xAxis[0] * yAxis[1] - xAxis[1] * yAxis[0],
+  ]);
+  if (!normal.every(Number.isFinite)) return null;
+
+  const center = [0, 1, 2].map(
+    (i) => scale * (col3[i] + ((col1[i] + col2[i]) * size) / 2)
+  ) as Vec3;
+
+  return {
+    normal,
+    tiltDegrees: toDegrees(Math.acos(Math.min(1, Math.abs(normal[2])))),
+    yawDegrees: toDegrees(Math.atan2(-normal[0], normal[2])),
+    pitchDegrees: toDegrees(Math.atan2(-normal[1], normal[2])),
+    rollDegrees: toDegrees(Math.atan2(xAxis[1], xAxis[0])),
+    distanceInches: Math.hypot(...center),
+  };
+}
+
+function sampleBilinear(gray: GrayImage, x: number, y: number): number | null {
+  const x0 = Math.floor(x - 0.5);
+  const y0 = Math.floor(y - 0.5);
+  if (x0 < 0 || y0 < 0 || x0 + 1 >= gray.width || y0 + 1 >= gray.height) return null;
+  const fx = x - 0.5 - x0;
+  const fy = y - 0.5 - y0;
+  const at = (px: number, py: number) => gray.data[py * gray.width + px];
+  return (
+    at(x0, y0) * (1 - fx) * (1 - fy) +
+    at(x0 + 1, y0) * fx * (1 - fy) +
+    at(x0, y0 + 1) * (1 - fx) * fy +
+    at(x0 + 1, y0 + 1) * fx * fy
+  );
+}
+
+/**
+ * Snap the square's outline to sub-pixel edge positions
+ *
+ * Hough lines are quantized to whole pixels and half degrees, which is
+ * plenty for finding the square but too coarse for recovering its pose
+ * from a marker only a few dozen pixels across. Each side is re-fitted
+ * through the strongest gradient found across it at evenly spaced points.
+ */
+function refineCorners(gray: GrayImage, corners: readonly Point[]): Point[] {
+  const samplesPerSide = 16;
+  const searchRadius = 3;
+  const step = 0.25;
+
+  // Each side as a point on the line and a unit direction
+  const lines = corners.map((from, i) => {
+    const to = corners[(i + 1) % 4];
+    const length = distance(from, to);
+    const dir = { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+    const normal = { x: -dir.y, y: dir.x };
+
+    const points: Point[] = [];
+    for (let k = 0; k < samplesPerSide; k++) {
+      // Stay clear of the corners, where the neighbouring side interferes
+      const t = 0.15 + (0.7 * k) / (samplesPerSide - 1);
+      const base = { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+
+      const profile: number[] = [];
+      for (let o = -searchRadius; o <= searchRadius + 1e-9; o += step) {
+        const value = sampleBilinear(gray, base.x + normal.x * o, base.y + normal.y * o);
+        if (value === null) break;
+        profile.push(value);
+      }
+      if (profile.length < 3) continue;
+
+      const gradients = profile.slice(1).map((v, j) => Math.abs(v - profile[j]));
+      let peak = 0;
+      gradients.forEach((g, j) => {
+        if (g > gradients[peak]) peak = j;
+      });
+      if (gradients[peak] <= 0) continue;
+
+      // Centroid of the gradient around the peak; edges a pixel or so wide
+      // have a flat-topped gradient, so a parabola would be biased
+      let weight = 0;
+      let weightedIndex = 0;
+      for (let j = Math.max(0, peak - 6); j <= Math.min(gradients.length - 1, peak + 6); j++) {
+        weight += gradients[j];
+        weightedIndex += gradients[j] * j;
+      }
+      const offset = -searchRadius + (weightedIndex / weight + 0.5) * step;
+
+      points.push({ x: base.x + normal.x * offset, y: base.y + normal.y * offset });
+    }
+
+    if (points.length < samplesPerSide / 2) return { point: from, dir };
+
+    // Total least squares fit through the edge points
+    const mx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const my = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    let sxx = 0;
+    let sxy = 0;
+    let syy = 0;
+    for (const p of points) {
+      sxx += (p.x - mx) * (p.x - mx);
+      sxy += (p.x - mx) * (p.y - my);
+      syy += (p.y - my) * (p.y - my);
+    }
+    const angle = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+    return { point: { x: mx, y: my }, dir: { x: Math.cos(angle), y: Math.sin(angle) } };
+  });
+
+  // Corner i is where side i-1 (ending at it) meets side i (starting at it)
+  return corners.map((corner, i) => {
+    const a = lines[(i + 3) % 4];
+    const b = lines[i];
+    const cross = a.dir.x * b.dir.y - a.dir.y * b.dir.x;
+    if (Math.abs(cross) < 1e-6) return corner;
+    const t = ((b.point.x - a.point.x) * b.dir.y - (b.point.y - a.point.y) * b.dir.x) / cross;
+    const refined = { x: a.point.x + a.dir.x * t, y: a.point.y + a.dir.y * t };
+    // Refinement should nudge corners, not move them
+    return distance(refined, corner) > 2 * searchRadius ? corner : refined;
+  });
+}
+
+/**
+ * Read the cell grid inside a candidate square
+ *
+ * Returns the payload bits (as seen, before undoing rotation) and the
+ * contrast between the border and the surrounding paper, or null when the
+ * candidate does not have a solid black border on a light background.
+ */
+function readGrid(
+  gray: GrayImage,
+  corners: readonly Point[]
+): { bits: number; contrast: number } | null {
+  const grid = FIDUCIAL_MARKER_GRID;
+  const gridToImage = computeHomography(
+    [
+      { x: 0, y: 0 },
+      { x: grid, y: 0 },
+      { x: grid, y: grid },
+      { x: 0, y: grid },
+    ],
+    corners
+  );
+  if (!gridToImage) return null;
+
+  const sample = (gx: number, gy: number): number | null => {
+    const p = applyHomography(gridToImage, { x: gx, y: gy });
+    const x = Math.floor(p.x);
+    const y = Math.floor(p.y);
+    if (x < 0 || y < 0 || x >= gray.width || y >= gray.height) return null;
+    return gray.data[y * gray.width + x];
+  };
+
+  // Average the middle of a cell so blur at its edges doesn't matter
+  const cellValue = (cx: number, cy: number): number | null => {
+    let sum = 0;
+    for (const oy of [0.3, 0.5, 0.7]) {
+      for (const ox of [0.3, 0.5, 0.7]) {
+        const value = sample(cx + ox, cy + oy);
+        if (value === null) return null;
+        sum += value;
+      }
+    }
+    return sum / 9;
+  };
+
+  const cells: number[][] = [];
+  for (let cy = 0; cy < grid; cy++) {
+    const row: number[] = [];
+    for (let cx = 0; cx < grid; cx++) {
+      const value = cellValue(cx, cy);
+      if (value === null) return null;
+      row.push(value);
+    }
+    cells.push(row);
+  }
+
+  // Paper just outside the border sets the "white" level
+  const paper: number[] = [];
+  for (let i = 0; i < grid; i++) {
+    for (const [gx, gy] of [
+      [i + 0.5, -0.35],
+      [i + 0.5, grid + 0.35],
+      [-0.35, i + 0.5],
+      [grid + 0.35, i + 0.5],
+    ]) {
+      const value = sample(gx, gy);
+      if (value !== null) paper.push(value);
+    }
+  }
+  if (paper.length < grid * 2) return null;
+
+  const border: number[] = [];
+  for (let i = 0; i < grid; i++) {
+    border.push(cells[0][i], cells[grid - 1][i]);
+    if (i > 0 && i < grid - 1) border.push(cells[i][0], cells[i][grid - 1]);
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const paperLevel = mean(paper);
+  const borderLevel = mean(border);
+  const contrast = paperLevel - borderLevel;
+  if (contrast < MIN_CONTRAST) return null;
+
+  const threshold = (paperLevel + borderLevel) / 2;
+  const darkBorder = border.filter((v) => v < threshold).length;
+  if (darkBorder < MIN_BORDER_FRACTION * border.length) return null;
+
+  let bits = 0;
+  for (let y = 0; y < 4; y++) {
+    for (let x = 0; x < 4; x++) {
+      bits = (bits << 1) | (cells[y + 1][x + 1] < threshold ? 1 : 0);
+    }
+  }
+
+  return { bits, contrast };
+}
+
+/**
+ * Find and decode the fiducial marker, and derive plane scale and pose
+ *
+ * @param image - RGBA frame
+ * @param rectification - Window rectification in the same pixel space as `image`
+ * @param expectedId - Only accept this marker ID (null = any known ID)
+ */
+export function detectFiducialMarker(
+  image: ImageDataLike,
+  rectification: QuadRectification,
+  expectedId: number | null = DEFAULT_FIDUCIAL_MARKER_ID
+): FiducialMarkerMeasurement | null {
+  const gray = toGrayscale(image);
+
+  let best: FiducialMarkerMeasurement | null = null;
+  let bestScore = 0;
+
+  for (const candidate of findRectangles(image, MARKER_DETECTOR_OPTIONS)) {
+    const grid = readGrid(gray, candidate.corners);
+    if (!grid) continue;
+
+    const match = matchMarkerCode(grid.bits);
+    if (!match) continue;
+    if (expectedId !== null && match.id !== expectedId) continue;
+
+    // Put the printed top-left corner first
+    const { rotation } = match;
+    const refined = refineCorners(gray, candidate.corners);
+    const corners = [0, 1, 2, 3].map((i) => refined[(i + rotation) % 4]);
+
+    const [tl, tr, br, bl] = corners.map((p) => applyHomography(rectification.imageToPlane, p));
+    const planeSide = (distance(tl, tr) + distance(tr, br) + distance(br, bl) + distance(bl, tl)) / 4;
+
+    const pose = estimateMarkerPose(corners, image.width, image.height, rectification.focalLengthPx);
+    if (!pose) continue;
+
+    // Prefer exact reads, then the crispest outline
+    const score = candidate.support * candidate.minSupport * (1 - 0.25 * match.bitErrors);
+    if (!best || score > bestScore) {
+      bestScore = score;
+      best = {
+        id: match.id,
+        corners,
+        rotation,
+        bitErrors: match.bitErrors,
+        contrast: grid.contrast,
+        pxToInch: FIDUCIAL_MARKER_SIZE_INCHES / planeSide,
+        pose,
+      };
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,459 @@
+/**
+ * Window frame detector
+ *
+ * CPU-only detector that finds the most window-like rectangle in a still
+ * frame. Works on plain pixel buffers so it runs the same in the browser
+ * (fed from a canvas) and in jest (fed from synthetic fixtures).
+ *
+ * Pipeline:
+ * 1. Grayscale + 3x3 box blur
+ * 2. Sobel gradients, split into thinned vertical-edge and horizontal-edge maps
+ * 3. Hough-style line voting in two narrow angle bands (near-vertical and
+ *    near-horizontal lines)
+ * 4. Every pair of vertical lines × pair of horizontal lines forms a
+ *    candidate quad; each side is scored by how much of it lies on an edge
+ * 5. The best-supported, largest candidate wins; its edge support becomes
+ *    the detection confidence, and the support of the side portions next
+ *    to each corner becomes that corner's confidence
+ */
+
+import type { DetectionResult, DetectionQuad } from '@/providers/types';
+import { boundsFromCorners, type Point } from './geometry';
+
+// RGBA pixel buffer, compatible with the DOM ImageData
+export interface ImageDataLike {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+export interface FrameDetectorOptions {
+  // Maximum tilt from vertical/horizontal considered a frame edge (degrees)
+  maxTiltDegrees: number;
+  // Minimum Sobel magnitude for a pixel to count as an edge
+  minEdgeMagnitude: number;
+  // Minimum line length to keep a Hough peak, as a fraction of the image side
+  minLineFraction: number;
+  // Minimum rectangle side, as a fraction of the image side
+  minSizeFraction: number;
+  // Every side of a candidate must have at least this much edge support
+  minSideSupport: number;
+  // Maximum Hough peaks kept per direction
+  maxLinesPerDirection: number;
+}
+
+export const DEFAULT_FRAME_DETECTOR_OPTIONS: FrameDetectorOptions = {
+  maxTiltDegrees: 15,
+  minEdgeMagnitude: 80,
+  minLineFraction: 0.15,
+  minSizeFraction: 0.15,
+  minSideSupport: 0.5,
+  maxLinesPerDirection: 10,
+};
+
+interface EdgeMaps {
+  width: number;
+  height: number;
+  // Edges of near-vertical lines (gradient mostly horizontal)
+  vertical: Uint8Array;
+  // Edges of near-horizontal lines (gradient mostly vertical)
+  horizontal: Uint8Array;
+}
+
+// Line in Hough normal form: x·cos(theta) + y·sin(theta) = rho
+interface HoughLine {
+  theta: number;
+  rho: number;
+  votes: number;
+}
+
+/**
+ * Convert an RGBA buffer to grayscale luminance
+ */
+export function toGrayscale(image: ImageDataLike): GrayImage {
+  const { width, height, data } = image;
+  const gray = new Float32Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    gray[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+
+  return { width, height, data: gray };
+}
+
+/**
+ * 3x3 box blur to suppress sensor noise before taking gradients
+ */
+function boxBlur(image: GrayImage): GrayImage {
+  const { width, height, data } = image;
+  const out = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = y + dy;
+        if (yy < 0 || yy >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = x + dx;
+          if (xx < 0 || xx >= width) continue;
+          sum += data[yy * width + xx];
+          count++;
+        }
+      }
+      out[y * width + x] = sum / count;
+    }
+  }
+
+  return { width, height, data: out };
+}
+
+/**
+ * Sobel gradients split into vertical- and horizontal-edge maps, thinned to
+ * one pixel with non-maximum suppression across the edge
+ */
+function computeEdgeMaps(image: GrayImage, minMagnitude: number): EdgeMaps {
+  const { width, height, data } = image;
+  const magnitude = new Float32Array(width * height);
+  const isVertical = new Uint8Array(width * height);
+  const vertical = new Uint8Array(width * height);
+  const horizontal = new Uint8Array(width * height);
+  const at = (x: number, y: number) => data[y * width + x];
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const gx =
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy =
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+
+      magnitude[y * width + x] = Math.sqrt(gx * gx + gy * gy);
+      isVertical[y * width + x] = Math.abs(gx) >= Math.abs(gy) ? 1 : 0;
+    }
+  }
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const m = magnitude[i];
+      if (m < minMagnitude) continue;
+
+      // Compare against neighbours across the edge; ties go to the first pixel
+      if (isVertical[i]) {
+        if (m > magnitude[i - 1] && m >= magnitude[i + 1]) vertical[i] = 1;
+      } else if (m > magnitude[i - width] && m >= magnitude[i + width]) {
+        horizontal[i] = 1;
+      }
+    }
+  }
+
+  return { width, height, vertical, horizontal };
+}
+
+/**
+ * Vote edge pixels into a Hough accumulator limited to a band of angles
+ * and return the strongest lines
+ *
+ * Once a line is accepted, the edge pixels lying on it withdraw their
+ * votes, so a strong edge cannot also produce slightly tilted duplicates.
+ */
+function houghLines(
+  edges: Uint8Array,
+  width: number,
+  height: number,
+  thetas: number[],
+  minVotes: number,
+  maxLines: number
+): HoughLine[] {
+  const diagonal = Math.ceil(Math.sqrt(width * width + height * height));
+  const rhoCount = diagonal * 2 + 1;
+  const accumulator = new Int32Array(thetas.length * rhoCount);
+  const cos = thetas.map(Math.cos);
+  const sin = thetas.map(Math.sin);
+
+  const points: number[] = [];
+  for (let i = 0; i < edges.length; i++) {
+    if (edges[i]) points.push(i);
+  }
+  const active = new Uint8Array(points.length).fill(1);
+
+  const vote = (index: number, delta: number) => {
+    const x = index % width;
+    const y = Math.floor(index / width);
+    for (let t = 0; t < thetas.length; t++) {
+      const rho = Math.round(x * cos[t] + y * sin[t]) + diagonal;
+      accumulator[t * rhoCount + rho] += delta;
+    }
+  };
+  points.forEach((index) => vote(index, 1));
+
+  const lines: HoughLine[] = [];
+  // Edge pixels within this distance of an accepted line belong to it
+  const claimDistance = 2;
+
+  while (lines.length < maxLines) {
+    let best = -1;
+    let bestVotes = 0;
+    for (let i = 0; i < accumulator.length; i++) {
+      if (accumulator[i] > bestVotes) {
+        bestVotes = accumulator[i];
+        best = i;
+      }
+    }
+    if (best < 0 || bestVotes < minVotes) break;
+
+    const t = Math.floor(best / rhoCount);
+    const rho = (best % rhoCount) - diagonal;
+    lines.push({ theta: thetas[t], rho, votes: bestVotes });
+
+    for (let p = 0; p < points.length; p++) {
+      if (!active[p]) continue;
+      const x = points[p] % width;
+      const y = Math.floor(points[p] / width);
+      if (Math.abs(x * cos[t] + y * sin[t] - rho) <= claimDistance) {
+        active[p] = 0;
+        vote(points[p], -1);
+      }
+    }
+  }
+
+  return lines;
+}
+
+function angleBand(centerDegrees: number, maxTiltDegrees: number): number[] {
+  const thetas: number[] = [];
+  const step = 0.5;
+  for (let d = -maxTiltDegrees; d <= maxTiltDegrees; d += step) {
+    thetas.push(((centerDegrees + d) * Math.PI) / 180);
+  }
+  return thetas;
+}
+
+function intersect(a: HoughLine, b: HoughLine): Point | null {
+  const det = Math.cos(a.theta) * Math.sin(b.theta) - Math.sin(a.theta) * Math.cos(b.theta);
+  if (Math.abs(det) < 1e-6) return null;
+  return {
+    x: (a.rho * Math.sin(b.theta) - b.rho * Math.sin(a.theta)) / det,
+    y: (b.rho * Math.cos(a.theta) - a.rho * Math.cos(b.theta)) / det,
+  };
+}
+
+/**
+ * Fraction of points along a segment that sit on (or next to) an edge pixel
+ */
+function segmentSupport(
+  from: Point,
+  to: Point,
+  edges: Uint8Array,
+  width: number,
+  height: number,
+  isVertical: boolean
+): number {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  const samples = Math.max(2, Math.round(length));
+  let hits = 0;
+
+  for (let i = 0; i < samples; i++) {
+    const t = (i + 0.5) / samples;
+    const x = Math.round(from.x + (to.x - from.x) * t);
+    const y = Math.round(from.y + (to.y - from.y) * t);
+
+    // Allow one pixel of slack perpendicular to the side
+    for (let offset = -1; offset <= 1; offset++) {
+      const px = isVertical ? x + offset : x;
+      const py = isVertical ? y : y + offset;
+      if (px < 0 || py < 0 || px >= width || py >= height) continue;
+      if (edges[py * width + px]) {
+        hits++;
+        break;
+      }
+    }
+  }
+
+  return hits / samples;
+}
+
+export interface RectangleCandidate {
+  // Image corners in pixels, ordered TL, TR, BR, BL
+  corners: Point[];
+  // Mean and minimum edge support over the four sides (0-1)
+  support: number;
+  minSupport: number;
+  // Edge support next to each corner (0-1), same order as corners
+  cornerSupport: number[];
+  // Bounding-box area as a fraction of the image
+  areaFraction: number;
+}
+
+/**
+ * Find every quad formed by two near-vertical and two near-horizontal lines
+ * whose four sides all have at least `minSideSupport` edge support
+ */
+export function findRectangles(
+  image: ImageDataLike,
+  options: Partial<FrameDetectorOptions> = {}
+): RectangleCandidate[] {
+  const opts = { ...DEFAULT_FRAME_DETECTOR_OPTIONS, ...options };
+  const { width, height } = image;
+  if (width < 8 || height < 8) return [];
+
+  const gray = boxBlur(toGrayscale(image));
+  const edges = computeEdgeMaps(gray, opts.minEdgeMagnitude);
+
+  const verticalLines = houghLines(
+    edges.vertical,
+    width,
+    height,
+    angleBand(0, opts.maxTiltDegrees),
+    opts.minLineFraction * height,
+    opts.maxLinesPerDirection
+  );
+  const horizontalLines = houghLines(
+    edges.horizontal,
+    width,
+    height,
+    angleBand(90, opts.maxTiltDegrees),
+    opts.minLineFraction * width,
+    opts.maxLinesPerDirection
+  );
+
+  if (verticalLines.length < 2 || horizontalLines.length < 2) return [];
+
+  // Order each family by position across the frame
+  const xAtMid = (l: HoughLine) => (l.rho - (height / 2) * Math.sin(l.theta)) / Math.cos(l.theta);
+  const yAtMid = (l: HoughLine) => (l.rho - (width / 2) * Math.cos(l.theta)) / Math.sin(l.theta);
+  verticalLines.sort((a, b) => xAtMid(a) - xAtMid(b));
+  horizontalLines.sort((a, b) => yAtMid(a) - yAtMid(b));
+
+  const margin = 2;
+  const inBounds = (p: Point) =>
+    p.x >= -margin && p.y >= -margin && p.x <= width - 1 + margin && p.y <= height - 1 + margin;
+
+  // Support of the quarter of each adjacent side nearest a corner
+  const toward = (from: Point, to: Point): Point => ({
+    x: from.x + (to.x - from.x) * 0.25,
+    y: from.y + (to.y - from.y) * 0.25,
+  });
+  const cornerSupport = (corner: Point, horizontalNeighbor: Point, verticalNeighbor: Point) =>
+    (segmentSupport(corner, toward(corner, horizontalNeighbor), edges.horizontal, width, height, false) +
+      segmentSupport(corner, toward(corner, verticalNeighbor), edges.vertical, width, height, true)) /
+    2;
+
+  const candidates: RectangleCandidate[] = [];
+
+  for (let l = 0; l < verticalLines.length; l++) {
+    for (let r = l + 1; r < verticalLines.length; r++) {
+      const left = verticalLines[l];
+      const right = verticalLines[r];
+      if (xAtMid(right) - xAtMid(left) < opts.minSizeFraction * width) continue;
+
+      for (let t = 0; t < horizontalLines.length; t++) {
+        for (let b = t + 1; b < horizontalLines.length; b++) {
+          const top = horizontalLines[t];
+          const bottom = horizontalLines[b];
+          if (yAtMid(bottom) - yAtMid(top) < opts.minSizeFraction * height) continue;
+
+          const tl = intersect(left, top);
+          const tr = intersect(right, top);
+          const br = intersect(right, bottom);
+          const bl = intersect(left, bottom);
+          if (!tl || !tr || !br || !bl) continue;
+          if (![tl, tr, br, bl].every(inBounds)) continue;
+
+          // Score sides one at a time; most candidates fail on the first
+          const sideSegments: [Point, Point, boolean][] = [
+            [tl, tr, false],
+            [tr, br, true],
+            [bl, br, false],
+            [tl, bl, true],
+          ];
+          const sides: number[] = [];
+          for (const [from, to, isVertical] of sideSegments) {
+            const edgeMap = isVertical ? edges.vertical : edges.horizontal;
+            const support = segmentSupport(from, to, edgeMap, width, height, isVertical);
+            if (support < opts.minSideSupport) break;
+            sides.push(support);
+          }
+          if (sides.length < 4) continue;
+          const minSupport = Math.min(...sides);
+
+          candidates.push({
+            corners: [tl, tr, br, bl],
+            support: sides.reduce((sum, s) => sum + s, 0) / sides.length,
+            minSupport,
+            cornerSupport: [
+              cornerSupport(tl, tr, bl),
+              cornerSupport(tr, tl, br),
+              cornerSupport(br, bl, tr),
+              cornerSupport(bl, br, tl),
+            ],
+            areaFraction:
+              ((Math.max(tr.x, br.x) - Math.min(tl.x, bl.x)) *
+                (Math.max(bl.y, br.y) - Math.min(tl.y, tr.y))) /
+              (width * height),
+          });
+        }
+      }
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Detect the most window-like rectangle in an RGBA frame
+ *
+ * Returns the normalized corner quad (0-1) and its bounding box, with
+ * confidence derived from edge support, or null when no candidate has
+ * enough support on all four sides.
+ */
+export function detectWindowFrame(
+  image: ImageDataLike,
+  options: Partial<FrameDetectorOptions> = {}
+): DetectionResult | null {
+  // Favor well-supported candidates, then larger ones (outer frame over
+  // individual panes)
+  const score = (c: RectangleCandidate) =>
+    c.support * c.minSupport * (0.5 + 0.5 * Math.sqrt(c.areaFraction));
+
+  let best: RectangleCandidate | null = null;
+  for (const candidate of findRectangles(image, options)) {
+    if (!best || score(candidate) > score(best)) best = candidate;
+  }
+
+  if (!best) return null;
+
+  const { width, height } = image;
+  const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+  const toCorner = (p: Point, confidence: number) => ({
+    x: clamp01(p.x / width),
+    y: clamp01(p.y / height),
+    confidence: clamp01(confidence),
+  });
+
+  const [tl, tr, br, bl] = best.corners;
+  const corners: DetectionQuad = [
+    toCorner(tl, best.cornerSupport[0]),
+    toCorner(tr, best.cornerSupport[1]),
+    toCorner(br, best.cornerSupport[2]),
+    toCorner(bl, best.cornerSupport[3]),
+  ];
+
+  return {
+    ...boundsFromCorners(corners),
+    confidence: clamp01((best.support + best.minSupport) / 2),
+    corners,
+  };
+}
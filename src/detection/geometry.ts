@@ -0,0 +1,75 @@
+/**
+ * Shared 2D geometry helpers for detections
+ */
+
+import type { DetectionCorner, DetectionQuad, DetectionResult } from '@/providers/types';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Axis-aligned bounding box of a set of points
+ */
+export function boundsFromCorners(corners: readonly Point[]): Bounds {
+  const xs = corners.map((p) => p.x);
+  const ys = corners.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+  };
+}
+
+/**
+ * Corners of an axis-aligned box, all sharing one confidence
+ */
+export function cornersFromBounds(bounds: Bounds, confidence: number): DetectionQuad {
+  const { x, y, width, height } = bounds;
+  return [
+    { x, y, confidence },
+    { x: x + width, y, confidence },
+    { x: x + width, y: y + height, confidence },
+    { x, y: y + height, confidence },
+  ];
+}
+
+/**
+ * Detection moved onto new corners, with its bounding box to match
+ */
+export function detectionWithCorners(detection: DetectionResult, corners: DetectionQuad): DetectionResult {
+  return { ...detection, ...boundsFromCorners(corners), corners };
+}
+
+/**
+ * Scale normalized corners to pixel coordinates
+ */
+export function cornersToPixels(
+  corners: readonly DetectionCorner[],
+  width: number,
+  height: number
+): Point[] {
+  return corners.map((c) => ({ x: c.x * width, y: c.y * height }));
+}
+
+/**
+ * Whether any corner moved further than `tolerance` between two quads
+ */
+export function cornersMoved(a: readonly Point[], b: readonly Point[], tolerance = 0.001): boolean {
+  return a.some((p, i) => distance(p, b[i]) > tolerance);
+}
+
+export function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
@@ -0,0 +1,175 @@
+/**
+ * Homography and perspective rectification
+ *
+ * A window is a planar rectangle, but the camera sees it as an arbitrary
+ * quad. Given the four image corners we recover the camera focal length
+ * and the rectangle's true width/height ratio (Zhang & He, "Whiteboard
+ * scanning and image enhancement"), then build a homography that maps
+ * image pixels onto a fronto-parallel view of the window plane.
+ */
+
+import { distance, type Point } from './geometry';
+
+// Row-major 3x3 matrix
+export type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+// Typical phone main camera horizontal field of view, used when the focal
+// length cannot be recovered from the quad (e.g. a square-on view)
+export const DEFAULT_HORIZONTAL_FOV_DEGREES = 65;
+
+export interface QuadRectification {
+  // True width / height of the rectangle on its plane
+  aspectRatio: number;
+  focalLengthPx: number;
+  // False when the default field of view had to be assumed
+  focalLengthEstimated: boolean;
+  // Rectified size in pixels: height is the mean of the quad's left and
+  // right sides, width follows from the aspect ratio
+  width: number;
+  height: number;
+  // Maps image pixels onto the rectified plane, window at (0,0)-(width,height)
+  imageToPlane: Matrix3;
+}
+
+/**
+ * Solve A·x = b with Gaussian elimination and partial pivoting
+ */
+function solveLinearSystem(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Homography mapping four source points onto four destination points
+ */
+export function computeHomography(src: readonly Point[], dst: readonly Point[]): Matrix3 | null {
+  if (src.length !== 4 || dst.length !== 4) return null;
+
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+
+  const h = solveLinearSystem(a, b);
+  if (!h) return null;
+  return [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1];
+}
+
+export function applyHomography(h: Matrix3, p: Point): Point {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+  };
+}
+
+type Vec3 = [number, number, number];
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+export function defaultFocalLength(imageWidth: number): number {
+  const halfFov = (DEFAULT_HORIZONTAL_FOV_DEGREES * Math.PI) / 360;
+  return imageWidth / 2 / Math.tan(halfFov);
+}
+
+/**
+ * Recover the true proportions of a rectangle seen in perspective
+ *
+ * @param corners - Image corners in pixels, ordered TL, TR, BR, BL
+ * @param imageWidth - Image width in pixels (principal point assumed central)
+ * @param imageHeight - Image height in pixels
+ */
+export function rectifyQuad(
+  corners: readonly Point[],
+  imageWidth: number,
+  imageHeight: number
+): QuadRectification | null {
+  if (corners.length !== 4) return null;
+
+  const [tl, tr, br, bl] = corners;
+  const cx = imageWidth / 2;
+  const cy = imageHeight / 2;
+  const toVec = (p: Point): Vec3 => [p.x - cx, p.y - cy, 1];
+
+  // Zhang & He use m1..m4 = (0,0), (w,0), (0,h), (w,h)
+  const m1 = toVec(tl);
+  const m2 = toVec(tr);
+  const m3 = toVec(bl);
+  const m4 = toVec(br);
+
+  const k2 = dot(cross(m1, m4), m3) / dot(cross(m2, m4), m3);
+  const k3 = dot(cross(m1, m4), m2) / dot(cross(m3, m4), m2);
+  if (!Number.isFinite(k2) || !Number.isFinite(k3)) return null;
+
+  const n2: Vec3 = [k2 * m2[0] - m1[0], k2 * m2[1] - m1[1], k2 * m2[2] - m1[2]];
+  const n3: Vec3 = [k3 * m3[0] - m1[0], k3 * m3[1] - m1[1], k3 * m3[2] - m1[2]];
+
+  // Focal length is only observable when the plane is tilted; fall back to
+  // a typical field of view when it is not (aspect barely depends on it then)
+  const f2 = -(n2[0] * n3[0] + n2[1] * n3[1]) / (n2[2] * n3[2]);
+  const fallback = defaultFocalLength(imageWidth);
+  const estimated =
+    Number.isFinite(f2) &&
+    f2 > 0 &&
+    Math.sqrt(f2) > 0.25 * imageWidth &&
+    Math.sqrt(f2) < 5 * imageWidth;
+  const focal = estimated ? Math.sqrt(f2) : fallback;
+
+  const planeNorm = (n: Vec3) => (n[0] * n[0] + n[1] * n[1]) / (focal * focal) + n[2] * n[2];
+  const aspectRatio = Math.sqrt(planeNorm(n2) / planeNorm(n3));
+  if (!Number.isFinite(aspectRatio) || aspectRatio <= 0) return null;
+
+  const height = (distance(tl, bl) + distance(tr, br)) / 2;
+  const width = height * aspectRatio;
+
+  const imageToPlane = computeHomography(corners, [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ]);
+  if (!imageToPlane) return null;
+
+  return {
+    aspectRatio,
+    focalLengthPx: focal,
+    focalLengthEstimated: estimated,
+    width,
+    height,
+    imageToPlane,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Reference-object scale calibration
+ *
+ * The user holds an object of known size flat against the window frame.
+ * We look for a small rectangle whose proportions, once mapped onto the
+ * rectified window plane, match one of the known objects, and turn its
+ * measured size into an inches-per-pixel scale for that plane.
+ */
+
+import type { ReferenceObjectId } from '@/providers/types';
+import { findRectangles, type FrameDetectorOptions, type ImageDataLike } from './frameDetector';
+import { applyHomography, type QuadRectification } from './homography';
+import { distance, type Point } from './geometry';
+import { FIDUCIAL_MARKER_SIZE_INCHES } from './fiducialMarker';
+
+export interface ReferenceObjectSpec {
+  id: ReferenceObjectId;
+  label: string;
+  // Long and short side in inches
+  longInches: number;
+  shortInches: number;
+  instructions: string;
+}
+
+export const REFERENCE_OBJECTS: Record<ReferenceObjectId, ReferenceObjectSpec> = {
+  'credit-card': {
+    id: 'credit-card',
+    label: 'Credit card',
+    // ISO/IEC 7810 ID-1
+    longInches: 3.370,
+    shortInches: 2.125,
+    instructions: 'Hold any bank or ID card flat against the window frame',
+  },
+  'us-letter': {
+    id: 'us-letter',
+    label: 'Letter paper',
+    longInches: 11,
+    shortInches: 8.5,
+    instructions: 'Tape a sheet of US letter paper flat on the glass',
+  },
+  'dollar-bill': {
+    id: 'dollar-bill',
+    label: 'Dollar bill',
+    longInches: 6.14,
+    shortInches: 2.61,
+    instructions: 'Hold a US banknote flat against the window frame',
+  },
+  'printed-marker': {
+    id: 'printed-marker',
+    label: 'Printed marker',
+    longInches: FIDUCIAL_MARKER_SIZE_INCHES,
+    shortInches: FIDUCIAL_MARKER_SIZE_INCHES,
+    instructions: 'Print the marker sheet at 100% scale and tape it flat on the glass',
+  },
+};
+
+// Printable sheet with the fiducial marker, served from public/
+export const CALIBRATION_MARKER_PATH = '/calibration-marker.svg';
+
+// Reference objects are much smaller than the window, so search for
+// shorter lines and smaller rectangles than the window detector does
+export const REFERENCE_DETECTOR_OPTIONS: Partial<FrameDetectorOptions> = {
+  minLineFraction: 0.02,
+  minSizeFraction: 0.02,
+  minSideSupport: 0.6,
+  maxLinesPerDirection: 16,
+};
+
+// Maximum relative difference between measured and known proportions
+const ASPECT_TOLERANCE = 0.08;
+// Opposite sides on the plane must agree this closely to be a rectangle
+const SIDE_MISMATCH_TOLERANCE = 0.15;
+// Anything bigger than this share of the window is a pane, not a reference
+const MAX_WINDOW_AREA_FRACTION = 0.15;
+
+export interface ReferenceMeasurement {
+  referenceId: ReferenceObjectId;
+  // Image corners in pixels, ordered TL, TR, BR, BL
+  corners: Point[];
+  // Inches per pixel of the rectified window plane
+  pxToInch: number;
+  // Relative difference between measured and known proportions
+  aspectError: number;
+  // Edge support of the reference outline (0-1)
+  support: number;
+}
+
+/**
+ * Find the reference object in a frame and derive the plane scale from it
+ *
+ * @param image - RGBA frame
+ * @param rectification - Window rectification in the same pixel space as `image`
+ * @param referenceId - Which object the user is holding
+ */
+export function detectReferenceObject(
+  image: ImageDataLike,
+  rectification: QuadRectification,
+  referenceId: ReferenceObjectId
+): ReferenceMeasurement | null {
+  const spec = REFERENCE_OBJECTS[referenceId];
+  const knownRatio = spec.longInches / spec.shortInches;
+  const windowArea = rectification.width * rectification.height;
+
+  let best: ReferenceMeasurement | null = null;
+  let bestScore = 0;
+
+  for (const candidate of findRectangles(image, REFERENCE_DETECTOR_OPTIONS)) {
+    const [tl, tr, br, bl] = candidate.corners.map((p) =>
+      applyHomography(rectification.imageToPlane, p)
+    );
+
+    const top = distance(tl, tr);
+    const bottom = distance(bl, br);
+    const left = distance(tl, bl);
+    const right = distance(tr, br);
+    if (Math.abs(top - bottom) > SIDE_MISMATCH_TOLERANCE * Math.max(top, bottom)) continue;
+    if (Math.abs(left - right) > SIDE_MISMATCH_TOLERANCE * Math.max(left, right)) continue;
+
+    const planeWidth = (top + bottom) / 2;
+    const planeHeight = (left + right) / 2;
+    if (planeWidth * planeHeight > MAX_WINDOW_AREA_FRACTION * windowArea) continue;
+
+    const long = Math.max(planeWidth, planeHeight);
+    const short = Math.min(planeWidth, planeHeight);
+    const aspectError = Math.abs(long / short / knownRatio - 1);
+    if (aspectError > ASPECT_TOLERANCE) continue;
+
+    const score =
+      candidate.support * candidate.minSupport * (1 - (0.5 * aspectError) / ASPECT_TOLERANCE);
+    if (!best || score > bestScore) {
+      bestScore = score;
+      best = {
+        referenceId,
+        corners: candidate.corners,
+        pxToInch: (spec.longInches / long + spec.shortInches / short) / 2,
+        aspectError,
+        support: candidate.support,
+      };
+    }
+  }
+
+  return best;
+}
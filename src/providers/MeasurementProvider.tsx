@@ -1,14 +1,23 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
-import type { MeasurementProvider, PassResult, DetectionResult, StabilityState } from './types';
-import { MockProvider } from './MockProvider';
-
-// Feature flag to switch between providers
-const USE_MOCK_PROVIDER = true; // Set to false to use WebMeasurementProvider
+import type {
+  MeasurementProvider,
+  PassResult,
+  DetectionResult,
+  StabilityState,
+  ReferenceObjectId,
+  CaptureOptions,
+  FrozenFrame,
+} from './types';
+import { selectProvider, createProvider, type ProviderSelection } from './registry';
+import { RecordingProvider } from './RecordingProvider';
+import { getSettings, updateSettings } from '@/utils/settings';
 
 interface MeasurementContextValue {
   provider: MeasurementProvider | null;
+  // How the running provider was chosen (null until initialized)
+  selection: ProviderSelection | null;
   isInitialized: boolean;
   isInitializing: boolean;
   error: string | null;
@@ -16,17 +25,27 @@ interface MeasurementContextValue {
   stability: StabilityState;
   suggestCapture: boolean;
   videoElement: HTMLVideoElement | null;
+  // Loaded still photo (photo provider only)
+  imageElement: HTMLImageElement | null;
+  // Reference object used to scale captures (persisted in settings)
+  referenceObject: ReferenceObjectId | null;
 
   // Actions
   initialize: () => Promise<boolean>;
-  capture: () => Promise<PassResult | null>;
+  capture: (options?: CaptureOptions) => Promise<PassResult | null>;
+  // Hold the current frame for corner review (null = unsupported or nothing detected)
+  freezeFrame: () => FrozenFrame | null;
+  unfreezeFrame: () => void;
   cleanup: () => void;
+  setReferenceObject: (reference: ReferenceObjectId | null) => void;
+  loadImage: (file: File) => Promise<boolean>;
 }
 
 const MeasurementContext = createContext<MeasurementContextValue | null>(null);
 
 export function MeasurementProviderWrapper({ children }: { children: React.ReactNode }) {
   const [provider, setProvider] = useState<MeasurementProvider | null>(null);
+  const [selection, setSelection] = useState<ProviderSelection | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -34,8 +53,14 @@ export function MeasurementProviderWrapper({ children }: { children: React.React
   const [stability, setStability] = useState<StabilityState>({ isStable: false, jitter: 1, frameCount: 0 });
   const [suggestCapture, setSuggestCapture] = useState(false);
   const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const [imageElement, setImageElement] = useState<HTMLImageElement | null>(null);
+  const [referenceObject, setReferenceObjectState] = useState<ReferenceObjectId | null>(
+    () => getSettings().referenceObject
+  );
 
   const frameLoopRef = useRef<number | null>(null);
+  // Mirrors `provider` so the unmount cleanup sees the latest instance
+  const providerRef = useRef<MeasurementProvider | null>(null);
 
   const runFrameLoop = useCallback(() => {
     if (!provider || !isInitialized) return;
@@ -62,15 +87,19 @@ export function MeasurementProviderWrapper({ children }: { children: React.React
     setError(null);
 
     try {
-      // Create the appropriate provider based on feature flag
-      const newProvider = USE_MOCK_PROVIDER
-        ? new MockProvider()
-        : new MockProvider(); // TODO: Replace with WebMeasurementProvider when implemented
+      // Pick the provider from the URL, persisted setting and browser support
+      const settings = getSettings();
+      const newSelection = selectProvider(window.location.search, settings.providerType);
+      const created = createProvider(newSelection.type);
+      const newProvider = settings.recordTraces ? new RecordingProvider(created) : created;
+      newProvider.setReferenceObject?.(referenceObject);
 
       const success = await newProvider.initialize();
 
       if (success) {
+        providerRef.current = newProvider;
         setProvider(newProvider);
+        setSelection(newSelection);
         setVideoElement(newProvider.getVideoElement());
         setIsInitialized(true);
       } else {
@@ -84,19 +113,29 @@ export function MeasurementProviderWrapper({ children }: { children: React.React
       setIsInitializing(false);
       return false;
     }
-  }, [isInitializing, isInitialized]);
+  }, [isInitializing, isInitialized, referenceObject]);
 
-  const capture = useCallback(async (): Promise<PassResult | null> => {
+  const capture = useCallback(async (options?: CaptureOptions): Promise<PassResult | null> => {
     if (!provider || !isInitialized) return null;
 
+    setError(null);
     try {
-      return await provider.capture();
+      return await provider.capture(options);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Capture failed');
       return null;
     }
   }, [provider, isInitialized]);
 
+  const freezeFrame = useCallback((): FrozenFrame | null => {
+    if (!provider || !isInitialized) return null;
+    return provider.freezeFrame?.() ?? null;
+  }, [provider, isInitialized]);
+
+  const unfreezeFrame = useCallback(() => {
+    provider?.unfreezeFrame?.();
+  }, [provider]);
+
   const cleanup = useCallback(() => {
     if (frameLoopRef.current) {
       cancelAnimationFrame(frameLoopRef.current);
@@ -105,12 +144,44 @@ export function MeasurementProviderWrapper({ children }: { children: React.React
     if (provider) {
       provider.cleanup();
     }
+    providerRef.current = null;
     setProvider(null);
+    setSelection(null);
     setIsInitialized(false);
     setDetection(null);
     setVideoElement(null);
+    setImageElement(null);
   }, [provider]);
 
+  const setReferenceObject = useCallback(
+    (reference: ReferenceObjectId | null) => {
+      updateSettings({ referenceObject: reference });
+      setReferenceObjectState(reference);
+      provider?.setReferenceObject?.(reference);
+    },
+    [provider]
+  );
+
+  const loadImage = useCallback(
+    async (file: File): Promise<boolean> => {
+      if (!provider?.loadImage || !isInitialized) return false;
+
+      setError(null);
+      try {
+        const success = await provider.loadImage(file);
+        setImageElement(provider.getImageElement?.() ?? null);
+        if (!success) {
+          setError('Could not read that photo');
+        }
+        return success;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not read that photo');
+        return false;
+      }
+    },
+    [provider, isInitialized]
+  );
+
   // Start frame loop when initialized
   useEffect(() => {
     if (isInitialized && provider) {
@@ -124,13 +195,21 @@ export function MeasurementProviderWrapper({ children }: { children: React.React
     };
   }, [isInitialized, provider, runFrameLoop]);
 
-  // Cleanup on unmount
+  // Cleanup on unmount. Depending on `cleanup` here would tear the provider
+  // down every time it changes, so read it from the ref instead.
   useEffect(() => {
-    return () => cleanup();
-  }, [cleanup]);
+    return () => {
+      if (frameLoopRef.current) {
+        cancelAnimationFrame(frameLoopRef.current);
+      }
+      providerRef.current?.cleanup();
+      providerRef.current = null;
+    };
+  }, []);
 
   const value: MeasurementContextValue = {
     provider,
+    selection,
     isInitialized,
     isInitializing,
     error,
@@ -138,9 +217,15 @@ export function MeasurementProviderWrapper({ children }: { children: React.React
     stability,
     suggestCapture,
     videoElement,
+    imageElement,
+    referenceObject,
     initialize,
     capture,
+    freezeFrame,
+    unfreezeFrame,
     cleanup,
+    setReferenceObject,
+    loadImage,
   };
 
   return (
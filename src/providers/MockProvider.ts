@@ -1,8 +1,10 @@
 /**
  * MockProvider - Simulated measurement provider for fast UI iteration
  *
- * Provides deterministic-ish simulated measurements without camera access.
- * Useful for testing the full UI flow without hardware dependencies.
+ * Provides simulated measurements without camera access. Useful for
+ * testing the full UI flow without hardware dependencies. Everything it
+ * varies comes from a seeded scenario (see mockScenarios), so a scenario
+ * plays out the same way on every run.
  */
 
 import type {
@@ -10,8 +12,23 @@ import type {
   PassResult,
   DetectionResult,
   StabilityState,
-  ConfidenceCategory,
+  CaptureOptions,
+  FrozenFrame,
+  Diagonals,
+  MeasurementPoints,
 } from './types';
+import { boundsFromCorners, cornersFromBounds } from '@/detection/geometry';
+import { categorizeConfidence, getConfidencePolicy } from '@/utils/confidence';
+import {
+  createRandom,
+  curveAt,
+  isDetectionLost,
+  mockScenarios,
+  DEFAULT_MOCK_SCENARIO,
+  type MockScenario,
+} from './mockScenarios';
+
+const UNSTABLE: StabilityState = { isStable: false, jitter: 1, frameCount: 0 };
 
 export class MockProvider implements MeasurementProvider {
   readonly providerType = 'mock' as const;
@@ -22,12 +39,19 @@ export class MockProvider implements MeasurementProvider {
 
   // Simulated detection state
   private currentDetection: DetectionResult | null = null;
+  // Latest frame and stability handed out, for suggestCapture and freezeFrame
+  private lastDetection: DetectionResult | null = null;
+  private lastStability: StabilityState = UNSTABLE;
+  // Detection held still for corner review (null = live)
+  private frozenDetection: DetectionResult | null = null;
   private stabilityFrames = 0;
-  private lastJitter = 0.5;
+  private lastJitter: number;
+  private random: () => number;
 
-  // Simulated window dimensions (will vary slightly between captures)
-  private baseWidth = 36; // inches
-  private baseHeight = 48; // inches
+  constructor(readonly scenario: MockScenario = mockScenarios[DEFAULT_MOCK_SCENARIO]) {
+    this.random = createRandom(scenario.seed);
+    this.lastJitter = scenario.jitterCurve.start;
+  }
 
   async initialize(): Promise<boolean> {
     // Simulate a brief initialization delay
@@ -35,14 +59,18 @@ export class MockProvider implements MeasurementProvider {
     this.isActive = true;
     this.frameCount = 0;
     this.captureCount = 0;
+    this.stabilityFrames = 0;
+    this.lastJitter = this.scenario.jitterCurve.start;
+    this.random = createRandom(this.scenario.seed);
+    this.lastDetection = null;
+    this.lastStability = UNSTABLE;
 
     // Start with a detection centered in frame
+    const bounds = { x: 0.15, y: 0.1, width: 0.7, height: 0.8 };
     this.currentDetection = {
-      x: 0.15,
-      y: 0.1,
-      width: 0.7,
-      height: 0.8,
+      ...bounds,
       confidence: 0.85,
+      corners: cornersFromBounds(bounds, 0.85),
     };
 
     return true;
@@ -51,30 +79,41 @@ export class MockProvider implements MeasurementProvider {
   cleanup(): void {
     this.isActive = false;
     this.currentDetection = null;
+    this.frozenDetection = null;
+    this.lastDetection = null;
+    this.lastStability = UNSTABLE;
   }
 
   getDetection(): DetectionResult | null {
     if (!this.isActive) return null;
+    if (this.frozenDetection) return this.frozenDetection;
 
+    this.lastDetection = this.nextDetection();
+    return this.lastDetection;
+  }
+
+  private nextDetection(): DetectionResult | null {
     this.frameCount++;
+    if (isDetectionLost(this.scenario.failures, this.frameCount)) return null;
 
     // Simulate small variations in detection (jitter)
     if (this.currentDetection) {
-      const jitterAmount = 0.005;
+      const jitterAmount = this.scenario.detectionJitter;
       const det = { ...this.currentDetection };
 
       // Add small random jitter
-      det.x += (Math.random() - 0.5) * jitterAmount;
-      det.y += (Math.random() - 0.5) * jitterAmount;
-      det.width += (Math.random() - 0.5) * jitterAmount;
-      det.height += (Math.random() - 0.5) * jitterAmount;
+      det.x += (this.random() - 0.5) * jitterAmount;
+      det.y += (this.random() - 0.5) * jitterAmount;
+      det.width += (this.random() - 0.5) * jitterAmount;
+      det.height += (this.random() - 0.5) * jitterAmount;
 
       // Clamp values
       det.x = Math.max(0, Math.min(1 - det.width, det.x));
       det.y = Math.max(0, Math.min(1 - det.height, det.y));
 
-      // Gradually improve confidence over time
-      det.confidence = Math.min(0.95, 0.7 + this.frameCount * 0.002);
+      // Confidence follows the scenario's curve over time
+      det.confidence = curveAt(this.scenario.confidenceCurve, this.frameCount);
+      det.corners = cornersFromBounds(det, det.confidence);
 
       return det;
     }
@@ -83,15 +122,25 @@ export class MockProvider implements MeasurementProvider {
   }
 
   getStability(): StabilityState {
-    if (!this.isActive || !this.currentDetection) {
-      return { isStable: false, jitter: 1, frameCount: 0 };
+    this.lastStability = this.nextStability();
+    return this.lastStability;
+  }
+
+  private nextStability(): StabilityState {
+    if (!this.isActive || !this.currentDetection) return UNSTABLE;
+
+    // Losing the window starts stability over
+    if (isDetectionLost(this.scenario.failures, this.frameCount)) {
+      this.stabilityFrames = 0;
+      this.lastJitter = this.scenario.jitterCurve.start;
+      return UNSTABLE;
     }
 
     // Simulate stability improving over time
     this.stabilityFrames++;
 
-    // Jitter decreases as frames accumulate
-    const targetJitter = Math.max(0.05, 0.5 - this.stabilityFrames * 0.02);
+    // Jitter follows the scenario's curve as frames accumulate
+    const targetJitter = curveAt(this.scenario.jitterCurve, this.stabilityFrames);
     this.lastJitter = this.lastJitter * 0.9 + targetJitter * 0.1;
 
     const isStable = this.lastJitter < 0.15 && this.stabilityFrames > 20;
@@ -103,57 +152,97 @@ export class MockProvider implements MeasurementProvider {
     };
   }
 
+  // Judged on the frame last handed out, so asking doesn't move the
+  // simulation on a frame
   suggestCapture(): boolean {
-    const stability = this.getStability();
-    const detection = this.getDetection();
+    if (!this.isActive) return false;
+    const detection = this.frozenDetection ?? this.lastDetection;
 
     return (
-      stability.isStable &&
+      this.lastStability.isStable &&
       detection !== null &&
-      detection.confidence > 0.7
+      detection.confidence > getConfidencePolicy().captureSuggestion
     );
   }
 
-  async capture(): Promise<PassResult> {
+  // Holds the frame on screen rather than simulating a new one
+  freezeFrame(): FrozenFrame | null {
+    const detection = this.isActive ? this.lastDetection : null;
+    if (!detection) return null;
+
+    this.frozenDetection = detection;
+    return { image: null, detection };
+  }
+
+  unfreezeFrame(): void {
+    this.frozenDetection = null;
+  }
+
+  async capture(options: CaptureOptions = {}): Promise<PassResult> {
+    if (options.subject === 'jamb') return this.captureJamb();
+
     this.captureCount++;
+    if (this.scenario.failures.failingCaptures.includes(this.captureCount)) {
+      throw new Error(`Simulated capture failure (attempt ${this.captureCount})`);
+    }
+
+    // Add variation to measurements between captures
+    const { passVariationInches } = this.scenario;
+    const widthVariation = (this.random() - 0.5) * 2 * passVariationInches;
+    const heightVariation = (this.random() - 0.5) * 2 * passVariationInches;
 
-    // Add slight variation to measurements between captures
-    const widthVariation = (Math.random() - 0.5) * 2; // ±1 inch
-    const heightVariation = (Math.random() - 0.5) * 2;
-
-    const width = this.baseWidth + widthVariation;
-    const height = this.baseHeight + heightVariation;
-
-    // Confidence varies by capture number (2nd pass typically better)
-    let confidence: number;
-    let category: ConfidenceCategory;
-
-    if (this.captureCount === 1) {
-      confidence = 0.75 + Math.random() * 0.1;
-      category = 'OK';
-    } else if (this.captureCount === 2) {
-      confidence = 0.85 + Math.random() * 0.1;
-      category = 'Excellent';
-    } else {
-      confidence = 0.80 + Math.random() * 0.15;
-      category = confidence > 0.85 ? 'Excellent' : 'OK';
+    let width = this.scenario.baseWidthInches + widthVariation;
+    let height = this.scenario.baseHeightInches + heightVariation;
+
+    // Adjusted corners resize the simulated window in proportion
+    const detected = this.frozenDetection ?? this.currentDetection;
+    if (options.corners && detected) {
+      const adjusted = boundsFromCorners(options.corners);
+      width *= adjusted.width / detected.width;
+      height *= adjusted.height / detected.height;
     }
 
+    // Openings are rarely true: each of the three points per side reads
+    // up to ±1/4" off the overall size
+    const offPoint = (size: number) => size + (this.random() - 0.5) * 0.5;
+    const points: MeasurementPoints = {
+      widths: [offPoint(width), offPoint(width), offPoint(width)],
+      heights: [offPoint(height), offPoint(height), offPoint(height)],
+    };
+    // ...and its diagonals differ by up to 3/8"
+    const diagonal = Math.hypot(width, height);
+    const diagonals: Diagonals = [
+      diagonal + (this.random() - 0.5) * 0.375,
+      diagonal + (this.random() - 0.5) * 0.375,
+    ];
+
+    // Confidence varies by capture number, as the scenario sets out
+    const ranges = this.scenario.captureConfidence;
+    const range = ranges[Math.min(this.captureCount, ranges.length) - 1];
+    const confidence = range.min + this.random() * (range.max - range.min);
+
     // Reset stability for next capture
     this.stabilityFrames = 0;
-    this.lastJitter = 0.5;
+    this.lastJitter = this.scenario.jitterCurve.start;
+    this.lastStability = UNSTABLE;
+    this.frozenDetection = null;
 
     return {
       widthInInches: width,
       heightInInches: height,
+      points,
+      diagonals,
+      source: 'camera',
       confidence,
-      category,
+      category: categorizeConfidence(confidence),
       timestamp: Date.now(),
       frameMetadata: {
         pxToInchUsed: null, // Mock doesn't use real pixel conversion
         detectorConfidence: confidence,
+        cornersUserCorrected: Boolean(options.corners),
         detectorMetadata: {
           provider: 'mock',
+          scenario: this.scenario.id,
           captureNumber: this.captureCount,
           simulated: true,
         },
@@ -161,6 +250,35 @@ export class MockProvider implements MeasurementProvider {
     };
   }
 
+  // The jamb face, as tall as the opening and as wide as the jamb is deep.
+  // Like a camera without a reference object, both sides read off by a
+  // shared scale error of up to 5% and up to 1/8" each
+  private captureJamb(): PassResult {
+    const scale = 1 + (this.random() - 0.5) * 0.1;
+    const width = this.scenario.jambDepthInches * scale + (this.random() - 0.5) * 0.25;
+    const height = this.scenario.baseHeightInches * scale + (this.random() - 0.5) * 0.25;
+    const confidence = curveAt(this.scenario.confidenceCurve, this.frameCount);
+
+    return {
+      widthInInches: width,
+      heightInInches: height,
+      source: 'camera',
+      confidence,
+      category: categorizeConfidence(confidence),
+      timestamp: Date.now(),
+      frameMetadata: {
+        pxToInchUsed: null,
+        detectorConfidence: confidence,
+        detectorMetadata: {
+          provider: 'mock',
+          scenario: this.scenario.id,
+          subject: 'jamb',
+          simulated: true,
+        },
+      },
+    };
+  }
+
   getVideoElement(): HTMLVideoElement | null {
     // Mock provider doesn't have a video element
     return null;
@@ -0,0 +1,186 @@
+/**
+ * PhotoMeasurementProvider - Measures a window from a still photo
+ *
+ * For customers who already have photos of their windows or can't grant
+ * live camera access. The user picks an image file; detection and scale
+ * estimation run once on it, the user confirms, and capture produces a
+ * normal PassResult (see frameMeasurement), so the pass flow is unchanged.
+ */
+
+import type {
+  MeasurementProvider,
+  PassResult,
+  DetectionResult,
+  StabilityState,
+  ReferenceObjectId,
+  CaptureOptions,
+  FrozenFrame,
+} from './types';
+import { detectWindowFrame } from '@/detection/frameDetector';
+import { detectionWithCorners } from '@/detection/geometry';
+import {
+  CALIBRATION_WIDTH,
+  DETECTOR_WIDTH,
+  estimateScale,
+  measureDetection,
+  type ScaleEstimate,
+} from './frameMeasurement';
+import { getConfidencePolicy } from '@/utils/confidence';
+
+/**
+ * Draw an image at the given width (keeping aspect ratio) and read back
+ * its pixels
+ */
+function sampleImage(image: HTMLImageElement, width: number): ImageData | null {
+  const height = Math.round((width * image.naturalHeight) / image.naturalWidth);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  context.drawImage(image, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+}
+
+export class PhotoMeasurementProvider implements MeasurementProvider {
+  readonly providerType = 'photo' as const;
+
+  private isActive = false;
+  private imageElement: HTMLImageElement | null = null;
+  private imageUrl: string | null = null;
+
+  // Detection state for the loaded photo
+  private currentDetection: DetectionResult | null = null;
+  // Higher-resolution copy kept for the reference search at capture
+  private calibrationFrame: ImageData | null = null;
+  private captureCount = 0;
+
+  // Reference object to scale captures with (null = heuristic sizing)
+  private referenceObject: ReferenceObjectId | null = null;
+
+  async initialize(): Promise<boolean> {
+    // Nothing to ask permission for; the photo is chosen later
+    this.isActive = true;
+    this.captureCount = 0;
+    return true;
+  }
+
+  cleanup(): void {
+    this.isActive = false;
+    this.releaseImage();
+  }
+
+  private releaseImage(): void {
+    if (this.imageUrl) {
+      URL.revokeObjectURL(this.imageUrl);
+      this.imageUrl = null;
+    }
+    this.imageElement = null;
+    this.currentDetection = null;
+    this.calibrationFrame = null;
+  }
+
+  /**
+   * Decode a photo and run the detector on it once
+   *
+   * Resolves false when the file is not a readable image. A readable
+   * photo with no window in it resolves true with no detection.
+   */
+  async loadImage(file: File): Promise<boolean> {
+    if (!this.isActive) return false;
+
+    this.releaseImage();
+
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.src = url;
+
+    try {
+      await image.decode();
+    } catch (error) {
+      console.error('Failed to decode photo:', error);
+      URL.revokeObjectURL(url);
+      return false;
+    }
+
+    this.imageUrl = url;
+    this.imageElement = image;
+
+    const detectorFrame = sampleImage(image, DETECTOR_WIDTH);
+    this.currentDetection = detectorFrame ? detectWindowFrame(detectorFrame) : null;
+    // Never upsample small photos for the reference search
+    this.calibrationFrame = sampleImage(image, Math.min(CALIBRATION_WIDTH, image.naturalWidth));
+
+    return true;
+  }
+
+  getImageElement(): HTMLImageElement | null {
+    return this.imageElement;
+  }
+
+  getDetection(): DetectionResult | null {
+    if (!this.isActive) return null;
+    return this.currentDetection;
+  }
+
+  getStability(): StabilityState {
+    // A still photo never moves
+    return {
+      isStable: this.currentDetection !== null,
+      jitter: 0,
+      frameCount: this.currentDetection ? 1 : 0,
+    };
+  }
+
+  suggestCapture(): boolean {
+    return (
+      this.currentDetection !== null &&
+      this.currentDetection.confidence > getConfidencePolicy().captureSuggestion
+    );
+  }
+
+  setReferenceObject(reference: ReferenceObjectId | null): void {
+    this.referenceObject = reference;
+  }
+
+  freezeFrame(): FrozenFrame | null {
+    // The photo is already still; review it as-is
+    if (!this.imageElement || !this.currentDetection) return null;
+    return { image: this.imageElement, detection: this.currentDetection };
+  }
+
+  unfreezeFrame(): void {}
+
+  async capture(options: CaptureOptions = {}): Promise<PassResult> {
+    this.captureCount++;
+
+    const detected = this.currentDetection;
+    if (!detected || !this.imageElement) {
+      throw new Error('No window found in this photo');
+    }
+    const detection = options.corners ? detectionWithCorners(detected, options.corners) : detected;
+
+    const sourceWidth = this.imageElement.naturalWidth;
+    let scale: ScaleEstimate | null = null;
+    if (this.referenceObject && this.calibrationFrame) {
+      scale = estimateScale(this.calibrationFrame, detection, this.referenceObject, sourceWidth);
+    }
+
+    return measureDetection({
+      detection,
+      sourceWidth,
+      sourceHeight: this.imageElement.naturalHeight,
+      scale,
+      providerType: this.providerType,
+      captureNumber: this.captureCount,
+      referenceRequested: this.referenceObject,
+      detectedCorners: options.corners ? detected.corners : null,
+    });
+  }
+
+  getVideoElement(): HTMLVideoElement | null {
+    return null;
+  }
+}
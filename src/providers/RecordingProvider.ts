@@ -0,0 +1,119 @@
+/**
+ * RecordingProvider - Records another provider's output into a trace
+ *
+ * Wraps any provider and passes every call through unchanged, keeping a
+ * copy of each detection, stability, capture suggestion, frozen frame and
+ * capture result or failure (see trace.ts). Download the trace to replay a session
+ * with ReplayProvider.
+ */
+
+import type {
+  MeasurementProvider,
+  PassResult,
+  DetectionResult,
+  StabilityState,
+  CaptureOptions,
+  FrozenFrame,
+  ProviderType,
+  ReferenceObjectId,
+} from './types';
+import { createTrace, type MeasurementTrace } from './trace';
+
+// Frames kept per trace (5 minutes at 60fps). Later frames are dropped so
+// a camera left running doesn't fill memory; captures are always kept.
+const MAX_TRACE_FRAMES = 18000;
+
+// Detached copy, so later changes by the provider don't alter the trace
+function copy<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+export class RecordingProvider implements MeasurementProvider {
+  readonly providerType: ProviderType;
+
+  private trace: MeasurementTrace;
+
+  // Optional capabilities of the wrapped provider pass straight through
+  // (freezeFrame also records the detection it held)
+  readonly freezeFrame?: () => FrozenFrame | null;
+  readonly unfreezeFrame?: () => void;
+  readonly loadImage?: (file: File) => Promise<boolean>;
+  readonly getImageElement?: () => HTMLImageElement | null;
+  readonly setReferenceObject?: (reference: ReferenceObjectId | null) => void;
+
+  constructor(private readonly inner: MeasurementProvider) {
+    this.providerType = inner.providerType;
+    this.trace = createTrace(inner.providerType);
+
+    if (inner.freezeFrame) {
+      const freezeFrame = inner.freezeFrame.bind(inner);
+      this.freezeFrame = () => {
+        const frame = freezeFrame();
+        this.trace.freezes.push(copy(frame?.detection ?? null));
+        return frame;
+      };
+    }
+    this.unfreezeFrame = inner.unfreezeFrame?.bind(inner);
+    this.loadImage = inner.loadImage?.bind(inner);
+    this.getImageElement = inner.getImageElement?.bind(inner);
+    this.setReferenceObject = inner.setReferenceObject?.bind(inner);
+  }
+
+  async initialize(): Promise<boolean> {
+    this.trace = createTrace(this.inner.providerType);
+    return this.inner.initialize();
+  }
+
+  cleanup(): void {
+    this.inner.cleanup();
+  }
+
+  getDetection(): DetectionResult | null {
+    const detection = this.inner.getDetection();
+    if (this.trace.detections.length < MAX_TRACE_FRAMES) {
+      this.trace.detections.push(copy(detection));
+    }
+    return detection;
+  }
+
+  getStability(): StabilityState {
+    const stability = this.inner.getStability();
+    if (this.trace.stabilities.length < MAX_TRACE_FRAMES) {
+      this.trace.stabilities.push(copy(stability));
+    }
+    return stability;
+  }
+
+  suggestCapture(): boolean {
+    const suggest = this.inner.suggestCapture();
+    if (this.trace.suggestions.length < MAX_TRACE_FRAMES) {
+      this.trace.suggestions.push(suggest);
+    }
+    return suggest;
+  }
+
+  async capture(options: CaptureOptions = {}): Promise<PassResult> {
+    let result: PassResult;
+    try {
+      result = await this.inner.capture(options);
+    } catch (err) {
+      // Failed captures are replayed too, so the calls after them line up
+      const error = err instanceof Error ? err.message : 'Capture failed';
+      this.trace.captures.push({ options: copy(options), error });
+      throw err;
+    }
+    this.trace.captures.push({ options: copy(options), result: copy(result) });
+    return result;
+  }
+
+  getVideoElement(): HTMLVideoElement | null {
+    return this.inner.getVideoElement();
+  }
+
+  /**
+   * Everything recorded since initialize()
+   */
+  getTrace(): MeasurementTrace {
+    return this.trace;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * ReplayProvider - Plays back a recorded trace
+ *
+ * Returns exactly what a RecordingProvider saw, one frame per
+ * getDetection call and one result per capture, so a session behaves the
+ * same every time it is replayed. Every stream moves one step per call,
+ * frozen or not: the recording already holds the frozen frames. Once a
+ * stream runs out, its last frame is held; running out of captures is an
+ * error. A capture that failed when recorded fails again with its message.
+ */
+
+import type {
+  MeasurementProvider,
+  PassResult,
+  DetectionResult,
+  StabilityState,
+  FrozenFrame,
+} from './types';
+import type { MeasurementTrace } from './trace';
+
+const UNSTABLE: StabilityState = { isStable: false, jitter: 1, frameCount: 0 };
+
+// Next item of a stream, holding the last one once it runs out
+function next<T>(stream: T[], index: number): T | undefined {
+  return stream[Math.min(index, stream.length - 1)];
+}
+
+export class ReplayProvider implements MeasurementProvider {
+  readonly providerType = 'replay' as const;
+
+  private isActive = false;
+  private detectionIndex = 0;
+  private stabilityIndex = 0;
+  private suggestionIndex = 0;
+  private freezeIndex = 0;
+  private captureIndex = 0;
+
+  constructor(private readonly trace: MeasurementTrace | null) {}
+
+  async initialize(): Promise<boolean> {
+    if (!this.trace) return false;
+
+    this.isActive = true;
+    this.detectionIndex = 0;
+    this.stabilityIndex = 0;
+    this.suggestionIndex = 0;
+    this.freezeIndex = 0;
+    this.captureIndex = 0;
+    return true;
+  }
+
+  cleanup(): void {
+    this.isActive = false;
+  }
+
+  getDetection(): DetectionResult | null {
+    if (!this.isActive || !this.trace) return null;
+    return next(this.trace.detections, this.detectionIndex++) ?? null;
+  }
+
+  getStability(): StabilityState {
+    if (!this.isActive || !this.trace) return UNSTABLE;
+    return next(this.trace.stabilities, this.stabilityIndex++) ?? UNSTABLE;
+  }
+
+  suggestCapture(): boolean {
+    if (!this.isActive || !this.trace) return false;
+    return next(this.trace.suggestions, this.suggestionIndex++) ?? false;
+  }
+
+  freezeFrame(): FrozenFrame | null {
+    if (!this.isActive || !this.trace) return null;
+    const detection = this.trace.freezes[this.freezeIndex++];
+    return detection ? { image: null, detection } : null;
+  }
+
+  unfreezeFrame(): void {
+    // Frames after the freeze are already in the recording
+  }
+
+  async capture(): Promise<PassResult> {
+    const capture = this.trace?.captures[this.captureIndex];
+    if (!this.isActive || !capture) {
+      throw new Error('The trace has no more captures to replay');
+    }
+
+    this.captureIndex++;
+    if ('error' in capture) throw new Error(capture.error);
+    return capture.result;
+  }
+
+  getVideoElement(): HTMLVideoElement | null {
+    return null;
+  }
+}
@@ -2,9 +2,10 @@
  * WebMeasurementProvider - Real camera-based measurement provider
  *
  * Uses getUserMedia for camera access and implements:
- * - Per-frame window detection (placeholder heuristic for v0)
- * - Temporal stability scoring
- * - px→inch estimation (stub returning null for now)
+ * - Per-frame window detection (edge + line voting, see detection/frameDetector)
+ * - Temporal stability scoring on the four corners
+ * - Freezing a frame so the user can adjust corners before capture
+ * - Sizing and scale estimation at capture (see frameMeasurement)
  *
  * The detection is structured so a real TF.js model can replace
  * the runDetector() method later.
@@ -15,21 +16,28 @@ import type {
   PassResult,
   DetectionResult,
   StabilityState,
-  ConfidenceCategory,
+  ReferenceObjectId,
+  CaptureOptions,
+  FrozenFrame,
 } from './types';
+import { detectWindowFrame } from '@/detection/frameDetector';
+import { detectionWithCorners, type Point } from '@/detection/geometry';
+import {
+  CALIBRATION_WIDTH,
+  DETECTOR_WIDTH,
+  estimateScale,
+  measureDetection,
+  type ScaleEstimate,
+} from './frameMeasurement';
+import { getConfidencePolicy } from '@/utils/confidence';
 
 // Number of frames to track for stability calculation
 const STABILITY_WINDOW = 10;
 // Jitter threshold for "stable" detection
 const JITTER_THRESHOLD = 0.02;
-// Confidence threshold for suggesting capture
-const CONFIDENCE_THRESHOLD = 0.6;
 
 interface CornerSet {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
+  corners: Point[];
   timestamp: number;
 }
 
@@ -40,12 +48,23 @@ export class WebMeasurementProvider implements MeasurementProvider {
   private stream: MediaStream | null = null;
   private isActive = false;
 
+  // Offscreen canvas the video is sampled into for detection
+  private detectorCanvas: HTMLCanvasElement | null = null;
+  private detectorContext: CanvasRenderingContext2D | null = null;
+
   // Detection state
   private currentDetection: DetectionResult | null = null;
   private cornerHistory: CornerSet[] = [];
   private frameCount = 0;
   private captureCount = 0;
 
+  // Full-resolution still of the frame under corner review (null = live)
+  private frozenCanvas: HTMLCanvasElement | null = null;
+  private frozenDetection: DetectionResult | null = null;
+
+  // Reference object to scale captures with (null = heuristic sizing)
+  private referenceObject: ReferenceObjectId | null = null;
+
   async initialize(): Promise<boolean> {
     try {
       // Request camera with preferred settings
@@ -93,13 +112,19 @@ export class WebMeasurementProvider implements MeasurementProvider {
       this.videoElement = null;
     }
 
+    this.detectorCanvas = null;
+    this.detectorContext = null;
     this.currentDetection = null;
     this.cornerHistory = [];
+    this.unfreezeFrame();
   }
 
   getDetection(): DetectionResult | null {
     if (!this.isActive || !this.videoElement) return null;
 
+    // The frozen frame doesn't change, so neither does its detection
+    if (this.frozenDetection) return this.frozenDetection;
+
     this.frameCount++;
 
     // Run detection on current frame
@@ -108,10 +133,7 @@ export class WebMeasurementProvider implements MeasurementProvider {
     if (detection) {
       // Update corner history for stability tracking
       this.cornerHistory.push({
-        x: detection.x,
-        y: detection.y,
-        width: detection.width,
-        height: detection.height,
+        corners: detection.corners.map(({ x, y }) => ({ x, y })),
         timestamp: Date.now(),
       });
 
@@ -127,15 +149,12 @@ export class WebMeasurementProvider implements MeasurementProvider {
   }
 
   /**
-   * Placeholder detection algorithm
-   *
-   * This is a simple heuristic that returns a centered rectangle.
-   * In production, this would be replaced with:
-   * - TF.js model inference
-   * - OpenCV edge detection
-   * - Or other computer vision approach
+   * Sample the current video frame into a small canvas and run the
+   * window frame detector on it
    *
-   * The interface is designed to be swapped out easily.
+   * Detection runs on a downscaled copy (DETECTOR_WIDTH px wide) to keep
+   * the per-frame cost low; the result is normalized so it maps straight
+   * back onto the full-resolution video.
    */
   private runDetector(): DetectionResult | null {
     if (!this.videoElement) return null;
@@ -145,29 +164,36 @@ export class WebMeasurementProvider implements MeasurementProvider {
 
     if (videoWidth === 0 || videoHeight === 0) return null;
 
-    // PLACEHOLDER: Return a centered rectangle with some variation
-    // This simulates a detected window for UI development
-
-    // Add small variations to simulate real detection jitter
-    const jitter = 0.01;
-    const baseX = 0.15;
-    const baseY = 0.1;
-    const baseWidth = 0.7;
-    const baseHeight = 0.8;
-
-    const detection: DetectionResult = {
-      x: baseX + (Math.random() - 0.5) * jitter,
-      y: baseY + (Math.random() - 0.5) * jitter,
-      width: baseWidth + (Math.random() - 0.5) * jitter,
-      height: baseHeight + (Math.random() - 0.5) * jitter,
-      confidence: 0.7 + Math.random() * 0.2, // 70-90% confidence
-    };
+    const frame = this.sampleFrame(DETECTOR_WIDTH);
+    if (!frame) return null;
+
+    return detectWindowFrame(frame);
+  }
+
+  /**
+   * Draw the current video frame (or the frozen frame) into the offscreen
+   * canvas at the given width (keeping aspect ratio) and read back its pixels
+   */
+  private sampleFrame(width: number): ImageData | null {
+    if (!this.videoElement) return null;
+
+    const videoWidth = this.videoElement.videoWidth;
+    const videoHeight = this.videoElement.videoHeight;
+    const height = Math.round((width * videoHeight) / videoWidth);
+
+    if (!this.detectorCanvas) {
+      this.detectorCanvas = document.createElement('canvas');
+      this.detectorContext = this.detectorCanvas.getContext('2d', { willReadFrequently: true });
+    }
+    if (!this.detectorContext) return null;
 
-    // Clamp to valid range
-    detection.x = Math.max(0, Math.min(1 - detection.width, detection.x));
-    detection.y = Math.max(0, Math.min(1 - detection.height, detection.y));
+    if (this.detectorCanvas.width !== width || this.detectorCanvas.height !== height) {
+      this.detectorCanvas.width = width;
+      this.detectorCanvas.height = height;
+    }
 
-    return detection;
+    this.detectorContext.drawImage(this.frozenCanvas ?? this.videoElement, 0, 0, width, height);
+    return this.detectorContext.getImageData(0, 0, width, height);
   }
 
   getStability(): StabilityState {
@@ -179,18 +205,16 @@ export class WebMeasurementProvider implements MeasurementProvider {
       };
     }
 
-    // Calculate jitter as average movement between frames
+    // Calculate jitter as average corner movement between frames
+    // (divided by 4 so a rigid shift scores like the old box-based jitter)
     let totalJitter = 0;
     for (let i = 1; i < this.cornerHistory.length; i++) {
-      const prev = this.cornerHistory[i - 1];
-      const curr = this.cornerHistory[i];
-
-      const dx = Math.abs(curr.x - prev.x);
-      const dy = Math.abs(curr.y - prev.y);
-      const dw = Math.abs(curr.width - prev.width);
-      const dh = Math.abs(curr.height - prev.height);
+      const prev = this.cornerHistory[i - 1].corners;
+      const curr = this.cornerHistory[i].corners;
 
-      totalJitter += dx + dy + dw + dh;
+      for (let c = 0; c < curr.length; c++) {
+        totalJitter += (Math.abs(curr[c].x - prev[c].x) + Math.abs(curr[c].y - prev[c].y)) / 4;
+      }
     }
 
     const avgJitter = totalJitter / (this.cornerHistory.length - 1);
@@ -210,102 +234,67 @@ export class WebMeasurementProvider implements MeasurementProvider {
     return (
       stability.isStable &&
       this.currentDetection !== null &&
-      this.currentDetection.confidence > CONFIDENCE_THRESHOLD
+      this.currentDetection.confidence > getConfidencePolicy().captureSuggestion
     );
   }
 
-  /**
-   * Estimate pixels to inches conversion
-   *
-   * STUB: Returns null to indicate no AR scaling available.
-   * In production, this would use:
-   * - WebXR depth API (if available)
-   * - Device motion/accelerometer for distance estimation
-   * - Known reference object
-   *
-   * When null, the system uses a fallback heuristic with low confidence.
-   */
-  private estimatePxToInch(): number | null {
-    // TODO: Implement WebXR depth integration
-    // TODO: Implement distance estimation from device motion
+  setReferenceObject(reference: ReferenceObjectId | null): void {
+    this.referenceObject = reference;
+  }
+
+  freezeFrame(): FrozenFrame | null {
+    if (!this.videoElement || !this.currentDetection) return null;
 
-    // For now, return null to indicate no AR scaling
-    return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = this.videoElement.videoWidth;
+    canvas.height = this.videoElement.videoHeight;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    context.drawImage(this.videoElement, 0, 0);
+    this.frozenCanvas = canvas;
+    this.frozenDetection = this.currentDetection;
+
+    return { image: canvas, detection: this.currentDetection };
+  }
+
+  unfreezeFrame(): void {
+    this.frozenCanvas = null;
+    this.frozenDetection = null;
   }
 
-  async capture(): Promise<PassResult> {
+  async capture(options: CaptureOptions = {}): Promise<PassResult> {
     this.captureCount++;
 
-    const detection = this.currentDetection;
-    if (!detection || !this.videoElement) {
+    const detected = this.frozenDetection ?? this.currentDetection;
+    if (!detected || !this.videoElement) {
       throw new Error('No detection available for capture');
     }
+    const detection = options.corners ? detectionWithCorners(detected, options.corners) : detected;
 
-    const pxToInch = this.estimatePxToInch();
-
-    // Calculate dimensions
-    let widthInches: number;
-    let heightInches: number;
-    let confidence: number;
-    let category: ConfidenceCategory;
-
-    if (pxToInch !== null) {
-      // Use real AR scaling
-      const videoWidth = this.videoElement.videoWidth;
-      const videoHeight = this.videoElement.videoHeight;
-
-      widthInches = detection.width * videoWidth * pxToInch;
-      heightInches = detection.height * videoHeight * pxToInch;
-      confidence = detection.confidence * 0.9; // High confidence with AR
-      category = confidence >= 0.85 ? 'Excellent' : 'OK';
-    } else {
-      // Fallback: Use heuristic estimation
-      // Assume typical window size and distance
-      // This produces low-confidence results
-
-      // Heuristic: Assume user is ~4 feet away and typical window is ~36x48 inches
-      // Very rough estimation based on detection coverage of frame
-      const assumedWindowWidth = 36;
-      const assumedWindowHeight = 48;
-
-      // Scale based on how much of frame the detection covers
-      widthInches = assumedWindowWidth * (detection.width / 0.7);
-      heightInches = assumedWindowHeight * (detection.height / 0.8);
-
-      // Add some variation based on detection properties
-      widthInches += (Math.random() - 0.5) * 2;
-      heightInches += (Math.random() - 0.5) * 2;
-
-      // Lower confidence without AR
-      confidence = detection.confidence * 0.7;
-      category = confidence >= 0.65 ? 'OK' : 'Not Great';
+    const videoWidth = this.videoElement.videoWidth;
+    let scale: ScaleEstimate | null = null;
+    if (this.referenceObject) {
+      const frame = this.sampleFrame(CALIBRATION_WIDTH);
+      if (frame) scale = estimateScale(frame, detection, this.referenceObject, videoWidth);
     }
 
-    // Reset corner history for next capture
+    const result = measureDetection({
+      detection,
+      sourceWidth: videoWidth,
+      sourceHeight: this.videoElement.videoHeight,
+      scale,
+      providerType: this.providerType,
+      captureNumber: this.captureCount,
+      referenceRequested: this.referenceObject,
+      detectedCorners: options.corners ? detected.corners : null,
+    });
+
+    // Reset corner history and go live again for the next capture
     this.cornerHistory = [];
+    this.unfreezeFrame();
 
-    return {
-      widthInInches: widthInches,
-      heightInInches: heightInches,
-      confidence,
-      category,
-      timestamp: Date.now(),
-      frameMetadata: {
-        pxToInchUsed: pxToInch,
-        detectorConfidence: detection.confidence,
-        detectorMetadata: {
-          provider: 'web',
-          captureNumber: this.captureCount,
-          hasARScaling: pxToInch !== null,
-          detectionBounds: {
-            x: detection.x,
-            y: detection.y,
-            width: detection.width,
-            height: detection.height,
-          },
-        },
-      },
-    };
+    return result;
   }
 
   getVideoElement(): HTMLVideoElement | null {
@@ -0,0 +1,198 @@
+/**
+ * Scenarios for the simulated (mock) provider
+ *
+ * A scenario fixes everything the mock varies: the random seed, the
+ * window size, how stability and confidence develop over frames, and
+ * which frames lose the window or which captures fail. The same scenario
+ * plays out the same way every time, so QA can reach edge cases on
+ * demand. Chosen by:
+ * 1. `?scenario=<id>` URL query parameter
+ * 2. Persisted choice from the settings screen
+ * 3. DEFAULT_MOCK_SCENARIO
+ */
+
+export const SCENARIO_QUERY_PARAM = 'scenario';
+
+export type MockScenarioId =
+  | 'default'
+  | 'low-confidence'
+  | 'never-stable'
+  | 'detection-lost'
+  | 'capture-fails'
+  | 'varying-passes'
+  | 'picture-window';
+
+export const DEFAULT_MOCK_SCENARIO: MockScenarioId = 'default';
+
+// A value that moves by `perFrame` each frame from `start` until it reaches `limit`
+export interface FrameCurve {
+  start: number;
+  perFrame: number;
+  limit: number;
+}
+
+// Frames counted from initialize, inclusive
+export interface FrameRange {
+  from: number;
+  to: number;
+}
+
+export interface ConfidenceRange {
+  min: number;
+  max: number;
+}
+
+export interface MockFailures {
+  // Frames where the window isn't detected
+  lostDetection: FrameRange[];
+  // Capture attempts (1 = first) that throw instead of measuring
+  failingCaptures: number[];
+}
+
+export interface MockScenario {
+  id: MockScenarioId;
+  label: string;
+  description: string;
+  seed: number;
+  baseWidthInches: number;
+  baseHeightInches: number;
+  // Each pass reads up to this much over or under the base size
+  passVariationInches: number;
+  // Depth of the side jamb shown for the depth step
+  jambDepthInches: number;
+  // Movement of the detected outline between frames (fraction of the frame)
+  detectionJitter: number;
+  // Camera shake over frames since the last capture; stable below 0.15
+  jitterCurve: FrameCurve;
+  // Detector confidence over frames since initialize
+  confidenceCurve: FrameCurve;
+  // Pass confidence by capture number, the last range repeating
+  captureConfidence: ConfidenceRange[];
+  failures: MockFailures;
+}
+
+const NO_FAILURES: MockFailures = { lostDetection: [], failingCaptures: [] };
+
+const DEFAULT_SCENARIO: MockScenario = {
+  id: 'default',
+  label: 'Typical',
+  description: 'A 36×48" window that steadies quickly and measures well',
+  seed: 1,
+  baseWidthInches: 36,
+  baseHeightInches: 48,
+  passVariationInches: 1,
+  jambDepthInches: 3.5,
+  detectionJitter: 0.005,
+  jitterCurve: { start: 0.5, perFrame: -0.02, limit: 0.05 },
+  confidenceCurve: { start: 0.7, perFrame: 0.002, limit: 0.95 },
+  // The second pass is typically the best
+  captureConfidence: [
+    { min: 0.75, max: 0.85 },
+    { min: 0.85, max: 0.95 },
+    { min: 0.8, max: 0.95 },
+  ],
+  failures: NO_FAILURES,
+};
+
+export const mockScenarios: Record<MockScenarioId, MockScenario> = {
+  default: DEFAULT_SCENARIO,
+  'low-confidence': {
+    ...DEFAULT_SCENARIO,
+    id: 'low-confidence',
+    label: 'Low confidence',
+    description: 'Poor light: a capture is never suggested and every pass rates Not Great',
+    seed: 2,
+    confidenceCurve: { start: 0.4, perFrame: 0.001, limit: 0.55 },
+    captureConfidence: [{ min: 0.45, max: 0.6 }],
+  },
+  'never-stable': {
+    ...DEFAULT_SCENARIO,
+    id: 'never-stable',
+    label: 'Never stable',
+    description: 'Shaky hands: the frame never settles enough to suggest a capture',
+    seed: 3,
+    detectionJitter: 0.03,
+    jitterCurve: { start: 0.5, perFrame: -0.005, limit: 0.3 },
+  },
+  'detection-lost': {
+    ...DEFAULT_SCENARIO,
+    id: 'detection-lost',
+    label: 'Detection lost',
+    description: 'The window drops out of view for a few seconds, twice',
+    seed: 4,
+    failures: {
+      ...NO_FAILURES,
+      lostDetection: [
+        { from: 60, to: 180 },
+        { from: 400, to: 460 },
+      ],
+    },
+  },
+  'capture-fails': {
+    ...DEFAULT_SCENARIO,
+    id: 'capture-fails',
+    label: 'Capture fails',
+    description: 'The first and third capture attempts throw an error',
+    seed: 5,
+    failures: { ...NO_FAILURES, failingCaptures: [1, 3] },
+  },
+  'varying-passes': {
+    ...DEFAULT_SCENARIO,
+    id: 'varying-passes',
+    label: 'Varying passes',
+    description: 'Passes disagree by several inches and confidence swings widely',
+    seed: 6,
+    passVariationInches: 4,
+    captureConfidence: [{ min: 0.5, max: 0.95 }],
+  },
+  'picture-window': {
+    ...DEFAULT_SCENARIO,
+    id: 'picture-window',
+    label: 'Picture window',
+    description: 'A wide 96×60" window',
+    seed: 7,
+    baseWidthInches: 96,
+    baseHeightInches: 60,
+  },
+};
+
+export function isMockScenarioId(value: unknown): value is MockScenarioId {
+  return typeof value === 'string' && Object.hasOwn(mockScenarios, value);
+}
+
+/**
+ * Decide which scenario the mock provider runs from the query string and
+ * stored setting
+ */
+export function selectMockScenario(search: string, storedId: MockScenarioId | null): MockScenario {
+  const queryId = new URLSearchParams(search).get(SCENARIO_QUERY_PARAM);
+  if (isMockScenarioId(queryId)) return mockScenarios[queryId];
+  if (isMockScenarioId(storedId)) return mockScenarios[storedId];
+  return mockScenarios[DEFAULT_MOCK_SCENARIO];
+}
+
+/**
+ * Value of a curve after the given number of frames
+ */
+export function curveAt(curve: FrameCurve, frame: number): number {
+  const value = curve.start + curve.perFrame * frame;
+  return curve.perFrame < 0 ? Math.max(curve.limit, value) : Math.min(curve.limit, value);
+}
+
+export function isDetectionLost(failures: MockFailures, frame: number): boolean {
+  return failures.lostDetection.some((range) => frame >= range.from && frame <= range.to);
+}
+
+/**
+ * Small deterministic PRNG (mulberry32): the same seed gives the same
+ * sequence in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
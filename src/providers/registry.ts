@@ -0,0 +1,147 @@
+/**
+ * Provider registry and runtime selection
+ *
+ * Lists every available MeasurementProvider and decides which one to run:
+ * 1. `?provider=<type>` URL query parameter (for testing on devices)
+ * 2. Persisted choice from the settings screen
+ * 3. DEFAULT_PROVIDER
+ *
+ * A provider that is not supported in the current browser (e.g. web
+ * without getUserMedia, or replay with no trace loaded) falls back to the
+ * mock provider.
+ */
+
+import type { MeasurementProvider, ProviderType } from './types';
+import { MockProvider } from './MockProvider';
+import { WebMeasurementProvider } from './WebMeasurementProvider';
+import { PhotoMeasurementProvider } from './PhotoMeasurementProvider';
+import { ReplayProvider } from './ReplayProvider';
+import { getReplayTrace } from './trace';
+import { selectMockScenario } from './mockScenarios';
+import { getSettings } from '@/utils/settings';
+
+export const PROVIDER_QUERY_PARAM = 'provider';
+export const DEFAULT_PROVIDER: ProviderType = 'web';
+const FALLBACK_PROVIDER: ProviderType = 'mock';
+
+export interface ProviderRegistration {
+  type: ProviderType;
+  label: string;
+  description: string;
+  // Whether the provider can run in the current environment
+  isSupported: () => boolean;
+  // Shown instead of the generic message when it can't run
+  unsupportedReason?: string;
+  create: () => MeasurementProvider;
+}
+
+export type ProviderSelectionSource = 'query' | 'settings' | 'default';
+
+export interface ProviderSelection {
+  // Provider that will actually run
+  type: ProviderType;
+  // Provider that was asked for before any fallback
+  requested: ProviderType;
+  source: ProviderSelectionSource;
+  fellBack: boolean;
+}
+
+function hasGetUserMedia(): boolean {
+  return (
+    typeof navigator !== 'undefined' &&
+    typeof navigator.mediaDevices?.getUserMedia === 'function'
+  );
+}
+
+function currentSearch(): string {
+  return typeof window === 'undefined' ? '' : window.location.search;
+}
+
+function hasObjectUrls(): boolean {
+  return typeof URL !== 'undefined' && typeof URL.createObjectURL === 'function';
+}
+
+export const providerRegistry: Record<ProviderType, ProviderRegistration> = {
+  mock: {
+    type: 'mock',
+    label: 'Simulated',
+    description: 'Simulated measurements without a camera',
+    isSupported: () => true,
+    // Runs the scenario from the URL or settings (see mockScenarios)
+    create: () => new MockProvider(selectMockScenario(currentSearch(), getSettings().mockScenario)),
+  },
+  web: {
+    type: 'web',
+    label: 'Camera',
+    description: 'Live camera detection in the browser',
+    isSupported: hasGetUserMedia,
+    create: () => new WebMeasurementProvider(),
+  },
+  photo: {
+    type: 'photo',
+    label: 'Photo',
+    description: 'Measure from an existing photo of the window',
+    isSupported: hasObjectUrls,
+    create: () => new PhotoMeasurementProvider(),
+  },
+  replay: {
+    type: 'replay',
+    label: 'Replay',
+    description: 'Play back a recorded trace of another provider',
+    isSupported: () => getReplayTrace() !== null,
+    unsupportedReason: 'Load a trace below first',
+    create: () => new ReplayProvider(getReplayTrace()),
+  },
+};
+
+export function isProviderType(value: unknown): value is ProviderType {
+  return typeof value === 'string' && Object.hasOwn(providerRegistry, value);
+}
+
+/**
+ * Read a provider override from a URL query string (e.g. "?provider=mock")
+ */
+export function getQueryProviderType(search: string): ProviderType | null {
+  const value = new URLSearchParams(search).get(PROVIDER_QUERY_PARAM);
+  return isProviderType(value) ? value : null;
+}
+
+/**
+ * Decide which provider to run from the query string and stored setting
+ */
+export function selectProvider(
+  search: string,
+  storedType: ProviderType | null
+): ProviderSelection {
+  const queryType = getQueryProviderType(search);
+
+  let requested: ProviderType;
+  let source: ProviderSelectionSource;
+
+  if (queryType) {
+    requested = queryType;
+    source = 'query';
+  } else if (storedType && isProviderType(storedType)) {
+    requested = storedType;
+    source = 'settings';
+  } else {
+    requested = DEFAULT_PROVIDER;
+    source = 'default';
+  }
+
+  const supported = providerRegistry[requested].isSupported();
+
+  return {
+    type: supported ? requested : FALLBACK_PROVIDER,
+    requested,
+    source,
+    fellBack: !supported,
+  };
+}
+
+/**
+ * Create a provider instance for the given type
+ */
+export function createProvider(type: ProviderType): MeasurementProvider {
+  return providerRegistry[type].create();
+}
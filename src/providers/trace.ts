@@ -0,0 +1,141 @@
+/**
+ * Measurement provider traces
+ *
+ * A trace is what a provider returned during a session, per method in
+ * call order: RecordingProvider writes one and ReplayProvider plays it
+ * back, so a session from the field can be reproduced in jest or the
+ * browser. Each getDetection call is one frame, frozen or not, each
+ * freezeFrame call records the detection it held, and each capture call
+ * records its pass or the error it threw.
+ *
+ * The trace loaded for replay in the browser is kept in localStorage.
+ */
+
+import type {
+  CaptureOptions,
+  DetectionResult,
+  PassResult,
+  ProviderType,
+  StabilityState,
+} from './types';
+
+export const TRACE_VERSION = 1;
+
+const REPLAY_TRACE_KEY = 'wm-replay-trace';
+
+// A capture call: the pass it returned, or the message of the error it threw
+export type TraceCapture =
+  | { options: CaptureOptions; result: PassResult }
+  | { options: CaptureOptions; error: string };
+
+export interface MeasurementTrace {
+  version: number;
+  // Provider the trace was recorded from
+  providerType: ProviderType;
+  recordedAt: number;
+  detections: (DetectionResult | null)[];
+  stabilities: StabilityState[];
+  suggestions: boolean[];
+  // Detection held by each freezeFrame call, in order
+  freezes: (DetectionResult | null)[];
+  captures: TraceCapture[];
+}
+
+export type TraceParseResult = { ok: true; trace: MeasurementTrace } | { ok: false; error: string };
+
+export function createTrace(providerType: ProviderType): MeasurementTrace {
+  return {
+    version: TRACE_VERSION,
+    providerType,
+    recordedAt: Date.now(),
+    detections: [],
+    stabilities: [],
+    suggestions: [],
+    freezes: [],
+    captures: [],
+  };
+}
+
+export function exportTrace(trace: MeasurementTrace): string {
+  return JSON.stringify(trace);
+}
+
+function isCapture(value: unknown): value is TraceCapture {
+  if (typeof value !== 'object' || value === null) return false;
+  if ('error' in value) return typeof value.error === 'string';
+  const { result } = value as { result?: Partial<PassResult> | null };
+  return (
+    typeof result === 'object' &&
+    result !== null &&
+    typeof result.widthInInches === 'number' &&
+    typeof result.heightInInches === 'number' &&
+    typeof result.confidence === 'number'
+  );
+}
+
+/**
+ * Check a trace file and read it
+ */
+export function parseTrace(text: string): TraceParseResult {
+  let data: Partial<MeasurementTrace>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "This file isn't a trace (not JSON)" };
+  }
+
+  if (typeof data !== 'object' || data === null || typeof data.providerType !== 'string') {
+    return { ok: false, error: "This file isn't a trace" };
+  }
+  if (data.version !== TRACE_VERSION) {
+    return { ok: false, error: `Trace version ${data.version} isn't supported (expected ${TRACE_VERSION})` };
+  }
+  if (
+    !Array.isArray(data.detections) ||
+    !Array.isArray(data.stabilities) ||
+    !Array.isArray(data.suggestions) ||
+    !Array.isArray(data.freezes) ||
+    !Array.isArray(data.captures) ||
+    !data.captures.every(isCapture)
+  ) {
+    return { ok: false, error: 'This trace is incomplete or damaged' };
+  }
+
+  return { ok: true, trace: data as MeasurementTrace };
+}
+
+// undefined until read from storage
+let replayTrace: MeasurementTrace | null | undefined;
+
+/**
+ * Trace the replay provider plays in the browser (null if none loaded)
+ */
+export function getReplayTrace(): MeasurementTrace | null {
+  if (replayTrace === undefined) {
+    try {
+      const data = localStorage.getItem(REPLAY_TRACE_KEY);
+      const parsed = data ? parseTrace(data) : null;
+      replayTrace = parsed?.ok ? parsed.trace : null;
+    } catch {
+      replayTrace = null;
+    }
+  }
+  return replayTrace;
+}
+
+/**
+ * Load a trace for the replay provider (null unloads it)
+ */
+export function setReplayTrace(trace: MeasurementTrace | null): void {
+  replayTrace = trace;
+  try {
+    if (trace) {
+      localStorage.setItem(REPLAY_TRACE_KEY, exportTrace(trace));
+    } else {
+      localStorage.removeItem(REPLAY_TRACE_KEY);
+    }
+  } catch {
+    // Too large for localStorage; it still replays until reload
+    console.warn('Failed to save replay trace to localStorage');
+  }
+}
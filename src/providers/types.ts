@@ -4,28 +4,83 @@
 
 export type ConfidenceCategory = 'Excellent' | 'OK' | 'Not Great';
 
+// Identifiers for the providers known to the registry
+export type ProviderType = 'mock' | 'web' | 'photo' | 'replay';
+
+// Known-size objects the user can hold against the frame for scale
+export type ReferenceObjectId = 'credit-card' | 'us-letter' | 'dollar-bill' | 'printed-marker';
+
+// Where a pass came from: a camera provider, or sizes typed in by hand
+export type PassSource = 'camera' | 'manual';
+
 export interface FrameMetadata {
   pxToInchUsed: number | null;
+  // Reference object that produced pxToInchUsed (null/absent = no scale)
+  scaleReference?: ReferenceObjectId | null;
   detectorConfidence: number;
+  // True when the user dragged the detected corners before capture
+  cornersUserCorrected?: boolean;
   detectorMetadata?: Record<string, unknown>;
 }
 
+// Widths across the opening and heights down it, in inches
+export interface MeasurementPoints {
+  widths: [top: number, middle: number, bottom: number];
+  heights: [left: number, center: number, right: number];
+}
+
+// Corner-to-corner lengths of the opening, in inches
+export type Diagonals = [topLeftToBottomRight: number, topRightToBottomLeft: number];
+
 export interface PassResult {
   widthInInches: number;
   heightInInches: number;
+  // Three-point readings, when the provider measured each side separately
+  points?: MeasurementPoints;
+  // Measured diagonals, when the provider can see the opening's true shape
+  diagonals?: Diagonals;
+  // How the pass was taken (absent = camera)
+  source?: PassSource;
   confidence: number; // 0..1
   category: ConfidenceCategory;
   timestamp: number;
   frameMetadata: FrameMetadata;
 }
 
+export interface DetectionCorner {
+  // Normalized coordinates (0-1)
+  x: number;
+  y: number;
+  confidence: number; // 0..1
+}
+
+// Corners ordered top-left, top-right, bottom-right, bottom-left
+export type DetectionQuad = [DetectionCorner, DetectionCorner, DetectionCorner, DetectionCorner];
+
 export interface DetectionResult {
-  // Bounding box in normalized coordinates (0-1)
+  // Bounding box of the corners in normalized coordinates (0-1)
   x: number;
   y: number;
   width: number;
   height: number;
   confidence: number;
+  // Detected window corners (not necessarily axis-aligned)
+  corners: DetectionQuad;
+}
+
+// Frame held still so the user can review and adjust the corners
+export interface FrozenFrame {
+  // Still image of the frame (null for providers without imagery, e.g. mock)
+  image: HTMLCanvasElement | HTMLImageElement | null;
+  detection: DetectionResult;
+}
+
+export interface CaptureOptions {
+  // User-adjusted corners to measure instead of the detected ones
+  corners?: DetectionQuad;
+  // What the frame shows: the opening (default) or a side jamb's face for
+  // the depth step
+  subject?: 'opening' | 'jamb';
 }
 
 export interface StabilityState {
@@ -51,11 +106,25 @@ export interface MeasurementProvider {
   suggestCapture(): boolean;
 
   // Capture current measurement and return result
-  capture(): Promise<PassResult>;
+  capture(options?: CaptureOptions): Promise<PassResult>;
+
+  // Hold the current frame still for corner review (optional). Until
+  // unfreezeFrame() or capture(), detection and capture use the frozen frame
+  freezeFrame?(): FrozenFrame | null;
+  unfreezeFrame?(): void;
 
   // Get video element for display (null for mock)
   getVideoElement(): HTMLVideoElement | null;
 
+  // Load a still photo to measure instead of a live feed (optional)
+  loadImage?(file: File): Promise<boolean>;
+
+  // Get the loaded photo for display (null until one is loaded)
+  getImageElement?(): HTMLImageElement | null;
+
+  // Reference object to look for when scaling the next capture (optional)
+  setReferenceObject?(reference: ReferenceObjectId | null): void;
+
   // Provider type identifier
-  readonly providerType: 'mock' | 'web';
+  readonly providerType: ProviderType;
 }
@@ -0,0 +1,141 @@
+/**
+ * In-progress session persistence
+ *
+ * Mobile browsers discard backgrounded tabs, so the tutorial machine's
+ * state and context are saved to localStorage after every transition and
+ * offered back on the next load.
+ *
+ * Sessions are stamped with SESSION_VERSION. Bump it whenever a change to
+ * the machine's states or context would make an older session restore
+ * wrongly, and add a migration from the previous version. Context fields
+ * added since a session was saved take their initial values without a
+ * bump. Sessions that can't be migrated, or name a state the machine no
+ * longer has, are discarded.
+ */
+
+import { createActor, type SnapshotFrom } from 'xstate';
+import { tutorialMachine, type TutorialContext } from './tutorialMachine';
+
+const SESSION_KEY = 'wm-session';
+
+export const SESSION_VERSION = 1;
+
+export interface StoredSession {
+  version: number;
+  savedAt: number;
+  value: unknown;
+  context: Record<string, unknown>;
+}
+
+// Upgrades a session saved by version N to version N + 1
+export type SessionMigration = (session: StoredSession) => StoredSession;
+
+const SESSION_MIGRATIONS: Record<number, SessionMigration> = {};
+
+export type TutorialSnapshot = SnapshotFrom<typeof tutorialMachine>;
+
+export interface ResumableSession {
+  savedAt: number;
+  // Restored machine snapshot, ready to start an actor from
+  snapshot: TutorialSnapshot;
+}
+
+/**
+ * Whether a snapshot holds work worth offering back
+ *
+ * Nothing is lost before a mount type is chosen.
+ */
+export function hasProgress(snapshot: TutorialSnapshot): boolean {
+  return !snapshot.matches('home') && snapshot.context.mountType !== null;
+}
+
+/**
+ * Save the session after a transition, or drop it once there's nothing
+ * left to resume
+ */
+export function saveSession(snapshot: TutorialSnapshot): void {
+  if (!hasProgress(snapshot)) {
+    clearSession();
+    return;
+  }
+
+  const session: StoredSession = {
+    version: SESSION_VERSION,
+    savedAt: Date.now(),
+    value: snapshot.value,
+    context: { ...snapshot.context },
+  };
+
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch {
+    console.warn('Failed to save session to localStorage');
+  }
+}
+
+/**
+ * Bring a stored session up to date and rebuild the machine snapshot
+ *
+ * @returns null if the session is unreadable, from an unknown version or
+ * names a state that no longer exists
+ */
+export function restoreSession(
+  raw: unknown,
+  migrations: Record<number, SessionMigration> = SESSION_MIGRATIONS
+): ResumableSession | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  let session = raw as StoredSession;
+  if (typeof session.version !== 'number' || typeof session.context !== 'object' || session.context === null) {
+    return null;
+  }
+
+  while (session.version < SESSION_VERSION) {
+    const migrate = migrations[session.version];
+    if (!migrate) return null;
+    session = migrate(session);
+  }
+  if (session.version !== SESSION_VERSION) return null;
+
+  const initialContext = createActor(tutorialMachine).getSnapshot().context;
+  const context = { ...initialContext, ...session.context } as TutorialContext;
+
+  try {
+    const resolved = tutorialMachine.resolveState({
+      value: session.value as TutorialSnapshot['value'],
+      context,
+    });
+    return { savedAt: session.savedAt, snapshot: resolved };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Session left by the last visit, if it can still be resumed
+ *
+ * Unusable sessions are cleared so they aren't offered again.
+ */
+export function loadSession(): ResumableSession | null {
+  try {
+    const data = localStorage.getItem(SESSION_KEY);
+    if (!data) return null;
+
+    const session = restoreSession(JSON.parse(data));
+    if (!session || !hasProgress(session.snapshot)) {
+      clearSession();
+      return null;
+    }
+    return session;
+  } catch {
+    clearSession();
+    return null;
+  }
+}
+
+export function clearSession(): void {
+  try {
+    localStorage.removeItem(SESSION_KEY);
+  } catch {
+    // Storage unavailable; nothing to clear
+  }
+}
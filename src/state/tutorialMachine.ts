@@ -5,29 +5,79 @@
  * - home: Initial start screen
  * - permission: Camera permission request
  * - mountSelection: Inside/Outside mount choice
- * - pass1: First measurement capture
- * - pass2: Second measurement capture (required)
- * - pass3: Optional third capture if quality insufficient
+ * - threePointGuide: Where inside mount is measured (inside mount only)
+ * - manualEntry: Tape-measured sizes typed in, instead of camera passes
+ * - capture: Camera screen for the next pass
+ * - review: Result of the pass just taken; continues to another capture
+ *   until the passes converge (see shouldRecommendAdditionalPass)
+ * - measured: Routes finished passes to depth (inside mount) or completion
+ * - depth: Optional frame depth check (inside mount only)
  * - completion: Results display
+ * - verification: Optional tape measure check of a camera measurement
+ * - saveWindow: Label, room and notes for saving the result to the project
  * - details: Per-pass details view
+ * - project: Saved windows by room
  * - settings: Debug log management
+ * - debugViewer: Records from this device's debug log or an imported one
  */
 
 import { setup, assign } from 'xstate';
-import type { PassResult, ConfidenceCategory } from '@/providers/types';
+import type { PassResult, ConfidenceCategory, MeasurementPoints, ProviderType } from '@/providers/types';
+import {
+  aggregateResults,
+  shouldRecommendAdditionalPass,
+  DEFAULT_PASS_POLICY,
+  type PassPolicy,
+} from '@/utils/aggregate';
+import { DEFAULT_MOUNT_RULES, type MountRules, type MountType } from '@/utils/mount';
+import type { DepthResult } from '@/utils/depth';
+import type { Verification } from '@/utils/accuracy';
+import {
+  DEFAULT_AGGREGATION_STRATEGY,
+  type AggregationStrategyId,
+} from '@/utils/aggregationStrategies';
 
-// Mount type selection
-export type MountType = 'inside' | 'outside';
+export type { MountType };
+
+// How the opening is measured: camera passes, or typed-in tape readings
+export type EntryMode = 'camera' | 'manual';
 
 // Context for the state machine
 export interface TutorialContext {
   mountType: MountType | null;
+  entryMode: EntryMode;
+  // Opening to order size adjustments chosen with the mount type
+  mountRules: MountRules;
+  // How passes are combined into the final size
+  aggregationStrategy: AggregationStrategyId;
+  // How many passes to take, and when they agree well enough to stop
+  passPolicy: PassPolicy;
   passes: PassResult[];
+  // Provider that took the camera passes (null for typed-in sizes)
+  passProvider: ProviderType | null;
   cameraPermissionDenied: boolean;
   finalWidth: number | null;
   finalHeight: number | null;
+  // ± inches around the final opening size
+  finalWidthUncertainty: number | null;
+  finalHeightUncertainty: number | null;
+  // Passes the aggregation strategy left out as outliers
+  rejectedPasses: number[];
+  // Size to order once the mount rules are applied
+  finalOrderWidth: number | null;
+  finalOrderHeight: number | null;
+  // Three-point readings behind the final size (inside mount only)
+  finalPoints: MeasurementPoints | null;
+  // Diagonal difference in inches (null when not measured)
+  finalOutOfSquare: number | null;
+  // Frame depth check (inside mount, null until measured or if skipped)
+  depth: DepthResult | null;
+  // Comparison with a tape measure (null until checked)
+  verification: Verification | null;
   finalConfidence: number | null;
   finalCategory: ConfidenceCategory | null;
+  // Project window this measurement was saved as (null until saved)
+  savedWindowId: string | null;
 }
 
 // Events
@@ -36,123 +86,207 @@ export type TutorialEvent =
   | { type: 'PERMISSION_GRANTED' }
   | { type: 'PERMISSION_DENIED' }
   | { type: 'RETRY_PERMISSION' }
-  | { type: 'SELECT_MOUNT'; mountType: MountType }
-  | { type: 'CAPTURE_COMPLETE'; result: PassResult }
-  | { type: 'CONTINUE_TO_PASS2' }
-  | { type: 'CONTINUE_TO_PASS3' }
-  | { type: 'SKIP_PASS3' }
+  | { type: 'ENTER_MANUALLY' }
+  | { type: 'SELECT_MOUNT'; mountType: MountType; rules?: MountRules }
+  | { type: 'CONTINUE_TO_PASS1' }
+  | { type: 'CAPTURE_COMPLETE'; result: PassResult; providerType: ProviderType }
+  | { type: 'MANUAL_ENTRY_COMPLETE'; result: PassResult }
+  | { type: 'NEXT_PASS' }
+  | { type: 'SKIP_PASS' }
   | { type: 'VIEW_RESULTS' }
+  | { type: 'DEPTH_COMPLETE'; depth: DepthResult }
+  | { type: 'SKIP_DEPTH' }
+  | { type: 'MEASURE_DEPTH' }
+  | { type: 'VERIFY' }
+  | { type: 'VERIFICATION_COMPLETE'; verification: Verification }
+  | { type: 'SAVE_WINDOW' }
+  | { type: 'WINDOW_SAVED'; windowId: string; measureAnother?: boolean }
+  | { type: 'MEASURE_ANOTHER' }
+  | { type: 'VIEW_PROJECT' }
   | { type: 'VIEW_DETAILS' }
   | { type: 'VIEW_SETTINGS' }
+  | { type: 'VIEW_DEBUG_LOG' }
+  | { type: 'UPDATE_MOUNT_RULES'; rules: MountRules }
+  | { type: 'SET_AGGREGATION_STRATEGY'; strategy: AggregationStrategyId }
+  | { type: 'SET_PASS_POLICY'; policy: PassPolicy }
   | { type: 'BACK' }
   | { type: 'RESTART' };
 
 // Initial context
 const initialContext: TutorialContext = {
   mountType: null,
+  entryMode: 'camera',
+  mountRules: DEFAULT_MOUNT_RULES,
+  aggregationStrategy: DEFAULT_AGGREGATION_STRATEGY,
+  passPolicy: DEFAULT_PASS_POLICY,
   passes: [],
+  passProvider: null,
   cameraPermissionDenied: false,
   finalWidth: null,
   finalHeight: null,
+  finalWidthUncertainty: null,
+  finalHeightUncertainty: null,
+  rejectedPasses: [],
+  finalOrderWidth: null,
+  finalOrderHeight: null,
+  finalPoints: null,
+  finalOutOfSquare: null,
+  depth: null,
+  verification: null,
   finalConfidence: null,
   finalCategory: null,
+  savedWindowId: null,
 };
 
-// Helper to calculate final results from passes
-function calculateFinalResults(passes: PassResult[]): {
-  width: number;
-  height: number;
-  confidence: number;
-  category: ConfidenceCategory;
-} {
-  if (passes.length === 0) {
-    return { width: 0, height: 0, confidence: 0, category: 'Not Great' };
-  }
-
-  // Use max width and max height across all passes
-  const width = Math.max(...passes.map((p) => p.widthInInches));
-  const height = Math.max(...passes.map((p) => p.heightInInches));
-
-  // Average confidence
-  const avgConfidence =
-    passes.reduce((sum, p) => sum + p.confidence, 0) / passes.length;
-
-  // Determine category based on average confidence
-  let category: ConfidenceCategory;
-  if (avgConfidence >= 0.85) {
-    category = 'Excellent';
-  } else if (avgConfidence >= 0.65) {
-    category = 'OK';
-  } else {
-    category = 'Not Great';
-  }
-
-  return { width, height, confidence: avgConfidence, category };
-}
-
-// Check if we should suggest pass 3
-function shouldSuggestPass3(passes: PassResult[]): boolean {
-  if (passes.length < 2) return false;
-  const avgConfidence =
-    passes.reduce((sum, p) => sum + p.confidence, 0) / passes.length;
-  return avgConfidence < 0.75;
-}
-
 export const tutorialMachine = setup({
   types: {
     context: {} as TutorialContext,
     events: {} as TutorialEvent,
   },
   actions: {
-    setMountType: assign({
-      mountType: (_, params: { mountType: MountType }) => params.mountType,
-    }),
+    setMountType: assign((_, params: { mountType: MountType; rules?: MountRules }) => ({
+      mountType: params.mountType,
+      mountRules: params.rules ?? DEFAULT_MOUNT_RULES,
+    })),
     addPassResult: assign({
       passes: ({ context }, params: { result: PassResult }) => [
         ...context.passes,
         params.result,
       ],
     }),
+    setPassProvider: assign({
+      passProvider: (_, params: { providerType: ProviderType }) => params.providerType,
+    }),
+    setAggregationStrategy: assign({
+      aggregationStrategy: (_, params: { strategy: AggregationStrategyId }) => params.strategy,
+    }),
+    setPassPolicy: assign({
+      passPolicy: (_, params: { policy: PassPolicy }) => params.policy,
+    }),
+    setMountRules: assign({
+      mountRules: (_, params: { rules: MountRules }) => params.rules,
+    }),
+    setDepth: assign({
+      depth: (_, params: { depth: DepthResult }) => params.depth,
+    }),
+    setVerification: assign({
+      verification: (_, params: { verification: Verification }) => params.verification,
+    }),
+    removeLastPass: assign({
+      passes: ({ context }) => context.passes.slice(0, -1),
+    }),
     calculateFinal: assign(({ context }) => {
-      const results = calculateFinalResults(context.passes);
+      const results = aggregateResults(context.passes, {
+        mountType: context.mountType ?? 'outside',
+        rules: context.mountRules,
+        strategy: context.aggregationStrategy,
+      });
       return {
-        finalWidth: results.width,
-        finalHeight: results.height,
-        finalConfidence: results.confidence,
+        finalWidth: results.widthInches,
+        finalHeight: results.heightInches,
+        finalWidthUncertainty: results.widthUncertaintyInches,
+        finalHeightUncertainty: results.heightUncertaintyInches,
+        rejectedPasses: results.rejectedPasses,
+        finalOrderWidth: results.orderWidthInches,
+        finalOrderHeight: results.orderHeightInches,
+        finalPoints: results.points,
+        finalOutOfSquare: results.outOfSquareInches,
+        finalConfidence: results.averageConfidence,
         finalCategory: results.category,
       };
     }),
+    setSavedWindow: assign({
+      savedWindowId: (_, params: { windowId: string }) => params.windowId,
+    }),
+    setEntryMode: assign({
+      entryMode: (_, params: { entryMode: EntryMode }) => params.entryMode,
+    }),
     setPermissionDenied: assign({
       cameraPermissionDenied: () => true,
     }),
     clearPermissionDenied: assign({
       cameraPermissionDenied: () => false,
     }),
-    resetContext: assign(() => initialContext),
+    // The strategy and pass policy are preferences rather than part of a measurement
+    resetContext: assign(({ context }) => ({
+      ...initialContext,
+      aggregationStrategy: context.aggregationStrategy,
+      passPolicy: context.passPolicy,
+    })),
+    // The next window in a project is measured the same way as the last
+    resetForNextWindow: assign(({ context }) => ({
+      ...initialContext,
+      entryMode: context.entryMode,
+      aggregationStrategy: context.aggregationStrategy,
+      passPolicy: context.passPolicy,
+    })),
   },
   guards: {
-    shouldSuggestPass3: ({ context }) => shouldSuggestPass3(context.passes),
-    hasLowConfidence: ({ context }) => {
-      const results = calculateFinalResults(context.passes);
-      return results.confidence < 0.75;
-    },
+    isInsideMount: ({ context }) => context.mountType === 'inside',
+    isManualEntry: ({ context }) => context.entryMode === 'manual',
+    // Typed-in sizes already are tape measurements
+    canVerify: ({ context }) => context.entryMode === 'camera' && context.passes.length > 0,
+    isSaved: ({ context }) => context.savedWindowId !== null,
+    needsDepth: ({ context }) => context.mountType === 'inside' && context.depth === null,
+    hasPasses: ({ context }) => context.passes.length > 0,
+    hasEnoughPasses: ({ context }) => context.passes.length >= context.passPolicy.minPasses,
+    // Passes haven't converged on a size and the pass limit isn't reached
+    needsAnotherPass: ({ context }) =>
+      shouldRecommendAdditionalPass(context.passes, {
+        mountType: context.mountType ?? 'outside',
+        rules: context.mountRules,
+        strategy: context.aggregationStrategy,
+        policy: context.passPolicy,
+      }).recommend,
   },
 }).createMachine({
   id: 'tutorial',
   initial: 'home',
   context: initialContext,
+  on: {
+    SET_AGGREGATION_STRATEGY: [
+      {
+        // Re-combine a finished measurement with the new strategy
+        guard: ({ context }) => context.finalWidth !== null,
+        actions: [
+          { type: 'setAggregationStrategy', params: ({ event }) => ({ strategy: event.strategy }) },
+          'calculateFinal',
+        ],
+      },
+      {
+        actions: [{ type: 'setAggregationStrategy', params: ({ event }) => ({ strategy: event.strategy }) }],
+      },
+    ],
+    SET_PASS_POLICY: {
+      actions: [{ type: 'setPassPolicy', params: ({ event }) => ({ policy: event.policy }) }],
+    },
+  },
   states: {
     home: {
       on: {
         START: 'permission',
+        VIEW_PROJECT: 'project',
         VIEW_SETTINGS: 'settings',
       },
     },
     permission: {
       on: {
-        PERMISSION_GRANTED: {
+        PERMISSION_GRANTED: [
+          {
+            // Back to a resumed measurement whose camera failed to start
+            guard: 'hasPasses',
+            target: 'capture',
+            actions: ['clearPermissionDenied', { type: 'setEntryMode', params: { entryMode: 'camera' } }],
+          },
+          {
+            target: 'mountSelection',
+            actions: ['clearPermissionDenied', { type: 'setEntryMode', params: { entryMode: 'camera' } }],
+          },
+        ],
+        // No camera needed: type in sizes from a tape measure
+        ENTER_MANUALLY: {
           target: 'mountSelection',
-          actions: ['clearPermissionDenied'],
+          actions: [{ type: 'setEntryMode', params: { entryMode: 'manual' } }],
         },
         PERMISSION_DENIED: {
           actions: ['setPermissionDenied'],
@@ -160,92 +294,154 @@ export const tutorialMachine = setup({
         RETRY_PERMISSION: {
           actions: ['clearPermissionDenied'],
         },
-        BACK: 'home',
+        // Leaving drops a resumed measurement the camera couldn't continue
+        BACK: {
+          target: 'home',
+          actions: ['resetContext'],
+        },
       },
     },
     mountSelection: {
       on: {
-        SELECT_MOUNT: {
-          target: 'pass1',
-          actions: [
-            {
-              type: 'setMountType',
-              params: ({ event }) => ({ mountType: event.mountType }),
-            },
-          ],
-        },
+        SELECT_MOUNT: [
+          {
+            // Inside mount is measured at three points per side
+            guard: ({ event }) => event.mountType === 'inside',
+            target: 'threePointGuide',
+            actions: [
+              {
+                type: 'setMountType',
+                params: ({ event }) => ({ mountType: event.mountType, rules: event.rules }),
+              },
+            ],
+          },
+          {
+            guard: 'isManualEntry',
+            target: 'manualEntry',
+            actions: [
+              {
+                type: 'setMountType',
+                params: ({ event }) => ({ mountType: event.mountType, rules: event.rules }),
+              },
+            ],
+          },
+          {
+            target: 'capture',
+            actions: [
+              {
+                type: 'setMountType',
+                params: ({ event }) => ({ mountType: event.mountType, rules: event.rules }),
+              },
+            ],
+          },
+        ],
         BACK: 'permission',
       },
     },
-    pass1: {
+    threePointGuide: {
+      on: {
+        CONTINUE_TO_PASS1: [{ guard: 'isManualEntry', target: 'manualEntry' }, { target: 'capture' }],
+        BACK: 'mountSelection',
+      },
+    },
+    capture: {
       on: {
         CAPTURE_COMPLETE: {
-          target: 'pass1Review',
+          target: 'review',
           actions: [
             {
               type: 'addPassResult',
               params: ({ event }) => ({ result: event.result }),
             },
+            {
+              type: 'setPassProvider',
+              params: ({ event }) => ({ providerType: event.providerType }),
+            },
           ],
         },
-        BACK: 'mountSelection',
-      },
-    },
-    pass1Review: {
-      on: {
-        CONTINUE_TO_PASS2: 'pass2',
-        BACK: 'pass1',
+        // Leave out an extra pass once enough have been taken
+        SKIP_PASS: {
+          guard: 'hasEnoughPasses',
+          target: 'measured',
+          actions: ['calculateFinal'],
+        },
+        // The camera didn't start again for a resumed measurement
+        PERMISSION_DENIED: {
+          target: 'permission',
+          actions: ['setPermissionDenied'],
+        },
+        BACK: [
+          { guard: 'hasPasses', target: 'review' },
+          { guard: 'isInsideMount', target: 'threePointGuide' },
+          { target: 'mountSelection' },
+        ],
       },
     },
-    pass2: {
+    manualEntry: {
       on: {
-        CAPTURE_COMPLETE: {
-          target: 'pass2Review',
+        // A tape reading stands on its own, so it goes straight to results
+        MANUAL_ENTRY_COMPLETE: {
+          target: 'measured',
           actions: [
             {
               type: 'addPassResult',
               params: ({ event }) => ({ result: event.result }),
             },
+            'calculateFinal',
           ],
         },
-        BACK: 'pass1Review',
+        BACK: [{ guard: 'isInsideMount', target: 'threePointGuide' }, { target: 'mountSelection' }],
       },
     },
-    pass2Review: {
+    review: {
       on: {
-        CONTINUE_TO_PASS3: 'pass3',
-        SKIP_PASS3: {
-          target: 'completion',
-          actions: ['calculateFinal'],
+        NEXT_PASS: {
+          guard: 'needsAnotherPass',
+          target: 'capture',
         },
         VIEW_RESULTS: {
-          target: 'completion',
+          guard: 'hasEnoughPasses',
+          target: 'measured',
           actions: ['calculateFinal'],
         },
+        // Going back retakes the pass, so drop the result under review
+        BACK: {
+          target: 'capture',
+          actions: ['removeLastPass'],
+        },
       },
     },
-    pass3: {
+    measured: {
+      always: [{ guard: 'needsDepth', target: 'depth' }, { target: 'completion' }],
+    },
+    depth: {
       on: {
-        CAPTURE_COMPLETE: {
+        DEPTH_COMPLETE: {
           target: 'completion',
-          actions: [
-            {
-              type: 'addPassResult',
-              params: ({ event }) => ({ result: event.result }),
-            },
-            'calculateFinal',
-          ],
-        },
-        SKIP_PASS3: {
-          target: 'completion',
-          actions: ['calculateFinal'],
+          actions: [{ type: 'setDepth', params: ({ event }) => ({ depth: event.depth }) }],
         },
-        BACK: 'pass2Review',
+        SKIP_DEPTH: 'completion',
       },
     },
     completion: {
       on: {
+        MEASURE_DEPTH: {
+          guard: 'isInsideMount',
+          target: 'depth',
+        },
+        VERIFY: {
+          guard: 'canVerify',
+          target: 'verification',
+        },
+        SAVE_WINDOW: 'saveWindow',
+        // Only once this window is safely in the project
+        MEASURE_ANOTHER: {
+          guard: 'isSaved',
+          target: 'mountSelection',
+          actions: ['resetForNextWindow'],
+        },
         VIEW_DETAILS: 'details',
+        VIEW_PROJECT: 'project',
         VIEW_SETTINGS: 'settings',
         RESTART: {
           target: 'home',
@@ -253,13 +449,65 @@ export const tutorialMachine = setup({
         },
       },
     },
+    verification: {
+      on: {
+        VERIFICATION_COMPLETE: {
+          target: 'completion',
+          actions: [{ type: 'setVerification', params: ({ event }) => ({ verification: event.verification }) }],
+        },
+        BACK: 'completion',
+      },
+    },
+    saveWindow: {
+      on: {
+        WINDOW_SAVED: [
+          {
+            guard: ({ event }) => event.measureAnother === true,
+            target: 'mountSelection',
+            actions: ['resetForNextWindow'],
+          },
+          {
+            target: 'completion',
+            actions: [{ type: 'setSavedWindow', params: ({ event }) => ({ windowId: event.windowId }) }],
+          },
+        ],
+        BACK: 'completion',
+      },
+    },
     details: {
       on: {
         BACK: 'completion',
       },
     },
+    project: {
+      on: {
+        BACK: [
+          {
+            guard: ({ context }) => context.finalWidth !== null,
+            target: 'completion',
+          },
+          {
+            target: 'home',
+          },
+        ],
+      },
+    },
     settings: {
       on: {
+        VIEW_DEBUG_LOG: 'debugViewer',
+        UPDATE_MOUNT_RULES: [
+          {
+            // Re-price a finished measurement with the new rules
+            guard: ({ context }) => context.finalWidth !== null,
+            actions: [
+              { type: 'setMountRules', params: ({ event }) => ({ rules: event.rules }) },
+              'calculateFinal',
+            ],
+          },
+          {
+            actions: [{ type: 'setMountRules', params: ({ event }) => ({ rules: event.rules }) }],
+          },
+        ],
         BACK: [
           {
             guard: ({ context }) => context.finalWidth !== null,
@@ -271,5 +519,10 @@ export const tutorialMachine = setup({
         ],
       },
     },
+    debugViewer: {
+      on: {
+        BACK: 'settings',
+      },
+    },
   },
 });
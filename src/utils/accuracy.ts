@@ -0,0 +1,153 @@
+/**
+ * Accuracy tracking against a tape measure
+ *
+ * After a measurement the user can enter what a tape measure says. Errors
+ * are kept signed (camera minus tape, so positive means the camera read
+ * large) per pass and for the final size, and logged so accuracy can be
+ * reported across many windows.
+ */
+
+import type { ConfidenceCategory, PassResult, ProviderType } from '@/providers/types';
+import { passPoints, type MountType } from './mount';
+
+// Tape-measured opening, in inches. For inside mount, the narrowest width
+// and shortest height
+export interface TapeMeasurement {
+  widthInches: number;
+  heightInches: number;
+}
+
+// Camera minus tape, in inches
+export interface DimensionError {
+  widthInches: number;
+  heightInches: number;
+}
+
+export interface PassError extends DimensionError {
+  category: ConfidenceCategory;
+}
+
+export interface Verification {
+  mountType: MountType;
+  tape: TapeMeasurement;
+  // Error of the final opening size
+  aggregate: DimensionError;
+  // Error of each pass on its own
+  passes: PassError[];
+}
+
+/**
+ * Size a pass reports for comparison with the tape
+ *
+ * Inside mount is taped at its tightest spot, so passes are compared by
+ * their smallest point.
+ */
+function passSize(pass: PassResult, mountType: MountType): TapeMeasurement {
+  if (mountType === 'outside') {
+    return { widthInches: pass.widthInInches, heightInches: pass.heightInInches };
+  }
+
+  const points = passPoints(pass);
+  return { widthInches: Math.min(...points.widths), heightInches: Math.min(...points.heights) };
+}
+
+/**
+ * Compare a finished measurement with the tape
+ *
+ * @param final - Opening size the passes were combined into
+ */
+export function verifyMeasurement(
+  passes: PassResult[],
+  final: TapeMeasurement,
+  mountType: MountType,
+  tape: TapeMeasurement
+): Verification {
+  return {
+    mountType,
+    tape,
+    aggregate: {
+      widthInches: final.widthInches - tape.widthInches,
+      heightInches: final.heightInches - tape.heightInches,
+    },
+    passes: passes.map((pass) => {
+      const size = passSize(pass, mountType);
+      return {
+        widthInches: size.widthInches - tape.widthInches,
+        heightInches: size.heightInches - tape.heightInches,
+        category: pass.category,
+      };
+    }),
+  };
+}
+
+// A logged verification and the provider that took its passes
+export interface VerificationSample {
+  verification: Verification;
+  providerType: ProviderType | null;
+}
+
+export interface AccuracyStats {
+  // Number of dimension readings (each pass contributes a width and height)
+  count: number;
+  meanErrorInches: number;
+  p95ErrorInches: number;
+}
+
+export interface AccuracyGroup extends AccuracyStats {
+  label: string;
+}
+
+export interface AccuracyReport {
+  windows: number;
+  // Final sizes against the tape
+  overall: AccuracyStats;
+  // Single passes against the tape, grouped
+  byProvider: AccuracyGroup[];
+  byMountType: AccuracyGroup[];
+  byCategory: AccuracyGroup[];
+}
+
+/**
+ * Mean and 95th percentile (nearest rank) of absolute errors
+ */
+export function accuracyStats(errors: number[]): AccuracyStats {
+  if (errors.length === 0) return { count: 0, meanErrorInches: 0, p95ErrorInches: 0 };
+
+  const sorted = errors.map(Math.abs).sort((a, b) => a - b);
+  const rank = Math.ceil(0.95 * sorted.length);
+  return {
+    count: sorted.length,
+    meanErrorInches: sorted.reduce((sum, e) => sum + e, 0) / sorted.length,
+    p95ErrorInches: sorted[rank - 1],
+  };
+}
+
+function groupStats(samples: { key: string; errors: number[] }[]): AccuracyGroup[] {
+  const groups = new Map<string, number[]>();
+  samples.forEach(({ key, errors }) => groups.set(key, [...(groups.get(key) ?? []), ...errors]));
+  return [...groups.entries()].map(([label, errors]) => ({ label, ...accuracyStats(errors) }));
+}
+
+/**
+ * Summarize logged verifications
+ */
+export function accuracyReport(samples: VerificationSample[]): AccuracyReport {
+  const passSamples = samples.flatMap(({ verification, providerType }) =>
+    verification.passes.map((pass) => ({
+      provider: providerType ?? 'unknown',
+      mountType: verification.mountType,
+      category: pass.category,
+      errors: [pass.widthInches, pass.heightInches],
+    }))
+  );
+
+  return {
+    windows: samples.length,
+    overall: accuracyStats(
+      samples.flatMap(({ verification }) => [verification.aggregate.widthInches, verification.aggregate.heightInches])
+    ),
+    byProvider: groupStats(passSamples.map((s) => ({ key: s.provider, errors: s.errors }))),
+    byMountType: groupStats(passSamples.map((s) => ({ key: s.mountType, errors: s.errors }))),
+    byCategory: groupStats(passSamples.map((s) => ({ key: s.category, errors: s.errors }))),
+  };
+}
@@ -2,14 +2,73 @@
  * Aggregation utilities for combining pass results
  */
 
-import type { PassResult, ConfidenceCategory } from '@/providers/types';
-import { roundUpToSixteenth } from './format';
+import type { PassResult, ConfidenceCategory, Diagonals, MeasurementPoints } from '@/providers/types';
+import { categorizeConfidence, getConfidencePolicy } from './confidence';
+import {
+  applyMountRules,
+  outOfSquareAmount,
+  passPoints,
+  smallestPoint,
+  DEFAULT_MOUNT_RULES,
+  type MountRules,
+  type MountType,
+} from './mount';
+import {
+  combineReadings,
+  DEFAULT_AGGREGATION_STRATEGY,
+  type AggregationStrategyId,
+  type Estimate,
+} from './aggregationStrategies';
+
+export interface AggregationOptions {
+  mountType?: MountType;
+  rules?: MountRules;
+  strategy?: AggregationStrategyId;
+}
+
+// When to stop asking for passes
+export interface PassPolicy {
+  // Stop once both dimensions are known to within ± this many inches
+  targetUncertaintyInches: number;
+  // Passes needed before results can be shown
+  minPasses: number;
+  // Never ask for more than this many passes
+  maxPasses: number;
+}
+
+export const DEFAULT_PASS_POLICY: PassPolicy = {
+  targetUncertaintyInches: 1 / 8,
+  minPasses: 2,
+  maxPasses: 5,
+};
+
+export interface ConvergenceOptions extends AggregationOptions {
+  policy?: PassPolicy;
+}
 
 export interface AggregatedResult {
-  // Final dimensions (max across passes, rounded up to 1/16")
+  // Opening size, unrounded (formatInchesFraction rounds it for display)
   widthInches: number;
   heightInches: number;
 
+  // ± inches around the unrounded opening size
+  widthUncertaintyInches: number;
+  heightUncertaintyInches: number;
+
+  // Size to order once the mount rules are applied
+  orderWidthInches: number;
+  orderHeightInches: number;
+
+  // Per-point estimates across passes (inside mount only)
+  points: MeasurementPoints | null;
+
+  // Diagonal difference in inches (null when no pass measured diagonals)
+  outOfSquareInches: number | null;
+
+  // Strategy the passes were combined with, and the passes it left out
+  strategy: AggregationStrategyId;
+  rejectedPasses: number[];
+
   // Confidence metrics
   averageConfidence: number;
   category: ConfidenceCategory;
@@ -19,19 +78,84 @@ export interface AggregatedResult {
   passes: PassResult[];
 }
 
+type Triple = [number, number, number];
+
+/**
+ * Combine one dimension read off every pass
+ */
+function combineDimension(
+  passes: PassResult[],
+  read: (pass: PassResult) => number,
+  strategy: AggregationStrategyId
+): Estimate {
+  return combineReadings(
+    passes.map((p) => ({ value: read(p), confidence: p.confidence })),
+    strategy
+  );
+}
+
+/**
+ * Estimate each of the three points across passes and keep the smallest
+ */
+function combineSmallestPoint(
+  passes: PassResult[],
+  read: (points: MeasurementPoints) => Triple,
+  strategy: AggregationStrategyId
+): { estimate: Estimate; points: Triple } {
+  const estimates = [0, 1, 2].map((i) =>
+    combineDimension(passes, (p) => read(passPoints(p))[i], strategy)
+  );
+  const points: Triple = [estimates[0].value, estimates[1].value, estimates[2].value];
+  return { estimate: estimates[smallestPoint(points)], points };
+}
+
+/**
+ * Difference between the mean diagonals of the passes that measured them
+ */
+function combineOutOfSquare(passes: PassResult[]): number | null {
+  const measured = passes.map((p) => p.diagonals).filter((d): d is Diagonals => d !== undefined);
+  if (measured.length === 0) return null;
+
+  const meanAt = (i: number) => measured.reduce((sum, d) => sum + d[i], 0) / measured.length;
+  return outOfSquareAmount([meanAt(0), meanAt(1)]);
+}
+
 /**
  * Aggregate multiple pass results into final measurements
  *
  * Per spec:
- * - Final width = max of per-pass widths
- * - Final height = max of per-pass heights
- * - Round final dimensions UP to nearest 1/16"
+ * - Each dimension is combined across passes with the chosen strategy
+ *   (max by default, see aggregationStrategies)
+ * - Outside mount: final width/height = combined per-pass widths/heights
+ * - Inside mount: each of the three widths/heights is combined across
+ *   passes, then the narrowest width and shortest height are reported
+ * - Sizes stay unrounded: they are rounded UP once, when shown, in the
+ *   user's unit and precision (see formatInchesFraction)
+ * - Order size = opening adjusted by the mount rules (see applyMountRules)
+ * - Out of square = difference of the mean diagonals
  */
-export function aggregateResults(passes: PassResult[]): AggregatedResult {
+export function aggregateResults(
+  passes: PassResult[],
+  options: AggregationOptions = {}
+): AggregatedResult {
+  const {
+    mountType = 'outside',
+    rules = DEFAULT_MOUNT_RULES,
+    strategy = DEFAULT_AGGREGATION_STRATEGY,
+  } = options;
+
   if (passes.length === 0) {
     return {
       widthInches: 0,
       heightInches: 0,
+      widthUncertaintyInches: 0,
+      heightUncertaintyInches: 0,
+      orderWidthInches: 0,
+      orderHeightInches: 0,
+      points: null,
+      outOfSquareInches: null,
+      strategy,
+      rejectedPasses: [],
       averageConfidence: 0,
       category: 'Not Great',
       passCount: 0,
@@ -39,31 +163,45 @@ export function aggregateResults(passes: PassResult[]): AggregatedResult {
     };
   }
 
-  // Get max width and height
-  const maxWidth = Math.max(...passes.map((p) => p.widthInInches));
-  const maxHeight = Math.max(...passes.map((p) => p.heightInInches));
+  let width: Estimate;
+  let height: Estimate;
+  let points: MeasurementPoints | null = null;
+
+  if (mountType === 'inside') {
+    // The shade has to clear the tightest spot in the opening
+    const widths = combineSmallestPoint(passes, (p) => p.widths, strategy);
+    const heights = combineSmallestPoint(passes, (p) => p.heights, strategy);
+    width = widths.estimate;
+    height = heights.estimate;
+    points = { widths: widths.points, heights: heights.points };
+  } else {
+    width = combineDimension(passes, (p) => p.widthInInches, strategy);
+    height = combineDimension(passes, (p) => p.heightInInches, strategy);
+  }
 
-  // Round up to nearest 1/16"
-  const finalWidth = roundUpToSixteenth(maxWidth);
-  const finalHeight = roundUpToSixteenth(maxHeight);
+  // Kept unrounded: sizes are rounded once, when shown, in the user's format
+  const finalWidth = width.value;
+  const finalHeight = height.value;
+  const order = applyMountRules({ widthInches: finalWidth, heightInches: finalHeight }, mountType, rules);
 
   // Calculate average confidence
   const avgConfidence =
     passes.reduce((sum, p) => sum + p.confidence, 0) / passes.length;
 
   // Determine category based on average confidence
-  let category: ConfidenceCategory;
-  if (avgConfidence >= 0.85) {
-    category = 'Excellent';
-  } else if (avgConfidence >= 0.65) {
-    category = 'OK';
-  } else {
-    category = 'Not Great';
-  }
+  const category = categorizeConfidence(avgConfidence);
 
   return {
     widthInches: finalWidth,
     heightInches: finalHeight,
+    widthUncertaintyInches: width.uncertainty,
+    heightUncertaintyInches: height.uncertainty,
+    orderWidthInches: order.widthInches,
+    orderHeightInches: order.heightInches,
+    points,
+    outOfSquareInches: combineOutOfSquare(passes),
+    strategy,
+    rejectedPasses: [...new Set([...width.rejected, ...height.rejected])].sort((a, b) => a - b),
     averageConfidence: avgConfidence,
     category,
     passCount: passes.length,
@@ -73,42 +211,47 @@ export function aggregateResults(passes: PassResult[]): AggregatedResult {
 
 /**
  * Check if results suggest an additional pass would be helpful
+ *
+ * Passes are requested until the ± uncertainty of both dimensions is
+ * within the policy's target, or the maximum pass count is reached.
  */
 export function shouldRecommendAdditionalPass(
-  passes: PassResult[]
+  passes: PassResult[],
+  options: ConvergenceOptions = {}
 ): { recommend: boolean; reason: string } {
+  const policy = options.policy ?? DEFAULT_PASS_POLICY;
+
   if (passes.length === 0) {
     return { recommend: false, reason: 'No passes yet' };
   }
 
-  if (passes.length >= 3) {
+  if (passes.length >= policy.maxPasses) {
     return { recommend: false, reason: 'Maximum passes reached' };
   }
 
+  if (passes.length < policy.minPasses) {
+    return { recommend: true, reason: `At least ${policy.minPasses} passes are needed` };
+  }
+
   const avgConfidence =
     passes.reduce((sum, p) => sum + p.confidence, 0) / passes.length;
 
-  if (avgConfidence < 0.65) {
+  if (avgConfidence < getConfidencePolicy().additionalPass) {
     return {
       recommend: true,
       reason: 'Low confidence - an additional pass may improve accuracy',
     };
   }
 
-  // Check if measurements vary significantly between passes
-  if (passes.length >= 2) {
-    const widths = passes.map((p) => p.widthInInches);
-    const heights = passes.map((p) => p.heightInInches);
-
-    const widthVariance = Math.max(...widths) - Math.min(...widths);
-    const heightVariance = Math.max(...heights) - Math.min(...heights);
+  // Check if the passes agree closely enough to pin the size down
+  const results = aggregateResults(passes, options);
+  const uncertainty = Math.max(results.widthUncertaintyInches, results.heightUncertaintyInches);
 
-    if (widthVariance > 1 || heightVariance > 1) {
-      return {
-        recommend: true,
-        reason: 'Measurements vary between passes - an additional pass may help',
-      };
-    }
+  if (uncertainty > policy.targetUncertaintyInches) {
+    return {
+      recommend: true,
+      reason: 'Measurements vary between passes - an additional pass may help',
+    };
   }
 
   return { recommend: false, reason: 'Measurements look good' };
@@ -0,0 +1,185 @@
+/**
+ * Aggregation strategies for combining one dimension across passes
+ *
+ * Each strategy turns the per-pass readings of a single dimension (e.g.
+ * every pass's width) into an estimate with a ± uncertainty, and reports
+ * any readings it threw out. The uncertainty is always a standard error,
+ * so it shrinks as consistent passes are added whichever strategy is
+ * used. aggregateResults picks one by ID:
+ * - max: largest reading (the original rule; never undersizes, but one bad
+ *   pass inflates the order)
+ * - weighted-mean: mean weighted by pass confidence
+ * - median: middle reading, unmoved by a single wild pass
+ * - trimmed-max: largest reading once the single highest is dropped
+ * - mad: weighted mean after rejecting readings far from the median, in
+ *   units of the median absolute deviation
+ */
+
+export type AggregationStrategyId = 'max' | 'weighted-mean' | 'median' | 'trimmed-max' | 'mad';
+
+export const DEFAULT_AGGREGATION_STRATEGY: AggregationStrategyId = 'max';
+
+// Never claim to know a size better than 1/16", whatever precision it is
+// shown to: that is about the finest a camera pass resolves at window
+// distances and the finest a tape is usually read to, so agreement beyond
+// it is luck. Kept apart from the display format so that switching to
+// 1/32" doesn't change when passes count as converged.
+export const MIN_UNCERTAINTY_INCHES = 1 / 16;
+
+// Readings further than this many scaled MADs from the median are outliers
+export const MAD_REJECTION_THRESHOLD = 3;
+
+// MAD × this estimates the standard deviation of normally distributed data
+const MAD_TO_SIGMA = 1.4826;
+
+// Standard error of the median relative to the mean's, for normal data
+const MEDIAN_EFFICIENCY = 1.2533;
+
+export interface Reading {
+  value: number;
+  confidence: number;
+}
+
+export interface Estimate {
+  value: number;
+  // ± inches, at least MIN_UNCERTAINTY_INCHES
+  uncertainty: number;
+  // Indices into the readings of those left out of the estimate
+  rejected: number[];
+}
+
+export interface AggregationStrategy {
+  id: AggregationStrategyId;
+  label: string;
+  description: string;
+  // Readings is never empty
+  combine: (readings: Reading[]) => Estimate;
+}
+
+function estimate(value: number, uncertainty: number, rejected: number[] = []): Estimate {
+  return { value, uncertainty: Math.max(MIN_UNCERTAINTY_INCHES, uncertainty), rejected };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Sample standard deviation (0 for fewer than two values)
+ */
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Standard error of the mean (0 for fewer than two values)
+ *
+ * Stands in for the standard error of max and trimmed max: they track the
+ * largest reading, but how well it is known improves with more passes in
+ * the same way.
+ */
+function standardError(values: number[]): number {
+  return standardDeviation(values) / Math.sqrt(values.length);
+}
+
+/**
+ * Confidence-weighted mean with its standard error
+ *
+ * The spread is weighted too, and divided by the effective number of
+ * readings, so a pass with near-zero confidence barely counts.
+ */
+function weightedMean(readings: Reading[]): Estimate {
+  // A pass with no confidence still counts a little rather than dividing by 0
+  const weights = readings.map((r) => Math.max(r.confidence, 0.01));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const mean = readings.reduce((sum, r, i) => sum + weights[i] * r.value, 0) / total;
+
+  if (readings.length < 2) return estimate(mean, 0);
+
+  const variance = readings.reduce((sum, r, i) => sum + weights[i] * (r.value - mean) ** 2, 0) / total;
+  const effectiveCount = total ** 2 / weights.reduce((sum, w) => sum + w * w, 0);
+  // Bessel-style correction so two readings don't understate the spread
+  const sampleVariance = (variance * effectiveCount) / Math.max(effectiveCount - 1, 1);
+  return estimate(mean, Math.sqrt(sampleVariance / effectiveCount));
+}
+
+export const aggregationStrategies: Record<AggregationStrategyId, AggregationStrategy> = {
+  max: {
+    id: 'max',
+    label: 'Largest',
+    description: 'Largest pass - never too small, but one bad pass makes it too big',
+    combine: (readings) => {
+      const values = readings.map((r) => r.value);
+      return estimate(Math.max(...values), standardError(values));
+    },
+  },
+  'weighted-mean': {
+    id: 'weighted-mean',
+    label: 'Weighted average',
+    description: 'Average with confident passes counting most',
+    combine: weightedMean,
+  },
+  median: {
+    id: 'median',
+    label: 'Median',
+    description: 'Middle pass - ignores a single wild pass',
+    combine: (readings) => {
+      const values = readings.map((r) => r.value);
+      const center = median(values);
+      const spread = MAD_TO_SIGMA * median(values.map((v) => Math.abs(v - center)));
+      return estimate(center, (MEDIAN_EFFICIENCY * spread) / Math.sqrt(values.length));
+    },
+  },
+  'trimmed-max': {
+    id: 'trimmed-max',
+    label: 'Trimmed largest',
+    description: 'Largest pass once the very largest is set aside (3+ passes)',
+    combine: (readings) => {
+      const values = readings.map((r) => r.value);
+      if (values.length < 3) return estimate(Math.max(...values), standardError(values));
+
+      const highest = values.indexOf(Math.max(...values));
+      const kept = values.filter((_, i) => i !== highest);
+      return estimate(Math.max(...kept), standardError(kept), [highest]);
+    },
+  },
+  mad: {
+    id: 'mad',
+    label: 'Outlier rejection',
+    description: 'Weighted average after dropping passes far from the rest (3+ passes)',
+    combine: (readings) => {
+      if (readings.length < 3) return weightedMean(readings);
+
+      const values = readings.map((r) => r.value);
+      const center = median(values);
+      // Readings that agree to within MIN_UNCERTAINTY_INCHES still single out a
+      // pass that doesn't, so the spread never drops below it
+      const spread = Math.max(
+        MAD_TO_SIGMA * median(values.map((v) => Math.abs(v - center))),
+        MIN_UNCERTAINTY_INCHES
+      );
+
+      const rejected = values
+        .map((v, i) => (Math.abs(v - center) > MAD_REJECTION_THRESHOLD * spread ? i : -1))
+        .filter((i) => i >= 0);
+      const kept = readings.filter((_, i) => !rejected.includes(i));
+      return { ...weightedMean(kept), rejected };
+    },
+  },
+};
+
+export function isAggregationStrategyId(value: unknown): value is AggregationStrategyId {
+  return typeof value === 'string' && Object.hasOwn(aggregationStrategies, value);
+}
+
+/**
+ * Combine readings with a strategy
+ */
+export function combineReadings(readings: Reading[], strategy: AggregationStrategyId): Estimate {
+  return aggregationStrategies[strategy].combine(readings);
+}
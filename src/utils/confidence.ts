@@ -0,0 +1,92 @@
+/**
+ * Confidence policy
+ *
+ * The quality gates every provider, aggregation and screen rate
+ * confidence against. The defaults can be overridden at build time with a
+ * partial JSON policy in NEXT_PUBLIC_CONFIDENCE_POLICY, e.g.
+ * `{"excellent": 0.9}`; anything missing or invalid keeps its default.
+ */
+
+import type { ConfidenceCategory } from '@/providers/types';
+
+export interface ConfidencePolicy {
+  // Lowest confidence rated Excellent
+  excellent: number;
+  // Lowest confidence rated OK (anything below is Not Great)
+  ok: number;
+  // Average pass confidence below which another pass is asked for
+  additionalPass: number;
+  // Detection confidence above which capture is suggested
+  captureSuggestion: number;
+}
+
+export const DEFAULT_CONFIDENCE_POLICY: ConfidencePolicy = {
+  excellent: 0.85,
+  ok: 0.65,
+  additionalPass: 0.75,
+  captureSuggestion: 0.7,
+};
+
+/**
+ * Merge a partial policy from config over the defaults
+ *
+ * Thresholds outside 0..1 are ignored, as is an OK threshold above the
+ * Excellent one.
+ */
+export function parseConfidencePolicy(raw: unknown): ConfidencePolicy {
+  const policy = { ...DEFAULT_CONFIDENCE_POLICY };
+  if (typeof raw !== 'object' || raw === null) return policy;
+
+  for (const key of Object.keys(policy) as (keyof ConfidencePolicy)[]) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (typeof value === 'number' && value >= 0 && value <= 1) policy[key] = value;
+  }
+
+  if (policy.ok > policy.excellent) {
+    console.warn('Confidence policy has OK above Excellent; using default category thresholds');
+    policy.ok = DEFAULT_CONFIDENCE_POLICY.ok;
+    policy.excellent = DEFAULT_CONFIDENCE_POLICY.excellent;
+  }
+
+  return policy;
+}
+
+function loadConfiguredPolicy(): ConfidencePolicy {
+  const config = process.env.NEXT_PUBLIC_CONFIDENCE_POLICY;
+  if (!config) return { ...DEFAULT_CONFIDENCE_POLICY };
+
+  try {
+    return parseConfidencePolicy(JSON.parse(config));
+  } catch {
+    console.warn('Failed to parse NEXT_PUBLIC_CONFIDENCE_POLICY; using defaults');
+    return { ...DEFAULT_CONFIDENCE_POLICY };
+  }
+}
+
+let activePolicy = loadConfiguredPolicy();
+
+/**
+ * Policy currently in effect
+ */
+export function getConfidencePolicy(): ConfidencePolicy {
+  return activePolicy;
+}
+
+/**
+ * Replace the policy in effect (null restores the configured one)
+ */
+export function setConfidencePolicy(policy: ConfidencePolicy | null): void {
+  activePolicy = policy ?? loadConfiguredPolicy();
+}
+
+/**
+ * Rate a confidence score
+ */
+export function categorizeConfidence(
+  confidence: number,
+  policy: ConfidencePolicy = getConfidencePolicy()
+): ConfidenceCategory {
+  if (confidence >= policy.excellent) return 'Excellent';
+  if (confidence >= policy.ok) return 'OK';
+  return 'Not Great';
+}
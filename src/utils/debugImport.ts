@@ -0,0 +1,114 @@
+/**
+ * Reading exported debug logs back
+ *
+ * Support receives the JSON from exportDebugLog/downloadDebugLog from
+ * customers. These helpers check such a file and pull out what the log
+ * viewer shows. Imported records are only viewed, never mixed into this
+ * device's own log.
+ */
+
+import type { ConfidenceCategory } from '@/providers/types';
+import type { Bounds, Point } from '@/detection/geometry';
+import type { DebugRecord } from './debugLog';
+import { matchesQuery, migrateDebugRecord, type DebugLogQuery } from './debugStore';
+
+export type DebugRecordType = 'pass' | 'depth' | 'verification';
+
+export type DebugLogParseResult =
+  | { ok: true; records: DebugRecord[]; skipped: number }
+  | { ok: false; error: string };
+
+export interface DebugLogFilter extends DebugLogQuery {
+  recordType?: DebugRecordType;
+}
+
+// Where the detector found the window, in normalized frame coordinates
+export interface RecordDetection {
+  bounds: Bounds;
+  // Corners top-left, top-right, bottom-right, bottom-left (null if not logged)
+  corners: Point[] | null;
+}
+
+const CATEGORIES: ConfidenceCategory[] = ['Excellent', 'OK', 'Not Great'];
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isValidRecord(record: DebugRecord): boolean {
+  return (
+    isNumber(record.rawWidthInches) &&
+    isNumber(record.rawHeightInches) &&
+    isNumber(record.confidence) &&
+    CATEGORIES.includes(record.category) &&
+    (record.source === 'camera' || record.source === 'manual')
+  );
+}
+
+/**
+ * Check an exported debug log and read its records, oldest first
+ *
+ * Records that can't be read are skipped and counted; a file with none
+ * readable is rejected.
+ */
+export function parseDebugLogFile(text: string): DebugLogParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "This file isn't a debug log (not JSON)" };
+  }
+
+  if (!Array.isArray(data)) {
+    return { ok: false, error: "This file isn't a debug log (expected a list of records)" };
+  }
+
+  const records = data.flatMap((raw) => {
+    const record = migrateDebugRecord(raw);
+    return record && isValidRecord(record) ? [record] : [];
+  });
+  if (data.length > 0 && records.length === 0) {
+    return { ok: false, error: 'No readable records in this debug log' };
+  }
+
+  return {
+    ok: true,
+    records: records.sort((a, b) => a.timestamp - b.timestamp),
+    skipped: data.length - records.length,
+  };
+}
+
+export function recordType(record: DebugRecord): DebugRecordType {
+  const type = record.metadata.recordType;
+  return type === 'depth' || type === 'verification' ? type : 'pass';
+}
+
+export function filterDebugRecords(records: DebugRecord[], filter: DebugLogFilter): DebugRecord[] {
+  return records.filter(
+    (record) =>
+      matchesQuery(record, filter) && (filter.recordType === undefined || recordType(record) === filter.recordType)
+  );
+}
+
+function isPoint(value: unknown): value is Point {
+  return typeof value === 'object' && value !== null && isNumber((value as Point).x) && isNumber((value as Point).y);
+}
+
+/**
+ * Detection a camera pass was measured from, if it was logged
+ */
+export function recordDetection(record: DebugRecord): RecordDetection | null {
+  const { detectionBounds, detectionCorners } = record.metadata;
+  if (typeof detectionBounds !== 'object' || detectionBounds === null) return null;
+
+  const { x, y, width, height } = detectionBounds as Partial<Bounds>;
+  if (!isNumber(x) || !isNumber(y) || !isNumber(width) || !isNumber(height)) return null;
+
+  // The corners measured, after any adjustment (detectedCorners holds the
+  // detector's originals); without them only the bounds are drawn
+  const corners =
+    Array.isArray(detectionCorners) && detectionCorners.length === 4 && detectionCorners.every(isPoint)
+      ? (detectionCorners as Point[])
+      : null;
+  return { bounds: { x, y, width, height }, corners };
+}
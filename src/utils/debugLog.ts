@@ -1,22 +1,43 @@
 /**
  * Debug Log utilities
  *
- * Stores debug records in localStorage for troubleshooting.
- * No images are stored - only metadata and measurements.
+ * Stores debug records on the device for troubleshooting (see
+ * debugStore for where). No images are stored - only metadata and
+ * measurements.
  */
 
-import type { PassResult, ConfidenceCategory } from '@/providers/types';
-import { roundUpToSixteenth, formatInchesFraction } from './format';
-
-const DEBUG_LOG_KEY = 'wm-debug-log';
+import type {
+  PassResult,
+  ConfidenceCategory,
+  Diagonals,
+  MeasurementPoints,
+  PassSource,
+  ProviderType,
+} from '@/providers/types';
+import { formatInchesFraction, type DisplayFormat } from './format';
+import type { DepthResult } from './depth';
+import type { Verification, VerificationSample } from './accuracy';
+import { getSettings } from './settings';
+import { downloadFile } from './download';
+import {
+  DEBUG_SCHEMA_VERSION,
+  getDebugLogStore,
+  type DebugLogQuery,
+  type DebugRetention,
+} from './debugStore';
 
 export interface DebugRecord {
+  // Shape of the record (see debugStore)
+  schemaVersion: number;
   timestamp: number;
   timestampFormatted: string;
 
   // Raw values
   rawWidthInches: number;
   rawHeightInches: number;
+  // Three-point readings, when the provider measured them
+  rawPoints?: MeasurementPoints;
+  rawDiagonals?: Diagonals;
 
   // Rounded display values
   displayWidth: string;
@@ -26,9 +47,23 @@ export interface DebugRecord {
   confidence: number;
   category: ConfidenceCategory;
 
-  // Provider metadata
-  providerType: 'mock' | 'web';
+  // Provider metadata (no provider for manual entry)
+  source: PassSource;
+  providerType: ProviderType | null;
   metadata: Record<string, unknown>;
+
+  // Frame depth check; depth records carry the opening it was made for
+  depth?: DepthResult;
+  // Tape measure comparison; verification records carry the final opening
+  verification?: Verification;
+}
+
+// Final opening a depth or verification record was made for
+interface OpeningSummary {
+  widthInches: number;
+  heightInches: number;
+  confidence: number;
+  category: ConfidenceCategory;
 }
 
 /**
@@ -36,58 +71,145 @@ export interface DebugRecord {
  */
 export function appendDebugRecord(
   result: PassResult,
-  providerType: 'mock' | 'web'
-): void {
+  providerType: ProviderType | null,
+  format?: DisplayFormat
+): Promise<void> {
   const record: DebugRecord = {
+    schemaVersion: DEBUG_SCHEMA_VERSION,
     timestamp: result.timestamp,
     timestampFormatted: new Date(result.timestamp).toISOString(),
 
     rawWidthInches: result.widthInInches,
     rawHeightInches: result.heightInInches,
+    ...(result.points && { rawPoints: result.points }),
+    ...(result.diagonals && { rawDiagonals: result.diagonals }),
 
-    displayWidth: formatInchesFraction(roundUpToSixteenth(result.widthInInches)),
-    displayHeight: formatInchesFraction(roundUpToSixteenth(result.heightInInches)),
+    displayWidth: formatInchesFraction(result.widthInInches, format),
+    displayHeight: formatInchesFraction(result.heightInInches, format),
 
     confidence: result.confidence,
     category: result.category,
 
+    source: result.source ?? 'camera',
     providerType,
     metadata: result.frameMetadata.detectorMetadata || {},
   };
 
-  const log = getDebugLog();
-  log.push(record);
+  return saveDebugRecord(record);
+}
+
+/**
+ * Record a frame depth check alongside the opening size it applies to
+ */
+export function appendDepthRecord(
+  depth: DepthResult,
+  opening: OpeningSummary,
+  providerType: ProviderType | null,
+  format?: DisplayFormat
+): Promise<void> {
+  return saveDebugRecord({
+    ...openingRecord(opening, format),
+    source: depth.source === 'manual' ? 'manual' : 'camera',
+    providerType,
+    metadata: { recordType: 'depth' },
+    depth,
+  });
+}
+
+/**
+ * Record how a measurement compared with a tape measure
+ */
+export function appendVerificationRecord(
+  verification: Verification,
+  opening: OpeningSummary,
+  providerType: ProviderType | null,
+  format?: DisplayFormat
+): Promise<void> {
+  return saveDebugRecord({
+    ...openingRecord(opening, format),
+    source: 'camera',
+    providerType,
+    metadata: { recordType: 'verification' },
+    verification,
+  });
+}
+
+/**
+ * Verifications in the log, for the accuracy report
+ */
+export async function getVerificationSamples(): Promise<VerificationSample[]> {
+  return (await getDebugLog()).flatMap(({ verification, providerType }) =>
+    verification ? [{ verification, providerType }] : []
+  );
+}
+
+function openingRecord(opening: OpeningSummary, format?: DisplayFormat) {
+  return {
+    schemaVersion: DEBUG_SCHEMA_VERSION,
+    timestamp: Date.now(),
+    timestampFormatted: new Date().toISOString(),
+
+    rawWidthInches: opening.widthInches,
+    rawHeightInches: opening.heightInches,
 
-  // Keep only last 100 records to prevent localStorage bloat
-  const trimmedLog = log.slice(-100);
+    displayWidth: formatInchesFraction(opening.widthInches, format),
+    displayHeight: formatInchesFraction(opening.heightInches, format),
+
+    confidence: opening.confidence,
+    category: opening.category,
+  };
+}
 
+async function saveDebugRecord(record: DebugRecord): Promise<void> {
   try {
-    localStorage.setItem(DEBUG_LOG_KEY, JSON.stringify(trimmedLog));
+    const store = await getDebugLogStore();
+    await store.add([record]);
+    await store.prune(getSettings().debugRetention, Date.now());
   } catch {
-    // localStorage might be full or unavailable
-    console.warn('Failed to save debug log to localStorage');
+    // Storage might be full or unavailable
+    console.warn('Failed to save debug log');
   }
 }
 
 /**
- * Get all debug records
+ * Get debug records, oldest first, optionally only those matching a query
  */
-export function getDebugLog(): DebugRecord[] {
+export async function getDebugLog(query?: DebugLogQuery): Promise<DebugRecord[]> {
   try {
-    const data = localStorage.getItem(DEBUG_LOG_KEY);
-    if (!data) return [];
-    return JSON.parse(data) as DebugRecord[];
+    return await (await getDebugLogStore()).query(query);
   } catch {
     return [];
   }
 }
 
+/**
+ * Number of records stored
+ */
+export async function countDebugRecords(): Promise<number> {
+  try {
+    return await (await getDebugLogStore()).count();
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Drop records the retention no longer keeps, e.g. after it is tightened
+ */
+export async function applyDebugRetention(retention: DebugRetention): Promise<void> {
+  try {
+    await (await getDebugLogStore()).prune(retention, Date.now());
+  } catch {
+    console.warn('Failed to trim debug log');
+  }
+}
+
 /**
  * Clear all debug records
  */
-export function clearDebugLog(): void {
+export async function clearDebugLog(): Promise<void> {
   try {
-    localStorage.removeItem(DEBUG_LOG_KEY);
+    await (await getDebugLogStore()).clear();
   } catch {
     console.warn('Failed to clear debug log');
   }
@@ -96,8 +218,8 @@ export function clearDebugLog(): void {
 /**
  * Export debug log as JSON string (for download or clipboard)
  */
-export function exportDebugLog(): string {
-  const log = getDebugLog();
+export async function exportDebugLog(): Promise<string> {
+  const log = await getDebugLog();
   return JSON.stringify(log, null, 2);
 }
 
@@ -106,7 +228,7 @@ export function exportDebugLog(): string {
  */
 export async function copyDebugLogToClipboard(): Promise<boolean> {
   try {
-    const json = exportDebugLog();
+    const json = await exportDebugLog();
     await navigator.clipboard.writeText(json);
     return true;
   } catch {
@@ -117,16 +239,7 @@ export async function copyDebugLogToClipboard(): Promise<boolean> {
 /**
  * Download debug log as JSON file
  */
-export function downloadDebugLog(): void {
-  const json = exportDebugLog();
-  const blob = new Blob([json], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = `window-measurement-debug-${new Date().toISOString().split('T')[0]}.json`;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+export async function downloadDebugLog(): Promise<void> {
+  const json = await exportDebugLog();
+  downloadFile(json, `window-measurement-debug-${new Date().toISOString().split('T')[0]}.json`);
 }
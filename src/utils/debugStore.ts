@@ -0,0 +1,296 @@
+/**
+ * Debug log storage
+ *
+ * Records live in IndexedDB, indexed by time, so appending doesn't
+ * rewrite the whole log and it can grow past what localStorage holds.
+ * Where IndexedDB is unavailable (tests, some private browsing modes)
+ * the log is kept in memory for the session.
+ *
+ * Record schema versions:
+ * 1. localStorage array under `wm-debug-log`, no version stamp; early
+ *    records have no `source` and always a provider
+ * 2. IndexedDB, records stamped with `schemaVersion`
+ *
+ * Records are migrated as they are read, so older ones in the store
+ * (or the legacy localStorage log) come back in the current shape.
+ */
+
+import type { ConfidenceCategory, ProviderType } from '@/providers/types';
+import type { DebugRecord } from './debugLog';
+
+export const DEBUG_SCHEMA_VERSION = 2;
+
+const LEGACY_DEBUG_LOG_KEY = 'wm-debug-log';
+
+const DB_NAME = 'wm-debug-log';
+const DB_VERSION = 1;
+const RECORD_STORE = 'records';
+const TIMESTAMP_INDEX = 'timestamp';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DebugLogQuery {
+  // Inclusive time range, in ms since the epoch
+  from?: number;
+  to?: number;
+  // null matches records with no provider (typed-in measurements)
+  providerType?: ProviderType | null;
+  category?: ConfidenceCategory;
+}
+
+// How much of the log to keep; null means no limit
+export interface DebugRetention {
+  maxRecords: number | null;
+  maxAgeDays: number | null;
+}
+
+export const DEFAULT_DEBUG_RETENTION: DebugRetention = {
+  maxRecords: 1000,
+  maxAgeDays: 90,
+};
+
+export interface DebugLogStore {
+  // Whether records survive a reload
+  readonly persistent: boolean;
+  add(records: DebugRecord[]): Promise<void>;
+  // Matching records, oldest first
+  query(query?: DebugLogQuery): Promise<DebugRecord[]>;
+  count(): Promise<number>;
+  // Drop records older or beyond what the retention keeps
+  prune(retention: DebugRetention, now: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+type StoredRecord = Partial<DebugRecord> & { schemaVersion?: number };
+
+/**
+ * Bring a stored record up to the current schema
+ *
+ * @returns null for anything that isn't a debug record
+ */
+export function migrateDebugRecord(raw: unknown): DebugRecord | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const record = raw as StoredRecord;
+  if (typeof record.timestamp !== 'number') return null;
+
+  if ((record.schemaVersion ?? 1) > DEBUG_SCHEMA_VERSION) return null;
+
+  return {
+    ...record,
+    // Version 1 records were all camera passes from a provider
+    source: record.source ?? 'camera',
+    providerType: record.providerType ?? null,
+    metadata: record.metadata ?? {},
+    schemaVersion: DEBUG_SCHEMA_VERSION,
+  } as DebugRecord;
+}
+
+export function matchesQuery(record: DebugRecord, query: DebugLogQuery = {}): boolean {
+  if (query.from !== undefined && record.timestamp < query.from) return false;
+  if (query.to !== undefined && record.timestamp > query.to) return false;
+  if (query.providerType !== undefined && record.providerType !== query.providerType) return false;
+  if (query.category !== undefined && record.category !== query.category) return false;
+  return true;
+}
+
+// Records older than this are dropped (null keeps them all)
+function retentionCutoff(retention: DebugRetention, now: number): number | null {
+  return retention.maxAgeDays === null ? null : now - retention.maxAgeDays * DAY_MS;
+}
+
+/**
+ * Debug log held in memory, lost on reload
+ */
+export class MemoryDebugStore implements DebugLogStore {
+  readonly persistent = false;
+  private records: DebugRecord[] = [];
+
+  async add(records: DebugRecord[]): Promise<void> {
+    this.records = [...this.records, ...records].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async query(query?: DebugLogQuery): Promise<DebugRecord[]> {
+    return this.records.filter((record) => matchesQuery(record, query));
+  }
+
+  async count(): Promise<number> {
+    return this.records.length;
+  }
+
+  async prune(retention: DebugRetention, now: number): Promise<void> {
+    const cutoff = retentionCutoff(retention, now);
+    if (cutoff !== null) this.records = this.records.filter((record) => record.timestamp >= cutoff);
+    if (retention.maxRecords !== null) this.records = this.records.slice(-retention.maxRecords);
+  }
+
+  async clear(): Promise<void> {
+    this.records = [];
+  }
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Delete up to `limit` records a cursor walks over
+function deleteFromCursor(request: IDBRequest<IDBCursorWithValue | null>, limit = Infinity): Promise<void> {
+  let deleted = 0;
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || deleted >= limit) {
+        resolve();
+        return;
+      }
+      cursor.delete();
+      deleted++;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function timeRange(query: DebugLogQuery): IDBKeyRange | undefined {
+  const { from, to } = query;
+  if (from !== undefined && to !== undefined) return IDBKeyRange.bound(from, to);
+  if (from !== undefined) return IDBKeyRange.lowerBound(from);
+  if (to !== undefined) return IDBKeyRange.upperBound(to);
+  return undefined;
+}
+
+/**
+ * Debug log in IndexedDB
+ */
+export class IndexedDbDebugStore implements DebugLogStore {
+  readonly persistent = true;
+
+  private constructor(private readonly db: IDBDatabase) {}
+
+  static async open(factory: IDBFactory = indexedDB): Promise<IndexedDbDebugStore> {
+    const request = factory.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      // Version 1: records keyed in insertion order, indexed by time
+      const store = request.result.createObjectStore(RECORD_STORE, { autoIncrement: true });
+      store.createIndex(TIMESTAMP_INDEX, 'timestamp');
+    };
+    return new IndexedDbDebugStore(await settle(request));
+  }
+
+  async add(records: DebugRecord[]): Promise<void> {
+    const transaction = this.db.transaction(RECORD_STORE, 'readwrite');
+    const store = transaction.objectStore(RECORD_STORE);
+    records.forEach((record) => store.add(record));
+    await completion(transaction);
+  }
+
+  async query(query: DebugLogQuery = {}): Promise<DebugRecord[]> {
+    const index = this.db.transaction(RECORD_STORE).objectStore(RECORD_STORE).index(TIMESTAMP_INDEX);
+    const stored: unknown[] = await settle(index.getAll(timeRange(query)));
+    return stored.flatMap((raw) => {
+      const record = migrateDebugRecord(raw);
+      return record && matchesQuery(record, query) ? [record] : [];
+    });
+  }
+
+  async count(): Promise<number> {
+    return settle(this.db.transaction(RECORD_STORE).objectStore(RECORD_STORE).count());
+  }
+
+  async prune(retention: DebugRetention, now: number): Promise<void> {
+    const transaction = this.db.transaction(RECORD_STORE, 'readwrite');
+    const done = completion(transaction);
+    const index = transaction.objectStore(RECORD_STORE).index(TIMESTAMP_INDEX);
+
+    const cutoff = retentionCutoff(retention, now);
+    if (cutoff !== null) {
+      await deleteFromCursor(index.openCursor(IDBKeyRange.upperBound(cutoff, true)));
+    }
+    if (retention.maxRecords !== null) {
+      const excess = (await settle(index.count())) - retention.maxRecords;
+      if (excess > 0) await deleteFromCursor(index.openCursor(), excess);
+    }
+
+    await done;
+  }
+
+  async clear(): Promise<void> {
+    const transaction = this.db.transaction(RECORD_STORE, 'readwrite');
+    transaction.objectStore(RECORD_STORE).clear();
+    await completion(transaction);
+  }
+}
+
+/**
+ * Move records from the localStorage log into the store
+ *
+ * The old key is only removed once the records are somewhere that
+ * survives a reload.
+ */
+export async function migrateLegacyLog(store: DebugLogStore): Promise<void> {
+  let data: string | null;
+  try {
+    data = localStorage.getItem(LEGACY_DEBUG_LOG_KEY);
+  } catch {
+    return;
+  }
+  if (!data) return;
+
+  try {
+    const legacy: unknown = JSON.parse(data);
+    const records = (Array.isArray(legacy) ? legacy : []).flatMap((raw) => {
+      const record = migrateDebugRecord(raw);
+      return record ? [record] : [];
+    });
+    await store.add(records);
+  } catch {
+    console.warn('Failed to migrate the debug log from localStorage');
+    return;
+  }
+
+  if (store.persistent) localStorage.removeItem(LEGACY_DEBUG_LOG_KEY);
+}
+
+async function openDebugLogStore(): Promise<DebugLogStore> {
+  let store: DebugLogStore;
+  if (typeof indexedDB === 'undefined') {
+    store = new MemoryDebugStore();
+  } else {
+    try {
+      store = await IndexedDbDebugStore.open();
+    } catch {
+      console.warn('IndexedDB unavailable; keeping the debug log in memory');
+      store = new MemoryDebugStore();
+    }
+  }
+
+  await migrateLegacyLog(store);
+  return store;
+}
+
+let activeStore: Promise<DebugLogStore> | null = null;
+
+/**
+ * Store the debug log is kept in, opened on first use
+ */
+export function getDebugLogStore(): Promise<DebugLogStore> {
+  activeStore ??= openDebugLogStore();
+  return activeStore;
+}
+
+/**
+ * Replace the store in use (null reopens the default on next use)
+ */
+export function setDebugLogStore(store: DebugLogStore | null): void {
+  activeStore = store ? Promise.resolve(store) : null;
+}
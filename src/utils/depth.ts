@@ -0,0 +1,93 @@
+/**
+ * Frame depth for inside mount
+ *
+ * An inside mount headrail sits on the head jamb, so the opening has to be
+ * deep enough for it. Depth is either typed in or read from an angled shot
+ * of a side jamb: the jamb face is a rectangle as tall as the opening, so
+ * its proportions give the depth. Without a reference object the shot's
+ * sizes are heuristic and can be an inch out, which is most of a jamb's
+ * depth, so such a depth is only an estimate: it is rounded coarsely and
+ * shown as one.
+ */
+
+import type { PassResult } from '@/providers/types';
+
+export type ShadeProductId = 'cellular' | 'roller' | 'roman' | 'wood-blind';
+
+export interface ShadeProduct {
+  id: ShadeProductId;
+  label: string;
+  // Shallowest frame the headrail can be mounted inside (inches)
+  minInsideDepthInches: number;
+}
+
+export const SHADE_PRODUCTS: Record<ShadeProductId, ShadeProduct> = {
+  cellular: { id: 'cellular', label: 'Cellular shade', minInsideDepthInches: 2 },
+  roller: { id: 'roller', label: 'Roller shade', minInsideDepthInches: 2.5 },
+  roman: { id: 'roman', label: 'Roman shade', minInsideDepthInches: 3 },
+  'wood-blind': { id: 'wood-blind', label: '2" wood blind', minInsideDepthInches: 3.25 },
+};
+
+export const DEFAULT_SHADE_PRODUCT: ShadeProductId = 'roller';
+
+// Anything deeper is a misframed shot rather than a jamb
+export const MAX_JAMB_DEPTH_INCHES = 12;
+
+// Estimated depths are rounded to this, rather than shown to 1/16"
+export const ESTIMATED_DEPTH_STEP_INCHES = 0.5;
+
+// photo: jamb shot scaled by a reference object; estimate: jamb shot
+// without one; manual: typed in
+export type DepthSource = 'photo' | 'estimate' | 'manual';
+
+export interface JambDepth {
+  depthInches: number;
+  source: Exclude<DepthSource, 'manual'>;
+}
+
+export interface DepthResult {
+  depthInches: number;
+  source: DepthSource;
+  productId: ShadeProductId;
+  minimumDepthInches: number;
+  // True when the product fits inside the frame
+  feasible: boolean;
+}
+
+/**
+ * Check a frame depth against a product's minimum
+ */
+export function checkDepth(depthInches: number, source: DepthSource, productId: ShadeProductId): DepthResult {
+  const minimumDepthInches = SHADE_PRODUCTS[productId].minInsideDepthInches;
+  return {
+    depthInches,
+    source,
+    productId,
+    minimumDepthInches,
+    feasible: depthInches >= minimumDepthInches,
+  };
+}
+
+/**
+ * Depth of a side jamb from a capture of its face
+ *
+ * The capture's width/height ratio is the face's depth/height ratio, and
+ * the face is as tall as the opening. A shot without a reference scale
+ * gives an estimate to the nearest ESTIMATED_DEPTH_STEP_INCHES. Null when
+ * the result can't be a jamb.
+ *
+ * @param shot - Capture framing the jamb face edge-to-edge
+ * @param openingHeightInches - Measured height of the opening
+ */
+export function depthFromJambShot(shot: PassResult, openingHeightInches: number): JambDepth | null {
+  if (shot.heightInInches <= 0) return null;
+
+  const depth = (shot.widthInInches / shot.heightInInches) * openingHeightInches;
+  if (depth <= 0 || depth > MAX_JAMB_DEPTH_INCHES) return null;
+
+  if (shot.frameMetadata.scaleReference) return { depthInches: depth, source: 'photo' };
+  return {
+    depthInches: Math.round(depth / ESTIMATED_DEPTH_STEP_INCHES) * ESTIMATED_DEPTH_STEP_INCHES,
+    source: 'estimate',
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Save text as a file through the browser's download prompt
+ */
+export function downloadFile(contents: string, filename: string, type = 'application/json'): void {
+  const blob = new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
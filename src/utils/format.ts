@@ -1,30 +1,104 @@
 /**
  * Formatting utilities for measurements
  *
- * All measurements are displayed in inches rounded UP to nearest 1/16"
+ * Measurements are kept in inches and displayed in the chosen unit, always
+ * rounded UP: inches to the nearest 1/8, 1/16 or 1/32, metric to the
+ * nearest millimetre
  */
 
+export type LengthUnit = 'in' | 'cm' | 'mm';
+
+// Fraction of an inch imperial sizes are rounded up to (1/8, 1/16, 1/32)
+export type InchPrecision = 8 | 16 | 32;
+
+export interface DisplayFormat {
+  unit: LengthUnit;
+  // Only applies to inches
+  precision: InchPrecision;
+}
+
+export const DEFAULT_DISPLAY_FORMAT: DisplayFormat = { unit: 'in', precision: 16 };
+
+export const LENGTH_UNITS: LengthUnit[] = ['in', 'cm', 'mm'];
+export const INCH_PRECISIONS: InchPrecision[] = [8, 16, 32];
+
+export const MM_PER_INCH = 25.4;
+
+// Floating point noise ignored around a whole millimetre or fraction, so a
+// length shows as typed (53 mm comes back as 53.00000000000001 mm)
+const ROUNDING_TOLERANCE = 1e-9;
+
 /**
  * Round a number UP to the nearest 1/16
  * @param inches - The measurement in inches
  * @returns The measurement rounded up to nearest 1/16
  */
 export function roundUpToSixteenth(inches: number): number {
-  // Multiply by 16, ceiling, divide by 16
-  return Math.ceil(inches * 16) / 16;
+  return roundUpToFraction(inches, 16);
+}
+
+/**
+ * Round a number UP to the nearest 1/denominator of an inch
+ */
+export function roundUpToFraction(inches: number, denominator: InchPrecision): number {
+  // Multiply by the denominator, ceiling, divide back
+  const parts = inches * denominator;
+  const nearest = Math.round(parts);
+  return (Math.abs(parts - nearest) < ROUNDING_TOLERANCE ? nearest : Math.ceil(parts)) / denominator;
+}
+
+/**
+ * Round a measurement UP to the nearest whole millimetre
+ * @returns Millimetres
+ */
+export function roundUpToMillimetre(inches: number): number {
+  const mm = inches * MM_PER_INCH;
+  const nearest = Math.round(mm);
+  return Math.abs(mm - nearest) < ROUNDING_TOLERANCE ? nearest : Math.ceil(mm);
+}
+
+/**
+ * Convert inches to a unit (unrounded)
+ */
+export function inchesToUnit(inches: number, unit: LengthUnit): number {
+  if (unit === 'mm') return inches * MM_PER_INCH;
+  if (unit === 'cm') return (inches * MM_PER_INCH) / 10;
+  return inches;
 }
 
 /**
- * Format inches as a fractional string
+ * Convert a length in a unit back to inches
+ */
+export function unitToInches(value: number, unit: LengthUnit): number {
+  if (unit === 'mm') return value / MM_PER_INCH;
+  if (unit === 'cm') return (value * 10) / MM_PER_INCH;
+  return value;
+}
+
+/**
+ * Format inches as a fractional string, or as metric
  * e.g., 36.5 -> "36 1/2""
  * e.g., 36.0625 -> "36 1/16""
  * e.g., 36.0 -> "36""
+ * e.g., 36.5 in cm -> "92.8 cm", in mm -> "928 mm"
  *
- * @param inches - The measurement in inches (should already be rounded to 1/16)
+ * @param inches - The measurement in inches
+ * @param format - Unit and inch precision to round up to
  * @returns Formatted string with fraction
  */
-export function formatInchesFraction(inches: number): string {
-  const rounded = roundUpToSixteenth(inches);
+export function formatInchesFraction(
+  inches: number,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): string {
+  if (format.unit === 'mm') {
+    return `${roundUpToMillimetre(inches)} mm`;
+  }
+
+  if (format.unit === 'cm') {
+    return `${(roundUpToMillimetre(inches) / 10).toFixed(1)} cm`;
+  }
+
+  const rounded = roundUpToFraction(inches, format.precision);
   const whole = Math.floor(rounded);
   const remainder = rounded - whole;
 
@@ -32,11 +106,11 @@ export function formatInchesFraction(inches: number): string {
     return `${whole}"`;
   }
 
-  // Convert remainder to sixteenths
-  const sixteenths = Math.round(remainder * 16);
+  // Convert remainder to the precision's fractions
+  const parts = Math.round(remainder * format.precision);
 
   // Simplify the fraction
-  const { numerator, denominator } = simplifyFraction(sixteenths, 16);
+  const { numerator, denominator } = simplifyFraction(parts, format.precision);
 
   if (whole === 0) {
     return `${numerator}/${denominator}"`;
@@ -73,10 +147,11 @@ function findGCD(a: number, b: number): number {
  */
 export function formatDimensions(
   widthInches: number,
-  heightInches: number
+  heightInches: number,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
 ): string {
-  const width = formatInchesFraction(widthInches);
-  const height = formatInchesFraction(heightInches);
+  const width = formatInchesFraction(widthInches, format);
+  const height = formatInchesFraction(heightInches, format);
   return `${width} × ${height}`;
 }
 
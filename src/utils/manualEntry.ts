@@ -0,0 +1,48 @@
+/**
+ * Manual entry
+ *
+ * Turns sizes read off a tape measure into a PassResult, so typed-in
+ * measurements are aggregated, shown and exported like camera passes.
+ */
+
+import type { MeasurementPoints, PassResult } from '@/providers/types';
+import { categorizeConfidence } from './confidence';
+
+// A tape reading is taken as exact
+export const MANUAL_ENTRY_CONFIDENCE = 1;
+
+// Widths and heights in inches: one of each, or three of each for inside
+// mount (top/middle/bottom widths, left/center/right heights)
+export interface ManualReadings {
+  widths: number[];
+  heights: number[];
+}
+
+/**
+ * Build a pass from typed-in readings
+ *
+ * Three-point readings are kept as the pass's points, and its overall size
+ * is the smallest of each, as an inside mount shade is made to it.
+ */
+export function manualPassResult(readings: ManualReadings): PassResult {
+  const { widths, heights } = readings;
+  const points: MeasurementPoints | null =
+    widths.length === 3 && heights.length === 3
+      ? { widths: [widths[0], widths[1], widths[2]], heights: [heights[0], heights[1], heights[2]] }
+      : null;
+
+  return {
+    widthInInches: Math.min(...widths),
+    heightInInches: Math.min(...heights),
+    ...(points && { points }),
+    source: 'manual',
+    confidence: MANUAL_ENTRY_CONFIDENCE,
+    category: categorizeConfidence(MANUAL_ENTRY_CONFIDENCE),
+    timestamp: Date.now(),
+    frameMetadata: {
+      pxToInchUsed: null,
+      detectorConfidence: MANUAL_ENTRY_CONFIDENCE,
+      detectorMetadata: { provider: 'manual' },
+    },
+  };
+}
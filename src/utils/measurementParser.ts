@@ -0,0 +1,147 @@
+/**
+ * Parser for measurements typed by hand
+ *
+ * The inverse of formatInchesFraction. Accepts what people write down
+ * from a tape measure:
+ * - Inches with fractions: 36 1/2", 36-1/2, 36½ in, 1/2"
+ * - Decimals: 36.5, 36.5 in, .5"
+ * - Feet and inches: 3' 1/4", 3'-6", 3 ft 0 1/4 in, 3'
+ * - Metric: 92.7cm, 927 mm, 0.927 m
+ *
+ * A number with no unit is read in the caller's default unit.
+ */
+
+import { MM_PER_INCH, type LengthUnit } from './format';
+
+export type MeasurementParseResult =
+  | { ok: true; inches: number }
+  | { ok: false; error: string };
+
+export interface ParseMeasurementOptions {
+  // Unit for bare numbers (default inches)
+  defaultUnit?: LengthUnit;
+}
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2',
+  '⅓': '1/3',
+  '⅔': '2/3',
+  '¼': '1/4',
+  '¾': '3/4',
+  '⅛': '1/8',
+  '⅜': '3/8',
+  '⅝': '5/8',
+  '⅞': '7/8',
+};
+
+const METRIC_TO_MM: Record<string, number> = {
+  mm: 1,
+  millimeter: 1,
+  millimetre: 1,
+  cm: 10,
+  centimeter: 10,
+  centimetre: 10,
+  m: 1000,
+  meter: 1000,
+  metre: 1000,
+};
+
+const NUMBER = String.raw`\d+(?:\.\d*)?|\.\d+`;
+// Whole number and fraction ("36 1/2", "36-1/2"), bare fraction, or decimal
+const INCH_AMOUNT = String.raw`(?:(\d+)(?:\s+|\s*-\s*))?(\d+)\s*/\s*(\d+)|(${NUMBER})`;
+const INCH_UNIT = String.raw`(?:"|''|in\.?|inch(?:es)?)`;
+const FOOT_UNIT = String.raw`(?:'|ft\.?|foot|feet)`;
+// Architectural "3'-6"": a hyphen between feet and the inches that follow
+const FEET_INCHES_HYPHEN = String.raw`(?:\s*-(?=\s*[\d.]))?`;
+
+const METRIC_PATTERN = new RegExp(String.raw`^(${NUMBER})\s*([a-z]+?)s?$`);
+const IMPERIAL_PATTERN = new RegExp(
+  String.raw`^(?:(${NUMBER})\s*${FOOT_UNIT}${FEET_INCHES_HYPHEN})?\s*(?:(?:${INCH_AMOUNT})\s*(${INCH_UNIT})?)?$`
+);
+
+function normalize(text: string): string {
+  return (
+    text
+      .trim()
+      .toLowerCase()
+      // Typographic quotes and primes
+      .replace(/[″“”]/g, '"')
+      .replace(/[′‘’]/g, "'")
+      .replace(/[⁄∕]/g, '/')
+      // "36½" reads as "36 1/2"
+      .replace(/[½⅓⅔¼¾⅛⅜⅝⅞]/g, (fraction) => ` ${UNICODE_FRACTIONS[fraction]}`)
+      .replace(/\s+/g, ' ')
+      .trim()
+  );
+}
+
+/**
+ * Parse a typed measurement into inches
+ */
+export function parseMeasurement(
+  text: string,
+  options: ParseMeasurementOptions = {}
+): MeasurementParseResult {
+  const { defaultUnit = 'in' } = options;
+  const input = normalize(text);
+
+  if (!input) {
+    return { ok: false, error: 'Enter a measurement' };
+  }
+
+  if (input.startsWith('-')) {
+    return { ok: false, error: 'Measurements cannot be negative' };
+  }
+
+  const metric = METRIC_PATTERN.exec(input);
+  if (metric && Object.hasOwn(METRIC_TO_MM, metric[2])) {
+    return positive((Number(metric[1]) * METRIC_TO_MM[metric[2]]) / MM_PER_INCH);
+  }
+
+  const imperial = IMPERIAL_PATTERN.exec(input);
+  if (!imperial) {
+    return { ok: false, error: `Couldn't read "${text.trim()}" as a measurement` };
+  }
+
+  const [, feet, whole, numerator, denominator, decimal, inchUnit] = imperial;
+  const hasInches = numerator !== undefined || decimal !== undefined;
+  if (feet === undefined && !hasInches) {
+    return { ok: false, error: `Couldn't read "${text.trim()}" as a measurement` };
+  }
+
+  let amount = 0;
+  if (numerator !== undefined) {
+    const top = Number(numerator);
+    const bottom = Number(denominator);
+    if (bottom === 0) {
+      return { ok: false, error: 'Fractions cannot have 0 at the bottom' };
+    }
+    if (whole !== undefined && top >= bottom) {
+      return { ok: false, error: `${numerator}/${denominator} should be less than 1` };
+    }
+    amount = Number(whole ?? 0) + top / bottom;
+  } else if (decimal !== undefined) {
+    amount = Number(decimal);
+  }
+
+  // A lone number takes the default unit; anything with feet or an inch
+  // mark is imperial
+  if (feet === undefined && inchUnit === undefined && defaultUnit !== 'in') {
+    if (numerator !== undefined) {
+      return { ok: false, error: `Fractions are only for inches - enter ${defaultUnit} as a decimal` };
+    }
+    return positive((amount * METRIC_TO_MM[defaultUnit]) / MM_PER_INCH);
+  }
+
+  return positive(Number(feet ?? 0) * 12 + amount);
+}
+
+function positive(inches: number): MeasurementParseResult {
+  if (!Number.isFinite(inches)) {
+    return { ok: false, error: 'That number is too large' };
+  }
+  if (inches <= 0) {
+    return { ok: false, error: 'Enter a measurement larger than 0' };
+  }
+  return { ok: true, inches };
+}
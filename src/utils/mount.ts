@@ -0,0 +1,129 @@
+/**
+ * Mount types and the measuring rules that depend on them
+ *
+ * Inside mount shades hang within the opening, which is rarely square:
+ * fabricators want the width at the top, middle and bottom and the height
+ * at the left, center and right, and build to the smallest of each so the
+ * shade clears the tightest spot. Outside mount covers the opening, so
+ * only the overall size matters.
+ *
+ * The opening is what we measure; the order size is what the customer
+ * asks the factory for once the mount rules below are applied.
+ */
+
+import type { Diagonals, MeasurementPoints, PassResult } from '@/providers/types';
+import { formatInchesFraction, type DisplayFormat } from './format';
+
+export type MountType = 'inside' | 'outside';
+
+// Opening to order size adjustments, in inches
+export interface MountRules {
+  // Inside mount: taken off the width so the shade clears the jambs
+  insideDeduction: number;
+  // Outside mount: added past the opening on the left and on the right
+  outsideSideOverlap: number;
+  // Outside mount: added above the opening for the headrail
+  outsideTopOverlap: number;
+  // Largest diagonal difference an inside mount shade can hang in
+  outOfSquareTolerance: number;
+}
+
+export const DEFAULT_MOUNT_RULES: MountRules = {
+  insideDeduction: 0.25,
+  outsideSideOverlap: 1.5,
+  outsideTopOverlap: 3,
+  outOfSquareTolerance: 0.25,
+};
+
+export interface ShadeSize {
+  widthInches: number;
+  heightInches: number;
+}
+
+// Where each of the three widths and heights is taken, in reading order
+export const WIDTH_POINT_LABELS = ['Top', 'Middle', 'Bottom'] as const;
+export const HEIGHT_POINT_LABELS = ['Left', 'Center', 'Right'] as const;
+
+/**
+ * Three-point readings for a pass, repeating its single width/height when
+ * the provider could not measure each side separately
+ */
+export function passPoints(pass: PassResult): MeasurementPoints {
+  return (
+    pass.points ?? {
+      widths: [pass.widthInInches, pass.widthInInches, pass.widthInInches],
+      heights: [pass.heightInInches, pass.heightInInches, pass.heightInInches],
+    }
+  );
+}
+
+/**
+ * Index of the smallest of three readings (the first on a tie)
+ */
+export function smallestPoint(values: readonly [number, number, number]): 0 | 1 | 2 {
+  let smallest: 0 | 1 | 2 = 0;
+  if (values[1] < values[smallest]) smallest = 1;
+  if (values[2] < values[smallest]) smallest = 2;
+  return smallest;
+}
+
+/**
+ * Order size for an opening (unrounded; formatInchesFraction rounds it
+ * for display)
+ */
+export function applyMountRules(
+  opening: ShadeSize,
+  mountType: MountType,
+  rules: MountRules = DEFAULT_MOUNT_RULES
+): ShadeSize {
+  if (mountType === 'inside') {
+    return {
+      widthInches: Math.max(0, opening.widthInches - rules.insideDeduction),
+      heightInches: opening.heightInches,
+    };
+  }
+
+  return {
+    widthInches: opening.widthInches + 2 * rules.outsideSideOverlap,
+    heightInches: opening.heightInches + rules.outsideTopOverlap,
+  };
+}
+
+/**
+ * One-line summary of the adjustments applied for a mount type
+ */
+export function describeMountRules(
+  mountType: MountType,
+  rules: MountRules = DEFAULT_MOUNT_RULES,
+  format?: DisplayFormat
+): string {
+  if (mountType === 'inside') {
+    return rules.insideDeduction > 0
+      ? `${formatInchesFraction(rules.insideDeduction, format)} taken off the width for clearance`
+      : 'No clearance deduction';
+  }
+
+  return `${formatInchesFraction(rules.outsideSideOverlap, format)} overlap each side, ${formatInchesFraction(
+    rules.outsideTopOverlap,
+    format
+  )} at the top`;
+}
+
+/**
+ * How far an opening is out of square: the difference between its
+ * diagonals (0 for a true rectangle)
+ */
+export function outOfSquareAmount(diagonals: Diagonals): number {
+  return Math.abs(diagonals[0] - diagonals[1]);
+}
+
+/**
+ * True when an opening is too far out of square for an inside mount shade
+ * to hang straight, so outside mount should be recommended
+ */
+export function exceedsSquareTolerance(
+  outOfSquareInches: number | null,
+  rules: MountRules = DEFAULT_MOUNT_RULES
+): boolean {
+  return outOfSquareInches !== null && outOfSquareInches > rules.outOfSquareTolerance;
+}
@@ -0,0 +1,210 @@
+/**
+ * Measurement projects
+ *
+ * A project is one house: rooms, each holding the windows measured in
+ * it. Finished measurements are saved here so several windows can be
+ * measured in one visit. The current project is kept in localStorage.
+ * Rooms are created by name when a window is saved into them and dropped
+ * once their last window is deleted or moved.
+ */
+
+import type { ConfidenceCategory, MeasurementPoints, PassSource } from '@/providers/types';
+import type { MountRules, MountType } from './mount';
+import type { DepthResult } from './depth';
+import type { Verification } from './accuracy';
+
+const PROJECT_KEY = 'wm-project';
+
+export interface Room {
+  id: string;
+  name: string;
+}
+
+// What the user calls a window and where it is
+export interface WindowDetails {
+  label: string;
+  roomName: string;
+  notes: string;
+}
+
+// A finished measurement, as shown on the completion screen
+export interface WindowMeasurement {
+  mountType: MountType;
+  mountRules: MountRules;
+  source: PassSource;
+  widthInches: number;
+  heightInches: number;
+  orderWidthInches: number;
+  orderHeightInches: number;
+  // Three-point readings (inside mount only)
+  points: MeasurementPoints | null;
+  outOfSquareInches: number | null;
+  depth: DepthResult | null;
+  // Tape measure check (absent in windows saved before checks were kept)
+  verification?: Verification | null;
+  confidence: number;
+  category: ConfidenceCategory;
+  passCount: number;
+}
+
+export interface SavedWindow extends WindowMeasurement {
+  id: string;
+  roomId: string;
+  label: string;
+  notes: string;
+  savedAt: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  rooms: Room[];
+  windows: SavedWindow[];
+}
+
+export interface RoomWindows {
+  room: Room;
+  windows: SavedWindow[];
+}
+
+export const DEFAULT_PROJECT_NAME = 'My Home';
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Start an empty project
+ */
+export function createProject(name: string = DEFAULT_PROJECT_NAME): Project {
+  return { id: createId(), name, createdAt: Date.now(), rooms: [], windows: [] };
+}
+
+/**
+ * Get the current project (an empty one if none is stored)
+ */
+export function getProject(): Project {
+  try {
+    const data = localStorage.getItem(PROJECT_KEY);
+    if (!data) return createProject();
+    return JSON.parse(data) as Project;
+  } catch {
+    return createProject();
+  }
+}
+
+/**
+ * Store the project as the current one and return it
+ */
+export function saveProject(project: Project): Project {
+  try {
+    localStorage.setItem(PROJECT_KEY, JSON.stringify(project));
+  } catch {
+    console.warn('Failed to save project to localStorage');
+  }
+
+  return project;
+}
+
+// Find a room by name, ignoring case and surrounding spaces, or add it
+function withRoom(project: Project, roomName: string): { project: Project; roomId: string } {
+  const name = roomName.trim();
+  const existing = project.rooms.find((room) => room.name.toLowerCase() === name.toLowerCase());
+  if (existing) return { project, roomId: existing.id };
+
+  const room = { id: createId(), name };
+  return { project: { ...project, rooms: [...project.rooms, room] }, roomId: room.id };
+}
+
+function withoutEmptyRooms(project: Project): Project {
+  return {
+    ...project,
+    rooms: project.rooms.filter((room) => project.windows.some((window) => window.roomId === room.id)),
+  };
+}
+
+/**
+ * Label given to a window saved without one
+ */
+export function defaultWindowLabel(project: Project): string {
+  return `Window ${project.windows.length + 1}`;
+}
+
+/**
+ * Save a measured window, replacing the one with the same id if given
+ *
+ * @returns The updated project and the saved window's id
+ */
+export function saveWindow(
+  project: Project,
+  details: WindowDetails,
+  measurement: WindowMeasurement,
+  windowId?: string | null
+): { project: Project; windowId: string } {
+  const previous = project.windows.find((window) => window.id === windowId);
+  const { project: withItsRoom, roomId } = withRoom(project, details.roomName);
+
+  const window: SavedWindow = {
+    ...measurement,
+    id: previous?.id ?? createId(),
+    roomId,
+    label: details.label.trim() || previous?.label || defaultWindowLabel(project),
+    notes: details.notes.trim(),
+    savedAt: Date.now(),
+  };
+  const windows = previous
+    ? withItsRoom.windows.map((w) => (w.id === window.id ? window : w))
+    : [...withItsRoom.windows, window];
+
+  return { project: withoutEmptyRooms({ ...withItsRoom, windows }), windowId: window.id };
+}
+
+/**
+ * Change a saved window's label, room or notes
+ */
+export function updateWindowDetails(project: Project, windowId: string, details: WindowDetails): Project {
+  const window = project.windows.find((w) => w.id === windowId);
+  if (!window) return project;
+  return saveWindow(project, details, window, windowId).project;
+}
+
+/**
+ * Bring a saved window's measurement up to date, keeping its label, room
+ * and notes (e.g. after a depth check or re-pricing once it was saved)
+ *
+ * @returns The same project when nothing changed
+ */
+export function updateWindowMeasurement(project: Project, windowId: string, measurement: WindowMeasurement): Project {
+  const previous = project.windows.find((window) => window.id === windowId);
+  if (!previous) return project;
+
+  const window: SavedWindow = { ...previous, ...measurement };
+  if (JSON.stringify(window) === JSON.stringify(previous)) return project;
+  return { ...project, windows: project.windows.map((w) => (w.id === windowId ? window : w)) };
+}
+
+export function deleteWindow(project: Project, windowId: string): Project {
+  return withoutEmptyRooms({ ...project, windows: project.windows.filter((w) => w.id !== windowId) });
+}
+
+/**
+ * Details a saved window was stored with, for editing
+ */
+export function windowDetails(project: Project, window: SavedWindow): WindowDetails {
+  return {
+    label: window.label,
+    roomName: project.rooms.find((room) => room.id === window.roomId)?.name ?? '',
+    notes: window.notes,
+  };
+}
+
+/**
+ * Windows grouped by room, rooms in the order they were added
+ */
+export function windowsByRoom(project: Project): RoomWindows[] {
+  return project.rooms.map((room) => ({
+    room,
+    windows: project.windows.filter((window) => window.roomId === room.id),
+  }));
+}
@@ -0,0 +1,90 @@
+/**
+ * Persisted app settings
+ *
+ * Stores user preferences from the settings screen in localStorage.
+ * Missing or unreadable values fall back to defaults.
+ */
+
+import type { ProviderType, ReferenceObjectId } from '@/providers/types';
+import { DEFAULT_MOUNT_RULES, type MountRules } from './mount';
+import { DEFAULT_SHADE_PRODUCT, type ShadeProductId } from './depth';
+import { DEFAULT_AGGREGATION_STRATEGY, type AggregationStrategyId } from './aggregationStrategies';
+import { DEFAULT_PASS_POLICY, type PassPolicy } from './aggregate';
+import { DEFAULT_DISPLAY_FORMAT, type DisplayFormat } from './format';
+import { DEFAULT_DEBUG_RETENTION, type DebugRetention } from './debugStore';
+import { DEFAULT_MOCK_SCENARIO, type MockScenarioId } from '@/providers/mockScenarios';
+
+const SETTINGS_KEY = 'wm-settings';
+
+export interface AppSettings {
+  // Preferred measurement provider (null = use the registry default)
+  providerType: ProviderType | null;
+  // Object held against the frame for scale (null = no calibration)
+  referenceObject: ReferenceObjectId | null;
+  // Deductions and overlaps turning the opening into an order size
+  mountRules: MountRules;
+  // Product whose minimum depth inside mount frames are checked against
+  shadeProduct: ShadeProductId;
+  // How passes are combined into the final size
+  aggregationStrategy: AggregationStrategyId;
+  // How many passes to take, and when they agree well enough to stop
+  passPolicy: PassPolicy;
+  // Unit and inch precision sizes are shown in
+  displayFormat: DisplayFormat;
+  // How many debug records to keep, and for how long
+  debugRetention: DebugRetention;
+  // Record the provider's output so the session can be replayed
+  recordTraces: boolean;
+  // Scenario the simulated provider plays out
+  mockScenario: MockScenarioId;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  providerType: null,
+  referenceObject: null,
+  mountRules: DEFAULT_MOUNT_RULES,
+  shadeProduct: DEFAULT_SHADE_PRODUCT,
+  aggregationStrategy: DEFAULT_AGGREGATION_STRATEGY,
+  passPolicy: DEFAULT_PASS_POLICY,
+  displayFormat: DEFAULT_DISPLAY_FORMAT,
+  debugRetention: DEFAULT_DEBUG_RETENTION,
+  recordTraces: false,
+  mockScenario: DEFAULT_MOCK_SCENARIO,
+};
+
+/**
+ * Get current settings merged over defaults
+ */
+export function getSettings(): AppSettings {
+  try {
+    const data = localStorage.getItem(SETTINGS_KEY);
+    if (!data) return { ...DEFAULT_SETTINGS };
+    const stored = JSON.parse(data) as Partial<AppSettings>;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      // Rules saved before a new one was added keep the new default
+      mountRules: { ...DEFAULT_MOUNT_RULES, ...stored.mountRules },
+      passPolicy: { ...DEFAULT_PASS_POLICY, ...stored.passPolicy },
+      displayFormat: { ...DEFAULT_DISPLAY_FORMAT, ...stored.displayFormat },
+      debugRetention: { ...DEFAULT_DEBUG_RETENTION, ...stored.debugRetention },
+    };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+/**
+ * Merge a partial update into the stored settings and return the result
+ */
+export function updateSettings(update: Partial<AppSettings>): AppSettings {
+  const settings = { ...getSettings(), ...update };
+
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    console.warn('Failed to save settings to localStorage');
+  }
+
+  return settings;
+}
@@ -0,0 +1,85 @@
+import { accuracyReport, accuracyStats, verifyMeasurement, type VerificationSample } from '@/utils/accuracy';
+import { createPassResult } from './fixtures/passResults';
+
+const tape = { widthInches: 36, heightInches: 48 };
+
+describe('verifyMeasurement', () => {
+  it('keeps errors signed, camera minus tape', () => {
+    const verification = verifyMeasurement(
+      [createPassResult(36.25, 47.875), createPassResult(35.875, 48)],
+      { widthInches: 36.0625, heightInches: 47.9375 },
+      'outside',
+      tape
+    );
+    expect(verification.aggregate).toEqual({ widthInches: 0.0625, heightInches: -0.0625 });
+    expect(verification.passes).toEqual([
+      { widthInches: 0.25, heightInches: -0.125, category: 'Excellent' },
+      { widthInches: -0.125, heightInches: 0, category: 'Excellent' },
+    ]);
+  });
+
+  it('compares inside mount passes by their smallest point', () => {
+    const pass = createPassResult(36.25, 48.25, 0.7, {
+      points: { widths: [36.5, 36.125, 36.25], heights: [48.25, 48.5, 48] },
+    });
+    const verification = verifyMeasurement([pass], { widthInches: 36.125, heightInches: 48 }, 'inside', tape);
+    expect(verification.passes[0]).toEqual({ widthInches: 0.125, heightInches: 0, category: 'OK' });
+  });
+});
+
+describe('accuracyStats', () => {
+  it('reports the mean and 95th percentile of absolute errors', () => {
+    const errors = Array.from({ length: 20 }, (_, i) => (i % 2 ? -1 : 1) * (i + 1) * 0.01);
+    const stats = accuracyStats(errors);
+    expect(stats.count).toBe(20);
+    expect(stats.meanErrorInches).toBeCloseTo(0.105);
+    expect(stats.p95ErrorInches).toBeCloseTo(0.19);
+  });
+
+  it('is empty without errors', () => {
+    expect(accuracyStats([])).toEqual({ count: 0, meanErrorInches: 0, p95ErrorInches: 0 });
+  });
+});
+
+describe('accuracyReport', () => {
+  it('groups single passes by provider, mount type and confidence', () => {
+    const samples: VerificationSample[] = [
+      {
+        providerType: 'web',
+        verification: verifyMeasurement(
+          [createPassResult(36.25, 48), createPassResult(36, 47.5, 0.5)],
+          { widthInches: 36.125, heightInches: 48 },
+          'outside',
+          tape
+        ),
+      },
+      {
+        providerType: null,
+        verification: verifyMeasurement(
+          [
+            createPassResult(36.5, 48.5, 0.5, {
+              points: { widths: [36.5, 36.5, 36.5], heights: [48.5, 48.5, 48.5] },
+            }),
+          ],
+          { widthInches: 36.5, heightInches: 48.5 },
+          'inside',
+          tape
+        ),
+      },
+    ];
+
+    const report = accuracyReport(samples);
+    expect(report.windows).toBe(2);
+    expect(report.overall).toMatchObject({ count: 4, meanErrorInches: 0.28125, p95ErrorInches: 0.5 });
+    expect(report.byProvider.map((g) => [g.label, g.count])).toEqual([
+      ['web', 4],
+      ['unknown', 2],
+    ]);
+    expect(report.byMountType.find((g) => g.label === 'inside')?.meanErrorInches).toBe(0.5);
+    expect(report.byCategory.find((g) => g.label === 'Not Great')).toMatchObject({
+      count: 4,
+      meanErrorInches: 0.375,
+      p95ErrorInches: 0.5,
+    });
+  });
+});
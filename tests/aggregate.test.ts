@@ -1,24 +1,14 @@
-import { aggregateResults, shouldRecommendAdditionalPass } from '@/utils/aggregate';
+import { aggregateResults, shouldRecommendAdditionalPass, DEFAULT_PASS_POLICY } from '@/utils/aggregate';
+import { DEFAULT_MOUNT_RULES, exceedsSquareTolerance } from '@/utils/mount';
+import {
+  aggregationStrategies,
+  combineReadings,
+  isAggregationStrategyId,
+  MIN_UNCERTAINTY_INCHES,
+} from '@/utils/aggregationStrategies';
+import { formatInchesFraction } from '@/utils/format';
 import type { PassResult } from '@/providers/types';
-
-// Helper to create test pass results
-function createPassResult(
-  width: number,
-  height: number,
-  confidence: number
-): PassResult {
-  return {
-    widthInInches: width,
-    heightInInches: height,
-    confidence,
-    category: confidence >= 0.85 ? 'Excellent' : confidence >= 0.65 ? 'OK' : 'Not Great',
-    timestamp: Date.now(),
-    frameMetadata: {
-      pxToInchUsed: null,
-      detectorConfidence: confidence,
-    },
-  };
-}
+import { createPassResult } from './fixtures/passResults';
 
 describe('aggregateResults', () => {
   it('returns zeros for empty passes', () => {
@@ -38,8 +28,7 @@ describe('aggregateResults', () => {
     ];
 
     const result = aggregateResults(passes);
-    // Max width is 36.2, rounded up to 36 1/4 (36.25)
-    expect(result.widthInches).toBe(36.25);
+    expect(result.widthInches).toBe(36.2);
   });
 
   it('uses max height across passes', () => {
@@ -50,18 +39,27 @@ describe('aggregateResults', () => {
     ];
 
     const result = aggregateResults(passes);
-    // Max height is 48.3, rounded up to 48 5/16 (48.3125)
-    expect(result.heightInches).toBe(48.3125);
+    expect(result.heightInches).toBe(48.3);
   });
 
-  it('rounds dimensions UP to nearest 1/16', () => {
+  it('leaves rounding to the display format', () => {
     const passes = [createPassResult(36.01, 48.01, 0.8)];
 
     const result = aggregateResults(passes);
-    // 36.01 rounds up to 36 1/16 (36.0625)
-    expect(result.widthInches).toBe(36.0625);
-    // 48.01 rounds up to 48 1/16 (48.0625)
-    expect(result.heightInches).toBe(48.0625);
+    expect(result.widthInches).toBe(36.01);
+    expect(result.heightInches).toBe(48.01);
+    expect(result.orderWidthInches).toBe(36.01 + 2 * DEFAULT_MOUNT_RULES.outsideSideOverlap);
+  });
+
+  it('rounds the size once, in the chosen precision or unit', () => {
+    const result = aggregateResults([createPassResult(36.01, 48.01, 0.8)]);
+    expect(formatInchesFraction(result.widthInches, { unit: 'in', precision: 32 })).toBe('36 1/32"');
+    expect(formatInchesFraction(result.widthInches, { unit: 'in', precision: 16 })).toBe('36 1/16"');
+    // Not 916 mm from rounding up to 1/16" first
+    expect(formatInchesFraction(result.widthInches, { unit: 'mm', precision: 16 })).toBe('915 mm');
+
+    const inside = aggregateResults([createPassResult(36.01, 48.01, 0.8)], { mountType: 'inside' });
+    expect(formatInchesFraction(inside.orderWidthInches, { unit: 'in', precision: 32 })).toBe('35 25/32"');
   });
 
   it('calculates average confidence', () => {
@@ -98,6 +96,88 @@ describe('aggregateResults', () => {
     expect(aggregateResults(notGreatPasses).category).toBe('Not Great');
   });
 
+  it('reports the narrowest width and shortest height for inside mount', () => {
+    const passes: PassResult[] = [
+      { ...createPassResult(36, 48, 0.9), points: { widths: [36, 35.5, 36.25], heights: [48, 47.9, 48] } },
+      { ...createPassResult(36, 48, 0.9), points: { widths: [36.1, 35.4, 36.2], heights: [48.2, 48, 47.7] } },
+    ];
+
+    const result = aggregateResults(passes, { mountType: 'inside' });
+    // Each point keeps its largest reading, then the smallest point wins
+    expect(result.points).toEqual({ widths: [36.1, 35.5, 36.25], heights: [48.2, 48, 48] });
+    expect(result.widthInches).toBe(35.5);
+    expect(result.heightInches).toBe(48);
+  });
+
+  it('uses the single width/height at every point when a pass has none', () => {
+    const passes: PassResult[] = [
+      createPassResult(35.8, 48, 0.9),
+      { ...createPassResult(36, 48, 0.9), points: { widths: [36, 35.6, 36], heights: [48, 48, 47.5] } },
+    ];
+
+    const result = aggregateResults(passes, { mountType: 'inside' });
+    expect(result.widthInches).toBe(35.8);
+    expect(result.heightInches).toBe(48);
+  });
+
+  it('ignores three-point readings for outside mount', () => {
+    const passes: PassResult[] = [
+      { ...createPassResult(36, 48, 0.9), points: { widths: [36, 35, 36], heights: [48, 47, 48] } },
+    ];
+
+    const result = aggregateResults(passes, { mountType: 'outside' });
+    expect(result.widthInches).toBe(36);
+    expect(result.heightInches).toBe(48);
+    expect(result.points).toBeNull();
+  });
+
+  it('deducts clearance from the inside mount order width', () => {
+    const result = aggregateResults([createPassResult(35.5, 48, 0.9)], { mountType: 'inside' });
+
+    expect(result.widthInches).toBe(35.5);
+    expect(result.orderWidthInches).toBe(35.25);
+    expect(result.orderHeightInches).toBe(48);
+  });
+
+  it('adds overlap to the outside mount order size', () => {
+    const result = aggregateResults([createPassResult(36, 48, 0.9)], { mountType: 'outside' });
+
+    expect(result.orderWidthInches).toBe(39);
+    expect(result.orderHeightInches).toBe(51);
+  });
+
+  it('applies custom mount rules', () => {
+    const rules = { ...DEFAULT_MOUNT_RULES, insideDeduction: 0.375, outsideSideOverlap: 2, outsideTopOverlap: 2.5 };
+
+    const inside = aggregateResults([createPassResult(36, 48, 0.9)], { mountType: 'inside', rules });
+    expect(inside.orderWidthInches).toBe(35.625);
+    const outside = aggregateResults([createPassResult(36, 48, 0.9)], { mountType: 'outside', rules });
+    expect(outside.orderWidthInches).toBe(40);
+    expect(outside.orderHeightInches).toBe(50.5);
+  });
+
+  it('reports out of square from the mean diagonals', () => {
+    const passes: PassResult[] = [
+      { ...createPassResult(36, 48, 0.9), diagonals: [60.2, 59.8] },
+      createPassResult(36, 48, 0.9),
+      { ...createPassResult(36, 48, 0.9), diagonals: [60.4, 59.8] },
+    ];
+
+    const result = aggregateResults(passes, { mountType: 'inside' });
+    expect(result.outOfSquareInches).toBeCloseTo(0.5, 10);
+    expect(exceedsSquareTolerance(result.outOfSquareInches)).toBe(true);
+    expect(
+      exceedsSquareTolerance(result.outOfSquareInches, { ...DEFAULT_MOUNT_RULES, outOfSquareTolerance: 0.5 })
+    ).toBe(false);
+  });
+
+  it('leaves out of square unknown when no pass measured diagonals', () => {
+    const result = aggregateResults([createPassResult(36, 48, 0.9)], { mountType: 'inside' });
+
+    expect(result.outOfSquareInches).toBeNull();
+    expect(exceedsSquareTolerance(result.outOfSquareInches)).toBe(false);
+  });
+
   it('tracks pass count', () => {
     const passes = [
       createPassResult(36, 48, 0.8),
@@ -109,21 +189,135 @@ describe('aggregateResults', () => {
   });
 });
 
+describe('aggregation strategies', () => {
+  // Two close passes and one that misread by 2"
+  const readings = [
+    { value: 36, confidence: 0.9 },
+    { value: 36.125, confidence: 0.8 },
+    { value: 38, confidence: 0.6 },
+  ];
+
+  it('takes the largest reading with max', () => {
+    const result = combineReadings(readings, 'max');
+    expect(result.value).toBe(38);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it('weights the mean by confidence', () => {
+    const result = combineReadings(readings, 'weighted-mean');
+    expect(result.value).toBeCloseTo((36 * 0.9 + 36.125 * 0.8 + 38 * 0.6) / 2.3, 10);
+    expect(result.uncertainty).toBeGreaterThan(0.3);
+  });
+
+  it('takes the middle reading with median', () => {
+    expect(combineReadings(readings, 'median').value).toBe(36.125);
+  });
+
+  it('drops the single highest reading with trimmed max', () => {
+    const result = combineReadings(readings, 'trimmed-max');
+    expect(result.value).toBe(36.125);
+    expect(result.rejected).toEqual([2]);
+  });
+
+  it('rejects readings far from the median with MAD', () => {
+    const result = combineReadings(readings, 'mad');
+    expect(result.rejected).toEqual([2]);
+    expect(result.value).toBeCloseTo((36 * 0.9 + 36.125 * 0.8) / 1.7, 10);
+    expect(result.uncertainty).toBeLessThan(0.125);
+  });
+
+  it('rejects an outlier even when the other readings agree exactly', () => {
+    const agreeing = [
+      { value: 36, confidence: 0.9 },
+      { value: 36, confidence: 0.9 },
+      { value: 37, confidence: 0.9 },
+    ];
+    expect(combineReadings(agreeing, 'mad')).toEqual({ value: 36, uncertainty: MIN_UNCERTAINTY_INCHES, rejected: [2] });
+  });
+
+  it('keeps every reading when there are too few to judge', () => {
+    expect(combineReadings(readings.slice(1), 'mad').rejected).toEqual([]);
+    expect(combineReadings(readings.slice(1), 'trimmed-max').rejected).toEqual([]);
+  });
+
+  it('never reports less than 1/16" of uncertainty', () => {
+    Object.values(aggregationStrategies).forEach((strategy) => {
+      expect(strategy.combine([{ value: 36, confidence: 0.9 }]).uncertainty).toBe(MIN_UNCERTAINTY_INCHES);
+    });
+  });
+
+  it('knows only its own strategy names', () => {
+    expect(isAggregationStrategyId('trimmed-max')).toBe(true);
+    expect(isAggregationStrategyId('mean')).toBe(false);
+    expect(isAggregationStrategyId('toString')).toBe(false);
+  });
+
+  it('records the strategy and the passes it left out', () => {
+    const passes = [
+      createPassResult(36, 48, 0.9),
+      createPassResult(36.125, 48, 0.8),
+      createPassResult(38, 48.0625, 0.6),
+    ];
+
+    const byMax = aggregateResults(passes);
+    expect(byMax.strategy).toBe('max');
+    expect(byMax.widthInches).toBe(38);
+
+    const byMad = aggregateResults(passes, { strategy: 'mad' });
+    expect(byMad.strategy).toBe('mad');
+    expect(byMad.rejectedPasses).toEqual([2]);
+    expect(byMad.widthInches).toBeCloseTo(36.0588, 4);
+    expect(byMad.widthUncertaintyInches).toBeLessThan(0.125);
+  });
+
+  it('combines each inside mount point with the strategy', () => {
+    const passes: PassResult[] = [36, 36.125, 38].map((top) => ({
+      ...createPassResult(36, 48, 0.9),
+      points: { widths: [top, 35.75, 36], heights: [48, 48, 48] },
+    }));
+
+    const result = aggregateResults(passes, { mountType: 'inside', strategy: 'median' });
+    expect(result.points?.widths).toEqual([36.125, 35.75, 36]);
+    expect(result.widthInches).toBe(35.75);
+  });
+});
+
 describe('shouldRecommendAdditionalPass', () => {
   it('does not recommend for empty passes', () => {
     const result = shouldRecommendAdditionalPass([]);
     expect(result.recommend).toBe(false);
   });
 
-  it('does not recommend if at 3 passes', () => {
+  it('does not recommend once the maximum passes are taken', () => {
+    const passes = Array.from({ length: DEFAULT_PASS_POLICY.maxPasses }, () => createPassResult(36, 48, 0.5));
+    const result = shouldRecommendAdditionalPass(passes);
+    expect(result.recommend).toBe(false);
+    expect(result.reason).toContain('Maximum passes');
+  });
+
+  it('honors a custom maximum', () => {
     const passes = [
       createPassResult(36, 48, 0.5),
       createPassResult(36, 48, 0.5),
       createPassResult(36, 48, 0.5),
     ];
-    const result = shouldRecommendAdditionalPass(passes);
-    expect(result.recommend).toBe(false);
-    expect(result.reason).toContain('Maximum passes');
+    const policy = { ...DEFAULT_PASS_POLICY, maxPasses: 3 };
+    expect(shouldRecommendAdditionalPass(passes).recommend).toBe(true);
+    expect(shouldRecommendAdditionalPass(passes, { policy }).recommend).toBe(false);
+  });
+
+  it('recommends until the minimum passes are taken', () => {
+    const result = shouldRecommendAdditionalPass([createPassResult(36, 48, 0.95)]);
+    expect(result.recommend).toBe(true);
+  });
+
+  it('judges agreement against the target uncertainty', () => {
+    // 3/8" apart: a standard error of about 0.19"
+    const passes = [createPassResult(36, 48, 0.9), createPassResult(36.375, 48, 0.9)];
+    expect(shouldRecommendAdditionalPass(passes).recommend).toBe(true);
+
+    const policy = { ...DEFAULT_PASS_POLICY, targetUncertaintyInches: 1 / 4 };
+    expect(shouldRecommendAdditionalPass(passes, { policy }).recommend).toBe(false);
   });
 
   it('recommends for low confidence', () => {
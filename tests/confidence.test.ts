@@ -0,0 +1,138 @@
+import {
+  categorizeConfidence,
+  DEFAULT_CONFIDENCE_POLICY,
+  getConfidencePolicy,
+  parseConfidencePolicy,
+  setConfidencePolicy,
+} from '@/utils/confidence';
+import { aggregateResults, shouldRecommendAdditionalPass } from '@/utils/aggregate';
+import { measureDetection, type ScaleEstimate } from '@/providers/frameMeasurement';
+import { MockProvider } from '@/providers/MockProvider';
+import { mockScenarios } from '@/providers/mockScenarios';
+import { cornersFromBounds } from '@/detection/geometry';
+import type { DetectionResult } from '@/providers/types';
+import { createPassResult } from './fixtures/passResults';
+
+function createDetection(confidence: number): DetectionResult {
+  const bounds = { x: 0.2, y: 0.1, width: 0.6, height: 0.8 };
+  return { ...bounds, confidence, corners: cornersFromBounds(bounds, confidence) };
+}
+
+const scale: ScaleEstimate = {
+  pxToInch: 0.1,
+  referenceId: 'us-letter',
+  corners: [],
+  frameWidth: 640,
+  frameHeight: 480,
+  aspectError: null,
+  marker: null,
+};
+
+const measureInput = {
+  sourceWidth: 640,
+  sourceHeight: 480,
+  providerType: 'web' as const,
+  captureNumber: 1,
+  referenceRequested: null,
+};
+
+afterEach(() => {
+  setConfidencePolicy(null);
+  jest.restoreAllMocks();
+});
+
+describe('categorizeConfidence', () => {
+  it('rates against the default thresholds', () => {
+    expect(categorizeConfidence(0.85)).toBe('Excellent');
+    expect(categorizeConfidence(0.849)).toBe('OK');
+    expect(categorizeConfidence(0.65)).toBe('OK');
+    expect(categorizeConfidence(0.649)).toBe('Not Great');
+  });
+});
+
+describe('parseConfidencePolicy', () => {
+  it('merges a partial policy over the defaults', () => {
+    expect(parseConfidencePolicy({ excellent: 0.9 })).toEqual({ ...DEFAULT_CONFIDENCE_POLICY, excellent: 0.9 });
+  });
+
+  it('ignores thresholds that are not fractions', () => {
+    expect(parseConfidencePolicy({ ok: 65, additionalPass: '0.7' })).toEqual(DEFAULT_CONFIDENCE_POLICY);
+    expect(parseConfidencePolicy(null)).toEqual(DEFAULT_CONFIDENCE_POLICY);
+  });
+
+  it('keeps the default categories when OK is above Excellent', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const policy = parseConfidencePolicy({ ok: 0.9, excellent: 0.8, additionalPass: 0.7 });
+    expect(policy).toEqual({ ...DEFAULT_CONFIDENCE_POLICY, additionalPass: 0.7 });
+  });
+});
+
+describe('confidence policy consumers', () => {
+  const confidences = [0.3, 0.6, 0.649, 0.65, 0.7, 0.8, 0.849, 0.85, 0.9, 0.95];
+
+  async function expectAllPathsAgree() {
+    confidences.forEach((confidence) => {
+      const expected = categorizeConfidence(confidence);
+
+      expect(aggregateResults([createPassResult(36, 48, confidence)]).category).toBe(expected);
+
+      // Scaled and unscaled measurements rate their own adjusted confidence
+      [scale, null].forEach((s) => {
+        const pass = measureDetection({ ...measureInput, detection: createDetection(confidence), scale: s });
+        expect(pass.category).toBe(categorizeConfidence(pass.confidence));
+      });
+    });
+
+    const mock = new MockProvider();
+    for (let i = 0; i < 6; i++) {
+      const pass = await mock.capture();
+      expect(pass.category).toBe(categorizeConfidence(pass.confidence));
+    }
+  }
+
+  it('agree with the default policy', () => expectAllPathsAgree());
+
+  it('agree with a tuned policy', () => {
+    setConfidencePolicy({ ...DEFAULT_CONFIDENCE_POLICY, excellent: 0.9, ok: 0.8 });
+    expect(categorizeConfidence(0.85)).toBe('OK');
+    expect(aggregateResults([createPassResult(36, 48, 0.85)]).category).toBe('OK');
+    return expectAllPathsAgree();
+  });
+
+  it('asks for another pass below the policy threshold', () => {
+    const confident = [createPassResult(36, 48, 0.76), createPassResult(36, 48, 0.76)];
+    expect(shouldRecommendAdditionalPass(confident).recommend).toBe(false);
+
+    const passes = [createPassResult(36, 48, 0.7), createPassResult(36, 48, 0.7)];
+    expect(shouldRecommendAdditionalPass(passes).reason).toContain('Low confidence');
+
+    setConfidencePolicy({ ...getConfidencePolicy(), additionalPass: 0.65 });
+    expect(shouldRecommendAdditionalPass(passes).recommend).toBe(false);
+  });
+
+  it('suggests a capture only above the policy threshold', async () => {
+    jest.useFakeTimers();
+    // A steady detection at 0.68, just under the default 0.7
+    const scenario = { ...mockScenarios.default, confidenceCurve: { start: 0.68, perFrame: 0, limit: 0.68 } };
+    const suggestions = async () => {
+      const mock = new MockProvider(scenario);
+      const ready = mock.initialize();
+      await jest.advanceTimersByTimeAsync(500);
+      await ready;
+      return Array.from({ length: 150 }, () => {
+        mock.getDetection();
+        mock.getStability();
+        return mock.suggestCapture();
+      });
+    };
+
+    try {
+      expect((await suggestions()).some(Boolean)).toBe(false);
+
+      setConfidencePolicy({ ...getConfidencePolicy(), captureSuggestion: 0.65 });
+      expect((await suggestions()).some(Boolean)).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
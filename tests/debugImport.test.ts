@@ -0,0 +1,113 @@
+import {
+  filterDebugRecords,
+  parseDebugLogFile,
+  recordDetection,
+  recordType,
+} from '@/utils/debugImport';
+import { appendDebugRecord, appendDepthRecord, exportDebugLog, type DebugRecord } from '@/utils/debugLog';
+import { MemoryDebugStore, setDebugLogStore } from '@/utils/debugStore';
+import { checkDepth } from '@/utils/depth';
+import { manualPassResult } from '@/utils/manualEntry';
+import { measureDetection } from '@/providers/frameMeasurement';
+import { cornersFromBounds } from '@/detection/geometry';
+
+const bounds = { x: 0.2, y: 0.1, width: 0.6, height: 0.8 };
+
+function cameraPass() {
+  return measureDetection({
+    detection: { ...bounds, confidence: 0.9, corners: cornersFromBounds(bounds, 0.9) },
+    scale: null,
+    sourceWidth: 640,
+    sourceHeight: 480,
+    providerType: 'web',
+    captureNumber: 1,
+    referenceRequested: null,
+  });
+}
+
+async function exportedLog(): Promise<string> {
+  setDebugLogStore(new MemoryDebugStore());
+  await appendDebugRecord(cameraPass(), 'web');
+  await appendDebugRecord(manualPassResult({ widths: [36], heights: [48] }), null);
+  await appendDepthRecord(
+    checkDepth(3.5, 'manual', 'roller'),
+    { widthInches: 36, heightInches: 48, confidence: 1, category: 'Excellent' },
+    null
+  );
+  return exportDebugLog();
+}
+
+afterEach(() => setDebugLogStore(null));
+
+describe('parseDebugLogFile', () => {
+  it('reads back an exported log', async () => {
+    const parsed = parseDebugLogFile(await exportedLog());
+    if (!parsed.ok) throw new Error(parsed.error);
+
+    expect(parsed.skipped).toBe(0);
+    expect(parsed.records.map(recordType)).toEqual(['pass', 'pass', 'depth']);
+    expect(parsed.records.map((record) => record.providerType)).toEqual(['web', null, null]);
+  });
+
+  it('skips records it cannot read and migrates old ones', () => {
+    const legacy = {
+      timestamp: 2000,
+      rawWidthInches: 36,
+      rawHeightInches: 48,
+      confidence: 0.7,
+      category: 'OK',
+      providerType: 'mock',
+      metadata: {},
+    };
+    const parsed = parseDebugLogFile(JSON.stringify([legacy, { ...legacy, category: 'Great' }, 'junk']));
+    if (!parsed.ok) throw new Error(parsed.error);
+
+    expect(parsed.skipped).toBe(2);
+    expect(parsed.records[0]).toMatchObject({ source: 'camera', providerType: 'mock' });
+  });
+
+  it('rejects files that are not debug logs', () => {
+    expect(parseDebugLogFile('not json')).toEqual({ ok: false, error: "This file isn't a debug log (not JSON)" });
+    expect(parseDebugLogFile('{"records": []}')).toMatchObject({ ok: false });
+    expect(parseDebugLogFile('[{"hello": 1}]')).toEqual({ ok: false, error: 'No readable records in this debug log' });
+  });
+});
+
+describe('viewing records', () => {
+  let records: DebugRecord[];
+
+  beforeAll(async () => {
+    const parsed = parseDebugLogFile(await exportedLog());
+    records = parsed.ok ? parsed.records : [];
+  });
+
+  it('filters by provider, category and record type', () => {
+    expect(filterDebugRecords(records, { providerType: 'web' })).toHaveLength(1);
+    expect(filterDebugRecords(records, { providerType: null })).toHaveLength(2);
+    expect(filterDebugRecords(records, { providerType: null, recordType: 'pass' })).toHaveLength(1);
+    // Without a scale reference the camera pass is rated down
+    expect(filterDebugRecords(records, { category: 'Not Great' }).map((r) => r.providerType)).toEqual(['web']);
+  });
+
+  it('finds the detection a camera pass was measured from', () => {
+    expect(recordDetection(records[0])).toEqual({
+      bounds,
+      corners: cornersFromBounds(bounds, 0.9),
+    });
+    expect(recordDetection(records[1])).toBeNull();
+  });
+
+  it('draws the corners that were measured, after adjustment', () => {
+    const adjusted = cornersFromBounds({ x: 0.25, y: 0.1, width: 0.5, height: 0.8 }, 1);
+    const record = {
+      ...records[0],
+      metadata: { ...records[0].metadata, detectionCorners: adjusted, detectedCorners: cornersFromBounds(bounds, 0.9) },
+    };
+    expect(recordDetection(record)?.corners).toEqual(adjusted);
+  });
+
+  it('falls back to the bounds without measured corners', () => {
+    const record = { ...records[0], metadata: { ...records[0].metadata, detectionCorners: null } };
+    expect(recordDetection(record)).toEqual({ bounds, corners: null });
+  });
+});
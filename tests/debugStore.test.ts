@@ -0,0 +1,152 @@
+import {
+  DEBUG_SCHEMA_VERSION,
+  MemoryDebugStore,
+  migrateDebugRecord,
+  migrateLegacyLog,
+  setDebugLogStore,
+} from '@/utils/debugStore';
+import {
+  appendDebugRecord,
+  clearDebugLog,
+  countDebugRecords,
+  getDebugLog,
+  type DebugRecord,
+} from '@/utils/debugLog';
+import { updateSettings } from '@/utils/settings';
+import type { ConfidenceCategory, ProviderType } from '@/providers/types';
+import { createPassResult } from './fixtures/passResults';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createRecord(
+  timestamp: number,
+  providerType: ProviderType | null = 'web',
+  category: ConfidenceCategory = 'Excellent'
+): DebugRecord {
+  return {
+    schemaVersion: DEBUG_SCHEMA_VERSION,
+    timestamp,
+    timestampFormatted: new Date(timestamp).toISOString(),
+    rawWidthInches: 36,
+    rawHeightInches: 48,
+    displayWidth: '36"',
+    displayHeight: '48"',
+    confidence: 0.9,
+    category,
+    source: providerType ? 'camera' : 'manual',
+    providerType,
+    metadata: {},
+  };
+}
+
+// A version 1 record, as stored in localStorage before manual entry existed
+const legacyRecord = {
+  timestamp: 1000,
+  timestampFormatted: new Date(1000).toISOString(),
+  rawWidthInches: 36,
+  rawHeightInches: 48,
+  displayWidth: '36"',
+  displayHeight: '48"',
+  confidence: 0.7,
+  category: 'OK',
+  providerType: 'mock',
+  metadata: { provider: 'mock' },
+};
+
+afterEach(() => {
+  localStorage.clear();
+  setDebugLogStore(null);
+});
+
+describe('migrateDebugRecord', () => {
+  it('brings version 1 records up to date', () => {
+    expect(migrateDebugRecord(legacyRecord)).toEqual({
+      ...legacyRecord,
+      source: 'camera',
+      schemaVersion: DEBUG_SCHEMA_VERSION,
+    });
+  });
+
+  it('rejects records it cannot read', () => {
+    expect(migrateDebugRecord(null)).toBeNull();
+    expect(migrateDebugRecord({ rawWidthInches: 36 })).toBeNull();
+    expect(migrateDebugRecord({ ...legacyRecord, schemaVersion: DEBUG_SCHEMA_VERSION + 1 })).toBeNull();
+  });
+});
+
+describe('MemoryDebugStore', () => {
+  it('queries by time range, provider and category, oldest first', async () => {
+    const store = new MemoryDebugStore();
+    await store.add([
+      createRecord(300, 'web', 'OK'),
+      createRecord(100, 'web'),
+      createRecord(200, null),
+      createRecord(400, 'mock', 'Not Great'),
+    ]);
+
+    const times = async (query: Parameters<typeof store.query>[0]) =>
+      (await store.query(query)).map((record) => record.timestamp);
+    expect(await times({})).toEqual([100, 200, 300, 400]);
+    expect(await times({ from: 200, to: 300 })).toEqual([200, 300]);
+    expect(await times({ providerType: 'web' })).toEqual([100, 300]);
+    expect(await times({ providerType: null })).toEqual([200]);
+    expect(await times({ category: 'Not Great' })).toEqual([400]);
+    expect(await times({ from: 150, providerType: 'web' })).toEqual([300]);
+  });
+
+  it('prunes by age and count', async () => {
+    const now = 100 * DAY_MS;
+    const store = new MemoryDebugStore();
+    await store.add([10, 50, 80, 90, 99].map((day) => createRecord(day * DAY_MS)));
+
+    await store.prune({ maxRecords: null, maxAgeDays: 30 }, now);
+    expect(await store.count()).toBe(3);
+
+    await store.prune({ maxRecords: 2, maxAgeDays: null }, now);
+    expect((await store.query()).map((record) => record.timestamp / DAY_MS)).toEqual([90, 99]);
+  });
+});
+
+describe('migrateLegacyLog', () => {
+  it('moves the localStorage log into a persistent store', async () => {
+    localStorage.setItem('wm-debug-log', JSON.stringify([legacyRecord, 'junk']));
+    const store = Object.assign(new MemoryDebugStore(), { persistent: true });
+
+    await migrateLegacyLog(store);
+    expect(await store.query()).toEqual([migrateDebugRecord(legacyRecord)]);
+    expect(localStorage.getItem('wm-debug-log')).toBeNull();
+  });
+
+  it('leaves the old log in place when the store will not outlive the page', async () => {
+    localStorage.setItem('wm-debug-log', JSON.stringify([legacyRecord]));
+    const store = new MemoryDebugStore();
+
+    await migrateLegacyLog(store);
+    expect(await store.count()).toBe(1);
+    expect(localStorage.getItem('wm-debug-log')).not.toBeNull();
+  });
+});
+
+describe('debug log', () => {
+  it('falls back to memory without IndexedDB, carrying over the old log', async () => {
+    localStorage.setItem('wm-debug-log', JSON.stringify([{ ...legacyRecord, timestamp: Date.now() - 1000 }]));
+    await appendDebugRecord(createPassResult(), 'web');
+
+    const log = await getDebugLog();
+    expect(log.map((record) => record.providerType)).toEqual(['mock', 'web']);
+    expect(log[1]).toMatchObject({ schemaVersion: DEBUG_SCHEMA_VERSION, source: 'camera' });
+
+    await clearDebugLog();
+    expect(await countDebugRecords()).toBe(0);
+  });
+
+  it('keeps only what the retention setting allows', async () => {
+    setDebugLogStore(new MemoryDebugStore());
+    updateSettings({ debugRetention: { maxRecords: 3, maxAgeDays: null } });
+
+    for (let i = 0; i < 5; i++) {
+      await appendDebugRecord(createPassResult(36, 48, 0.9, { timestamp: Date.now() + i }), 'web');
+    }
+    expect(await countDebugRecords()).toBe(3);
+  });
+});
@@ -0,0 +1,76 @@
+import { checkDepth, depthFromJambShot, SHADE_PRODUCTS } from '@/utils/depth';
+import { MockProvider } from '@/providers/MockProvider';
+import type { PassResult, ReferenceObjectId } from '@/providers/types';
+
+function createShot(width: number, height: number, scaleReference: ReferenceObjectId | null = null): PassResult {
+  return {
+    widthInInches: width,
+    heightInInches: height,
+    confidence: 0.7,
+    category: 'OK',
+    timestamp: Date.now(),
+    frameMetadata: {
+      pxToInchUsed: scaleReference ? 100 : null,
+      scaleReference,
+      detectorConfidence: 0.7,
+    },
+  };
+}
+
+describe('checkDepth', () => {
+  it('passes frames at or beyond the product minimum', () => {
+    const minimum = SHADE_PRODUCTS.roller.minInsideDepthInches;
+
+    expect(checkDepth(minimum, 'manual', 'roller').feasible).toBe(true);
+    expect(checkDepth(minimum + 1, 'manual', 'roller').feasible).toBe(true);
+  });
+
+  it('fails frames shallower than the product minimum', () => {
+    const result = checkDepth(3, 'photo', 'wood-blind');
+
+    expect(result).toEqual({
+      depthInches: 3,
+      source: 'photo',
+      productId: 'wood-blind',
+      minimumDepthInches: 3.25,
+      feasible: false,
+    });
+  });
+});
+
+describe('depthFromJambShot', () => {
+  it('scales the jamb face proportions by the opening height', () => {
+    // The face is 1:16, so 3" deep for a 48" tall opening
+    const jamb = depthFromJambShot(createShot(2.5, 40, 'credit-card'), 48);
+    expect(jamb?.source).toBe('photo');
+    expect(jamb?.depthInches).toBeCloseTo(3, 10);
+  });
+
+  it('only estimates the depth without a reference scale', () => {
+    // 3.15" reads as a rough 3", not a precise 3 1/8"
+    expect(depthFromJambShot(createShot(2.625, 40), 48)).toEqual({ depthInches: 3, source: 'estimate' });
+    expect(depthFromJambShot(createShot(2.625, 40, 'credit-card'), 48)?.depthInches).toBeCloseTo(3.15, 10);
+  });
+
+  it('gets a usable estimate from a simulated jamb shot', async () => {
+    jest.useFakeTimers();
+    try {
+      const mock = new MockProvider();
+      const ready = mock.initialize();
+      await jest.advanceTimersByTimeAsync(500);
+      await ready;
+
+      const pass = await mock.capture();
+      const jamb = depthFromJambShot(await mock.capture({ subject: 'jamb' }), pass.heightInInches);
+      expect(jamb?.source).toBe('estimate');
+      expect(Math.abs((jamb?.depthInches ?? 0) - mock.scenario.jambDepthInches)).toBeLessThanOrEqual(0.5);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('rejects shots that cannot be a jamb', () => {
+    expect(depthFromJambShot(createShot(36, 48), 48)).toBeNull();
+    expect(depthFromJambShot(createShot(3, 0), 48)).toBeNull();
+  });
+});
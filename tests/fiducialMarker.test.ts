@@ -0,0 +1,180 @@
+import { detectWindowFrame } from '@/detection/frameDetector';
+import { rectifyQuad } from '@/detection/homography';
+import { cornersToPixels, type Point } from '@/detection/geometry';
+import {
+  detectFiducialMarker,
+  estimateMarkerPose,
+  matchMarkerCode,
+  rotateMarkerCode,
+  FIDUCIAL_MARKER_CODES,
+  FIDUCIAL_MARKER_SIZE_INCHES,
+} from '@/detection/fiducialMarker';
+import { projectRectangle, renderWindowScene } from './fixtures/windowScenes';
+
+// ~10 px/inch on a 36" × 48" window, turned slightly away from the camera
+const camera = {
+  distanceInches: 84,
+  yawDegrees: 20,
+  pitchDegrees: 8,
+  focalPx: 840,
+  imageWidth: 800,
+  imageHeight: 600,
+};
+
+const markerCenter: Point = { x: -6, y: 8 };
+
+/**
+ * Overlays for a letter sheet carrying the marker, optionally turned by
+ * quarter turns clockwise on the glass
+ */
+function markerOverlays(code: number, quarterTurns = 0) {
+  let bits = code;
+  for (let i = 0; i < quarterTurns; i++) bits = rotateMarkerCode(bits);
+
+  const cell = FIDUCIAL_MARKER_SIZE_INCHES / 6;
+  const overlays = [
+    {
+      quad: projectRectangle({ ...camera, widthInches: 8.5, heightInches: 11, centerInches: markerCenter }),
+      value: 245,
+    },
+    {
+      quad: projectRectangle({
+        ...camera,
+        widthInches: FIDUCIAL_MARKER_SIZE_INCHES,
+        heightInches: FIDUCIAL_MARKER_SIZE_INCHES,
+        centerInches: markerCenter,
+      }),
+      value: 15,
+    },
+  ];
+
+  // Paint the white payload cells over the black square
+  for (let y = 0; y < 4; y++) {
+    for (let x = 0; x < 4; x++) {
+      if ((bits >> (15 - (y * 4 + x))) & 1) continue;
+      overlays.push({
+        quad: projectRectangle({
+          ...camera,
+          widthInches: cell,
+          heightInches: cell,
+          centerInches: {
+            x: markerCenter.x + (x - 1.5) * cell,
+            y: markerCenter.y + (y - 1.5) * cell,
+          },
+        }),
+        value: 245,
+      });
+    }
+  }
+  return overlays;
+}
+
+function renderScene(overlays: ReturnType<typeof markerOverlays>) {
+  return renderWindowScene({
+    width: camera.imageWidth,
+    height: camera.imageHeight,
+    quad: projectRectangle({ ...camera, widthInches: 36, heightInches: 48 }),
+    overlays,
+    // Pose needs sub-pixel edges, as an antialiased camera frame has
+    supersample: 4,
+  });
+}
+
+function rectifyWindow(image: ReturnType<typeof renderWindowScene>) {
+  const { width, height } = image;
+  const detection = detectWindowFrame(image)!;
+  return rectifyQuad(cornersToPixels(detection.corners, width, height), width, height)!;
+}
+
+describe('marker codes', () => {
+  it('keeps every code at least 6 cells from every other code and rotation', () => {
+    const distance = (a: number, b: number) => (a ^ b).toString(2).replace(/0/g, '').length;
+
+    FIDUCIAL_MARKER_CODES.forEach((code, i) => {
+      let rotated = rotateMarkerCode(code);
+      for (let turn = 1; turn < 4; turn++) {
+        expect(distance(code, rotated)).toBeGreaterThanOrEqual(6);
+        rotated = rotateMarkerCode(rotated);
+      }
+      FIDUCIAL_MARKER_CODES.slice(i + 1).forEach((other) => {
+        let turned = other;
+        for (let turn = 0; turn < 4; turn++) {
+          expect(distance(code, turned)).toBeGreaterThanOrEqual(6);
+          turned = rotateMarkerCode(turned);
+        }
+      });
+    });
+  });
+
+  it('reports rotation and corrects a single misread cell', () => {
+    const code = FIDUCIAL_MARKER_CODES[2];
+    const turned = rotateMarkerCode(rotateMarkerCode(rotateMarkerCode(code)));
+
+    expect(matchMarkerCode(turned)).toEqual({ id: 2, rotation: 3, bitErrors: 0 });
+    expect(matchMarkerCode(turned ^ 0x0010)).toEqual({ id: 2, rotation: 3, bitErrors: 1 });
+    expect(matchMarkerCode(turned ^ 0x0011)).toBeNull();
+  });
+});
+
+describe('estimateMarkerPose', () => {
+  it('recovers plane orientation and distance from the marker corners', () => {
+    const corners = projectRectangle({
+      ...camera,
+      widthInches: FIDUCIAL_MARKER_SIZE_INCHES,
+      heightInches: FIDUCIAL_MARKER_SIZE_INCHES,
+    });
+    const pose = estimateMarkerPose(corners, camera.imageWidth, camera.imageHeight, camera.focalPx)!;
+
+    expect(pose.pitchDegrees).toBeCloseTo(8, 1);
+    expect(Math.abs(pose.yawDegrees - 20)).toBeLessThan(0.5);
+    expect(pose.distanceInches).toBeCloseTo(84, 0);
+    // Yawing then pitching the plane tips its top edge slightly in the image
+    expect(pose.rollDegrees).toBeCloseTo(-2.9, 1);
+  });
+});
+
+describe('detectFiducialMarker', () => {
+  it('decodes the marker and scales the window plane from it', () => {
+    const image = renderScene(markerOverlays(FIDUCIAL_MARKER_CODES[0]));
+    const rectification = rectifyWindow(image);
+    const marker = detectFiducialMarker(image, rectification);
+
+    expect(marker).not.toBeNull();
+    expect(marker!.id).toBe(0);
+    expect(marker!.rotation).toBe(0);
+    expect(marker!.bitErrors).toBe(0);
+    expect(Math.abs(rectification.width * marker!.pxToInch - 36)).toBeLessThan(36 * 0.03);
+    expect(Math.abs(rectification.height * marker!.pxToInch - 48)).toBeLessThan(48 * 0.03);
+    expect(Math.abs(marker!.pose.yawDegrees - 20)).toBeLessThan(4);
+    expect(Math.abs(marker!.pose.pitchDegrees - 8)).toBeLessThan(4);
+  });
+
+  it('orders corners as printed when the sheet is taped sideways', () => {
+    const image = renderScene(markerOverlays(FIDUCIAL_MARKER_CODES[0], 1));
+    const marker = detectFiducialMarker(image, rectifyWindow(image));
+
+    expect(marker).not.toBeNull();
+    expect(marker!.rotation).toBe(1);
+    // The printed top-left corner now sits at the top-right in the image
+    const [printedTopLeft] = marker!.corners;
+    const xs = marker!.corners.map((p) => p.x);
+    const ys = marker!.corners.map((p) => p.y);
+    expect(printedTopLeft.x).toBeGreaterThan((Math.min(...xs) + Math.max(...xs)) / 2);
+    expect(printedTopLeft.y).toBeLessThan((Math.min(...ys) + Math.max(...ys)) / 2);
+    expect(Math.abs(marker!.pose.rollDegrees - 90)).toBeLessThan(5);
+  });
+
+  it('rejects markers with a different ID', () => {
+    const image = renderScene(markerOverlays(FIDUCIAL_MARKER_CODES[1]));
+    const rectification = rectifyWindow(image);
+
+    expect(detectFiducialMarker(image, rectification)).toBeNull();
+    expect(detectFiducialMarker(image, rectification, null)?.id).toBe(1);
+  });
+
+  it('ignores a plain dark square with no payload', () => {
+    const image = renderScene(markerOverlays(0xffff));
+
+    expect(detectFiducialMarker(image, rectifyWindow(image), null)).toBeNull();
+  });
+});
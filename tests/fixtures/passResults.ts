@@ -0,0 +1,29 @@
+/**
+ * Pass result fixtures
+ *
+ * A camera pass with the given size and confidence, categorized the way
+ * providers do it; anything else a test cares about goes in `overrides`.
+ */
+
+import { categorizeConfidence } from '@/utils/confidence';
+import type { PassResult } from '@/providers/types';
+
+export function createPassResult(
+  width = 36,
+  height = 48,
+  confidence = 0.9,
+  overrides: Partial<PassResult> = {}
+): PassResult {
+  return {
+    widthInInches: width,
+    heightInInches: height,
+    confidence,
+    category: categorizeConfidence(confidence),
+    timestamp: Date.now(),
+    frameMetadata: {
+      pxToInchUsed: null,
+      detectorConfidence: confidence,
+    },
+    ...overrides,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Synthetic still-image fixtures for detector tests
+ *
+ * Renders simple RGBA scenes (wall, glass, mullions, noise) in plain
+ * buffers so detectors can be exercised without a canvas.
+ */
+
+import type { ImageDataLike } from '@/detection/frameDetector';
+import type { Point } from '@/detection/geometry';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SceneOptions {
+  width?: number;
+  height?: number;
+  wall?: number;
+  glass?: number;
+  // Window opening in pixels
+  window?: Rect | null;
+  // Rotation of the window about its center (degrees)
+  rotationDegrees?: number;
+  // Arbitrary convex window outline (TL, TR, BR, BL), overrides `window`
+  quad?: Point[] | null;
+  // Vertical and horizontal mullion bars (pixels wide)
+  mullionWidth?: number;
+  // Extra convex shapes drawn on top (e.g. reference objects), TL, TR, BR, BL
+  overlays?: { quad: Point[]; value: number }[];
+  // Samples per pixel side; >1 antialiases edges like a real camera
+  supersample?: number;
+  // Uniform noise amplitude (+/-)
+  noise?: number;
+  seed?: number;
+}
+
+// Small deterministic PRNG so noisy fixtures are stable across runs
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function insideConvexQuad(quad: Point[], x: number, y: number): boolean {
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    // Clockwise in image coordinates (y down) keeps the inside on the right
+    if ((b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x) < 0) return false;
+  }
+  return true;
+}
+
+export interface CameraPose {
+  distanceInches: number;
+  yawDegrees: number;
+  pitchDegrees?: number;
+  focalPx: number;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+/**
+ * Project points on a plane (inches, plane center at the origin) through
+ * a pinhole camera turned by yaw (about the vertical axis) then pitch,
+ * returning their image positions in pixels
+ */
+export function projectPlanePoints(points: Point[], camera: CameraPose): Point[] {
+  const { distanceInches, yawDegrees, focalPx, imageWidth, imageHeight } = camera;
+  const yaw = (yawDegrees * Math.PI) / 180;
+  const pitch = ((camera.pitchDegrees ?? 0) * Math.PI) / 180;
+
+  return points.map(({ x: px, y: py }) => {
+    const x = px * Math.cos(yaw);
+    const zYaw = px * Math.sin(yaw);
+    const y = py * Math.cos(pitch) - zYaw * Math.sin(pitch);
+    const z = distanceInches + py * Math.sin(pitch) + zYaw * Math.cos(pitch);
+    return {
+      x: imageWidth / 2 + (focalPx * x) / z,
+      y: imageHeight / 2 + (focalPx * y) / z,
+    };
+  });
+}
+
+/**
+ * Project a planar rectangle (inches), returning its image corners TL, TR,
+ * BR, BL in pixels
+ */
+export function projectRectangle(
+  options: CameraPose & {
+    widthInches: number;
+    heightInches: number;
+    // Offset of the rectangle's center on its plane (inches)
+    centerInches?: Point;
+  }
+): Point[] {
+  const { widthInches, heightInches } = options;
+  const { x: cx, y: cy } = options.centerInches ?? { x: 0, y: 0 };
+
+  return projectPlanePoints(
+    [
+      { x: cx - widthInches / 2, y: cy - heightInches / 2 },
+      { x: cx + widthInches / 2, y: cy - heightInches / 2 },
+      { x: cx + widthInches / 2, y: cy + heightInches / 2 },
+      { x: cx - widthInches / 2, y: cy + heightInches / 2 },
+    ],
+    options
+  );
+}
+
+export function renderWindowScene(options: SceneOptions = {}): ImageDataLike {
+  const {
+    width = 160,
+    height = 120,
+    wall = 200,
+    glass = 60,
+    window = { x: 40, y: 20, width: 80, height: 80 },
+    rotationDegrees = 0,
+    mullionWidth = 0,
+    quad = null,
+    overlays = [],
+    supersample = 1,
+    noise = 0,
+    seed = 1,
+  } = options;
+
+  const random = mulberry32(seed);
+  const data = new Uint8ClampedArray(width * height * 4);
+  const angle = (-rotationDegrees * Math.PI) / 180;
+
+  // Skip overlays whose bounding box misses the sample
+  const overlayBounds = overlays.map(({ quad: q }) => ({
+    minX: Math.min(...q.map((p) => p.x)),
+    maxX: Math.max(...q.map((p) => p.x)),
+    minY: Math.min(...q.map((p) => p.y)),
+    maxY: Math.max(...q.map((p) => p.y)),
+  }));
+
+  const sceneValue = (sx: number, sy: number): number => {
+    let value = wall;
+
+    if (quad) {
+      if (insideConvexQuad(quad, sx, sy)) value = glass;
+    } else if (window) {
+      // Rotate the sample point into the window's frame of reference
+      const cx = window.x + window.width / 2;
+      const cy = window.y + window.height / 2;
+      const dx = sx - 0.5 - cx;
+      const dy = sy - 0.5 - cy;
+      const u = dx * Math.cos(angle) - dy * Math.sin(angle) + window.width / 2;
+      const v = dx * Math.sin(angle) + dy * Math.cos(angle) + window.height / 2;
+
+      if (u >= 0 && v >= 0 && u < window.width && v < window.height) {
+        value = glass;
+        const onVerticalBar = Math.abs(u - window.width / 2) < mullionWidth / 2;
+        const onHorizontalBar = Math.abs(v - window.height / 2) < mullionWidth / 2;
+        if (onVerticalBar || onHorizontalBar) value = wall;
+      }
+    }
+
+    overlays.forEach((overlay, i) => {
+      const b = overlayBounds[i];
+      if (sx < b.minX || sx > b.maxX || sy < b.minY || sy > b.maxY) return;
+      if (insideConvexQuad(overlay.quad, sx, sy)) value = overlay.value;
+    });
+
+    return value;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = 0;
+      for (let j = 0; j < supersample; j++) {
+        for (let i = 0; i < supersample; i++) {
+          value += sceneValue(x + (i + 0.5) / supersample, y + (j + 0.5) / supersample);
+        }
+      }
+      value /= supersample * supersample;
+
+      if (noise > 0) {
+        value += (random() * 2 - 1) * noise;
+      }
+
+      const i = (y * width + x) * 4;
+      data[i] = value;
+      data[i + 1] = value;
+      data[i + 2] = value;
+      data[i + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
@@ -1,4 +1,12 @@
-import { roundUpToSixteenth, formatInchesFraction, formatDimensions } from '@/utils/format';
+import {
+  roundUpToSixteenth,
+  roundUpToFraction,
+  roundUpToMillimetre,
+  formatInchesFraction,
+  formatDimensions,
+  inchesToUnit,
+  unitToInches,
+} from '@/utils/format';
 
 describe('roundUpToSixteenth', () => {
   it('rounds up to nearest 1/16', () => {
@@ -74,3 +82,43 @@ describe('formatDimensions', () => {
     expect(formatDimensions(36.5, 48.25)).toBe('36 1/2" × 48 1/4"');
   });
 });
+
+describe('inch precision', () => {
+  it('rounds up to the chosen fraction', () => {
+    expect(roundUpToFraction(36.01, 8)).toBe(36.125);
+    expect(roundUpToFraction(36.01, 32)).toBe(36.03125);
+    expect(roundUpToFraction(36.125, 8)).toBe(36.125);
+  });
+
+  it('formats eighths and thirty-seconds', () => {
+    expect(formatInchesFraction(36.0625, { unit: 'in', precision: 8 })).toBe('36 1/8"');
+    expect(formatInchesFraction(36.01, { unit: 'in', precision: 32 })).toBe('36 1/32"');
+    expect(formatInchesFraction(36.09, { unit: 'in', precision: 32 })).toBe('36 3/32"');
+    expect(formatInchesFraction(36.5, { unit: 'in', precision: 32 })).toBe('36 1/2"');
+  });
+});
+
+describe('metric units', () => {
+  it('rounds up to the millimetre', () => {
+    expect(roundUpToMillimetre(1)).toBe(26); // 25.4 mm
+    expect(roundUpToMillimetre(unitToInches(53, 'mm'))).toBe(53); // not 54 from floating point noise
+    expect(roundUpToMillimetre(0)).toBe(0);
+  });
+
+  it('formats millimetres and centimetres', () => {
+    expect(formatInchesFraction(36.5, { unit: 'mm', precision: 16 })).toBe('928 mm'); // 927.1
+    expect(formatInchesFraction(36.5, { unit: 'cm', precision: 16 })).toBe('92.8 cm');
+    expect(formatInchesFraction(10, { unit: 'cm', precision: 16 })).toBe('25.4 cm');
+    expect(formatInchesFraction(unitToInches(21, 'cm'), { unit: 'cm', precision: 16 })).toBe('21.0 cm');
+  });
+
+  it('formats dimensions in the chosen unit', () => {
+    expect(formatDimensions(36, 48, { unit: 'mm', precision: 16 })).toBe('915 mm × 1220 mm');
+  });
+
+  it('converts to and from inches', () => {
+    expect(inchesToUnit(2, 'cm')).toBeCloseTo(5.08, 10);
+    expect(unitToInches(50.8, 'mm')).toBeCloseTo(2, 10);
+    expect(unitToInches(inchesToUnit(36.5, 'cm'), 'cm')).toBeCloseTo(36.5, 10);
+  });
+});
@@ -0,0 +1,86 @@
+import { detectWindowFrame } from '@/detection/frameDetector';
+import { renderWindowScene } from './fixtures/windowScenes';
+
+// One pixel of a 160px-wide fixture in normalized units
+const PX = 1 / 160;
+
+describe('detectWindowFrame', () => {
+  it('finds a dark window on a plain wall', () => {
+    const image = renderWindowScene({ window: { x: 40, y: 20, width: 80, height: 80 } });
+    const detection = detectWindowFrame(image);
+
+    expect(detection).not.toBeNull();
+    expect(Math.abs(detection!.x - 40 / 160)).toBeLessThanOrEqual(2 * PX);
+    expect(Math.abs(detection!.width - 80 / 160)).toBeLessThanOrEqual(2 * PX);
+    expect(Math.abs(detection!.y - 20 / 120)).toBeLessThanOrEqual(2 / 120);
+    expect(Math.abs(detection!.height - 80 / 120)).toBeLessThanOrEqual(2 / 120);
+    expect(detection!.confidence).toBeGreaterThan(0.8);
+  });
+
+  it('returns null for a blank wall', () => {
+    expect(detectWindowFrame(renderWindowScene({ window: null }))).toBeNull();
+  });
+
+  it('returns null for pure noise', () => {
+    const image = renderWindowScene({ window: null, noise: 25, seed: 7 });
+    expect(detectWindowFrame(image)).toBeNull();
+  });
+
+  it('prefers the outer frame over individual panes', () => {
+    const image = renderWindowScene({
+      window: { x: 30, y: 15, width: 100, height: 90 },
+      mullionWidth: 4,
+    });
+    const detection = detectWindowFrame(image);
+
+    expect(detection).not.toBeNull();
+    expect(Math.abs(detection!.width - 100 / 160)).toBeLessThanOrEqual(2 * PX);
+    expect(Math.abs(detection!.height - 90 / 120)).toBeLessThanOrEqual(2 / 120);
+  });
+
+  it('tolerates a slightly tilted camera', () => {
+    const image = renderWindowScene({
+      window: { x: 45, y: 25, width: 70, height: 70 },
+      rotationDegrees: 4,
+    });
+    const detection = detectWindowFrame(image);
+
+    expect(detection).not.toBeNull();
+    // Bounding box of a rotated square grows a little in both directions
+    expect(detection!.width).toBeGreaterThan(68 / 160);
+    expect(detection!.width).toBeLessThan(80 / 160);
+    expect(detection!.confidence).toBeGreaterThan(0.6);
+  });
+
+  it('still detects the window through sensor noise', () => {
+    const image = renderWindowScene({
+      window: { x: 40, y: 20, width: 80, height: 80 },
+      noise: 15,
+      seed: 3,
+    });
+    const detection = detectWindowFrame(image);
+
+    expect(detection).not.toBeNull();
+    expect(Math.abs(detection!.width - 80 / 160)).toBeLessThanOrEqual(3 * PX);
+  });
+
+  it('reports lower confidence when a side is partially occluded', () => {
+    const clean = detectWindowFrame(renderWindowScene());
+    const occluded = renderWindowScene();
+    // Paint over part of the left edge with glass-colored pixels
+    for (let y = 20; y < 50; y++) {
+      for (let x = 30; x < 45; x++) {
+        const i = (y * 160 + x) * 4;
+        (occluded.data as Uint8ClampedArray).fill(60, i, i + 3);
+      }
+    }
+    const detection = detectWindowFrame(occluded);
+
+    expect(detection).not.toBeNull();
+    expect(detection!.confidence).toBeLessThan(clean!.confidence);
+
+    // The top-left corner sits in the occluded stretch
+    const [topLeft, , bottomRight] = detection!.corners;
+    expect(topLeft.confidence).toBeLessThan(bottomRight.confidence);
+  });
+});
@@ -0,0 +1,214 @@
+import { detectWindowFrame } from '@/detection/frameDetector';
+import { REFERENCE_OBJECTS } from '@/detection/referenceObjects';
+import { boundsFromCorners, cornersMoved, detectionWithCorners } from '@/detection/geometry';
+import { estimateMarkerPose, FIDUCIAL_MARKER_SIZE_INCHES } from '@/detection/fiducialMarker';
+import type { DetectionQuad, DetectionResult } from '@/providers/types';
+import {
+  estimateScale,
+  measureDetection,
+  measureDiagonals,
+  measurePoints,
+  type ScaleEstimate,
+} from '@/providers/frameMeasurement';
+import { projectPlanePoints, projectRectangle, renderWindowScene } from './fixtures/windowScenes';
+
+// 36" × 48" window with a sheet of letter paper on the glass (~6 px/inch)
+const camera = {
+  distanceInches: 64,
+  yawDegrees: 20,
+  pitchDegrees: 8,
+  focalPx: 400,
+  imageWidth: 480,
+  imageHeight: 360,
+};
+
+function renderScene(withPaper: boolean) {
+  const letter = REFERENCE_OBJECTS['us-letter'];
+  return renderWindowScene({
+    width: camera.imageWidth,
+    height: camera.imageHeight,
+    quad: projectRectangle({ ...camera, widthInches: 36, heightInches: 48 }),
+    overlays: withPaper
+      ? [
+          {
+            quad: projectRectangle({
+              ...camera,
+              widthInches: letter.shortInches,
+              heightInches: letter.longInches,
+              centerInches: { x: -6, y: 8 },
+            }),
+            value: 245,
+          },
+        ]
+      : [],
+  });
+}
+
+describe('estimateScale', () => {
+  it('reports the scale in source pixels when searching a smaller frame', () => {
+    const frame = renderScene(true);
+    const detection = detectWindowFrame(frame)!;
+
+    const atFrameSize = estimateScale(frame, detection, 'us-letter', frame.width)!;
+    const atDoubleSize = estimateScale(frame, detection, 'us-letter', frame.width * 2)!;
+
+    expect(atFrameSize.referenceId).toBe('us-letter');
+    expect(atFrameSize.marker).toBeNull();
+    expect(atDoubleSize.pxToInch).toBeCloseTo(atFrameSize.pxToInch / 2, 10);
+  });
+
+  it('returns null when the reference is not in the frame', () => {
+    const frame = renderScene(false);
+
+    expect(estimateScale(frame, detectWindowFrame(frame)!, 'us-letter', frame.width)).toBeNull();
+  });
+});
+
+describe('measureDetection', () => {
+  const base = {
+    sourceWidth: camera.imageWidth * 2,
+    sourceHeight: camera.imageHeight * 2,
+    providerType: 'photo' as const,
+    captureNumber: 1,
+    referenceRequested: 'us-letter' as const,
+  };
+
+  it('sizes the window from the reference scale', () => {
+    const frame = renderScene(true);
+    const detection = detectWindowFrame(frame)!;
+    const scale = estimateScale(frame, detection, 'us-letter', base.sourceWidth);
+
+    const result = measureDetection({ ...base, detection, scale });
+
+    expect(Math.abs(result.widthInInches - 36)).toBeLessThan(36 * 0.04);
+    expect(Math.abs(result.heightInInches - 48)).toBeLessThan(48 * 0.04);
+    expect(result.frameMetadata.pxToInchUsed).toBe(scale!.pxToInch);
+    expect(result.frameMetadata.scaleReference).toBe('us-letter');
+    expect(result.frameMetadata.detectorMetadata).toMatchObject({ provider: 'photo', hasARScaling: true });
+  });
+
+  it('falls back to a low-confidence estimate without a scale', () => {
+    const frame = renderScene(false);
+    const detection = detectWindowFrame(frame)!;
+
+    const result = measureDetection({ ...base, detection, scale: null });
+
+    expect(result.confidence).toBeCloseTo(detection.confidence * 0.7, 10);
+    expect(result.category).not.toBe('Excellent');
+    expect(result.frameMetadata.pxToInchUsed).toBeNull();
+    expect(result.frameMetadata.scaleReference).toBeNull();
+    expect(result.frameMetadata.detectorMetadata).toMatchObject({ hasARScaling: false });
+  });
+
+  it('measures user-corrected corners and flags the pass', () => {
+    const frame = renderScene(true);
+    const detected = detectWindowFrame(frame)!;
+    // Pull the right-hand corners halfway in towards the left edge
+    const [tl, tr, br, bl] = detected.corners;
+    const corners: DetectionQuad = [
+      tl,
+      { x: (tl.x + tr.x) / 2, y: (tl.y + tr.y) / 2, confidence: 1 },
+      { x: (bl.x + br.x) / 2, y: (bl.y + br.y) / 2, confidence: 1 },
+      bl,
+    ];
+    expect(cornersMoved(corners, detected.corners)).toBe(true);
+
+    const detection = detectionWithCorners(detected, corners);
+    const scale = estimateScale(frame, detection, 'us-letter', base.sourceWidth);
+    const result = measureDetection({ ...base, detection, scale, detectedCorners: detected.corners });
+
+    expect(Math.abs(result.widthInInches - 18)).toBeLessThan(18 * 0.08);
+    expect(Math.abs(result.heightInInches - 48)).toBeLessThan(48 * 0.04);
+    expect(result.frameMetadata.cornersUserCorrected).toBe(true);
+    expect(result.frameMetadata.detectorMetadata).toMatchObject({ detectedCorners: detected.corners });
+  });
+
+  it('does not flag passes measured on the detected corners', () => {
+    const frame = renderScene(false);
+    const detection = detectWindowFrame(frame)!;
+
+    const result = measureDetection({ ...base, detection, scale: null });
+
+    expect(result.frameMetadata.cornersUserCorrected).toBe(false);
+  });
+});
+
+describe('measurePoints', () => {
+  // Opening 1/2" narrower at the bottom than the top, marker on the glass
+  const outline = projectPlanePoints(
+    [
+      { x: -18, y: -24 },
+      { x: 18, y: -24 },
+      { x: 17.75, y: 24 },
+      { x: -17.75, y: 24 },
+    ],
+    camera
+  );
+  const markerCorners = projectRectangle({
+    ...camera,
+    widthInches: FIDUCIAL_MARKER_SIZE_INCHES,
+    heightInches: FIDUCIAL_MARKER_SIZE_INCHES,
+    centerInches: { x: -6, y: 8 },
+  });
+
+  const corners = outline.map((p) => ({
+    x: p.x / camera.imageWidth,
+    y: p.y / camera.imageHeight,
+    confidence: 1,
+  })) as DetectionQuad;
+  const detection: DetectionResult = { ...boundsFromCorners(corners), confidence: 0.9, corners };
+
+  const frameSize = { frameWidth: camera.imageWidth, frameHeight: camera.imageHeight };
+  const markerScale: ScaleEstimate = {
+    pxToInch: 0.1,
+    referenceId: 'printed-marker',
+    corners: markerCorners,
+    ...frameSize,
+    aspectError: null,
+    marker: {
+      id: 0,
+      corners: markerCorners,
+      rotation: 0,
+      bitErrors: 0,
+      contrast: 200,
+      pxToInch: 0.1,
+      pose: estimateMarkerPose(markerCorners, camera.imageWidth, camera.imageHeight, camera.focalPx)!,
+    },
+  };
+
+  it('keeps the true shape of an out-of-square opening on the marker plane', () => {
+    const points = measurePoints(detection, markerScale)!;
+
+    expect(points.widths[0]).toBeCloseTo(36, 1);
+    expect(points.widths[1]).toBeCloseTo(35.75, 1);
+    expect(points.widths[2]).toBeCloseTo(35.5, 1);
+    points.heights.forEach((height) => expect(height).toBeCloseTo(48, 1));
+  });
+
+  it('measures unequal diagonals for an out-of-square opening', () => {
+    const [tlToBr, trToBl] = measureDiagonals(detection, markerScale)!;
+
+    expect(tlToBr).toBeCloseTo(Math.hypot(35.75, 48), 1);
+    expect(trToBl).toBeCloseTo(Math.hypot(35.75, 48), 1);
+
+    // Shear the bottom edge 1/2" to the right: one diagonal grows
+    const sheared = projectPlanePoints(
+      [
+        { x: -18, y: -24 },
+        { x: 18, y: -24 },
+        { x: 18.5, y: 24 },
+        { x: -17.5, y: 24 },
+      ],
+      camera
+    ).map((p) => ({ x: p.x / camera.imageWidth, y: p.y / camera.imageHeight, confidence: 1 })) as DetectionQuad;
+    const [longer, shorter] = measureDiagonals(detectionWithCorners(detection, sheared), markerScale)!;
+
+    expect(longer - shorter).toBeCloseTo(Math.hypot(36.5, 48) - Math.hypot(35.5, 48), 1);
+  });
+
+  it('needs the marker to tell the points apart', () => {
+    expect(measurePoints(detection, { ...markerScale, referenceId: 'us-letter', marker: null })).toBeNull();
+    expect(measurePoints(detection, null)).toBeNull();
+    expect(measureDiagonals(detection, null)).toBeNull();
+  });
+});
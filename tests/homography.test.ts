@@ -0,0 +1,103 @@
+import { computeHomography, applyHomography, rectifyQuad } from '@/detection/homography';
+import { detectWindowFrame } from '@/detection/frameDetector';
+import { cornersToPixels } from '@/detection/geometry';
+import { projectRectangle, renderWindowScene } from './fixtures/windowScenes';
+
+describe('computeHomography', () => {
+  it('maps the source corners onto the destination corners', () => {
+    const src = [
+      { x: 10, y: 12 },
+      { x: 90, y: 5 },
+      { x: 95, y: 80 },
+      { x: 4, y: 70 },
+    ];
+    const dst = [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+      { x: 0, y: 1 },
+    ];
+    const h = computeHomography(src, dst)!;
+
+    src.forEach((p, i) => {
+      const mapped = applyHomography(h, p);
+      expect(mapped.x).toBeCloseTo(dst[i].x, 6);
+      expect(mapped.y).toBeCloseTo(dst[i].y, 6);
+    });
+  });
+
+  it('returns null for degenerate input', () => {
+    const p = { x: 1, y: 1 };
+    expect(computeHomography([p, p, p, p], [p, p, p, p])).toBeNull();
+  });
+});
+
+describe('rectifyQuad', () => {
+  it('keeps the aspect ratio of a square-on rectangle', () => {
+    // Parallel edges carry no focal length information, so the default is used
+    const corners = projectRectangle({
+      widthInches: 36,
+      heightInches: 48,
+      distanceInches: 60,
+      yawDegrees: 0,
+      focalPx: 1000,
+      imageWidth: 1280,
+      imageHeight: 720,
+    });
+    const result = rectifyQuad(corners, 1280, 720)!;
+
+    expect(result.aspectRatio).toBeCloseTo(36 / 48, 3);
+    expect(result.focalLengthEstimated).toBe(false);
+  });
+
+  it('recovers the true aspect ratio and focal length from an angled view', () => {
+    const corners = projectRectangle({
+      widthInches: 36,
+      heightInches: 48,
+      distanceInches: 70,
+      yawDegrees: 35,
+      pitchDegrees: 15,
+      focalPx: 1000,
+      imageWidth: 1280,
+      imageHeight: 720,
+    });
+    // Foreshortening makes the quad look much narrower than it is
+    const apparentWidth = corners[1].x - corners[0].x;
+    expect(apparentWidth / (corners[3].y - corners[0].y)).toBeLessThan(0.7);
+
+    const result = rectifyQuad(corners, 1280, 720)!;
+    expect(result.aspectRatio).toBeCloseTo(36 / 48, 3);
+    expect(result.focalLengthEstimated).toBe(true);
+    expect(Math.abs(result.focalLengthPx - 1000)).toBeLessThan(1);
+
+    // The homography sends the corners to the rectified rectangle
+    const mapped = applyHomography(result.imageToPlane, corners[2]);
+    expect(mapped.x).toBeCloseTo(result.width, 6);
+    expect(mapped.y).toBeCloseTo(result.height, 6);
+  });
+});
+
+describe('detected quads', () => {
+  it('returns four corners close to the true window outline', () => {
+    const quad = projectRectangle({
+      widthInches: 36,
+      heightInches: 48,
+      distanceInches: 80,
+      yawDegrees: 30,
+      focalPx: 150,
+      imageWidth: 160,
+      imageHeight: 120,
+    });
+    const detection = detectWindowFrame(renderWindowScene({ quad }));
+    expect(detection).not.toBeNull();
+
+    const pixels = cornersToPixels(detection!.corners, 160, 120);
+    pixels.forEach((p, i) => {
+      expect(Math.hypot(p.x - quad[i].x, p.y - quad[i].y)).toBeLessThan(2.5);
+    });
+
+    // Proportions survive the detect → rectify round trip within a few percent
+    const result = rectifyQuad(pixels, 160, 120)!;
+    expect(Math.abs(result.aspectRatio - 36 / 48)).toBeLessThan(0.06);
+  });
+});
@@ -0,0 +1,31 @@
+import { manualPassResult, MANUAL_ENTRY_CONFIDENCE } from '@/utils/manualEntry';
+import { aggregateResults } from '@/utils/aggregate';
+
+describe('manualPassResult', () => {
+  it('marks the pass as typed in', () => {
+    const pass = manualPassResult({ widths: [36], heights: [48] });
+    expect(pass).toMatchObject({
+      widthInInches: 36,
+      heightInInches: 48,
+      source: 'manual',
+      confidence: MANUAL_ENTRY_CONFIDENCE,
+      category: 'Excellent',
+    });
+    expect(pass.points).toBeUndefined();
+  });
+
+  it('keeps three-point readings and sizes the pass to the smallest', () => {
+    const pass = manualPassResult({ widths: [36, 35.5, 36.25], heights: [48, 47.75, 48] });
+    expect(pass.points).toEqual({ widths: [36, 35.5, 36.25], heights: [48, 47.75, 48] });
+    expect(pass.widthInInches).toBe(35.5);
+    expect(pass.heightInInches).toBe(47.75);
+  });
+
+  it('aggregates like a camera pass', () => {
+    const pass = manualPassResult({ widths: [36, 35.5, 36.25], heights: [48, 47.75, 48] });
+    const result = aggregateResults([pass], { mountType: 'inside' });
+    expect(result.widthInches).toBe(35.5);
+    expect(result.orderWidthInches).toBe(35.25);
+    expect(result.points).toEqual(pass.points);
+  });
+});
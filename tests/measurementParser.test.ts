@@ -0,0 +1,113 @@
+import { parseMeasurement } from '@/utils/measurementParser';
+import { formatInchesFraction, roundUpToMillimetre, unitToInches, type DisplayFormat } from '@/utils/format';
+
+function inches(text: string, defaultUnit?: DisplayFormat['unit']): number | null {
+  const result = parseMeasurement(text, { defaultUnit });
+  return result.ok ? result.inches : null;
+}
+
+function error(text: string, defaultUnit?: DisplayFormat['unit']): string | null {
+  const result = parseMeasurement(text, { defaultUnit });
+  return result.ok ? null : result.error;
+}
+
+describe('parseMeasurement', () => {
+  it('reads inches with fractions', () => {
+    expect(inches('36 1/2"')).toBe(36.5);
+    expect(inches('36-1/2')).toBe(36.5);
+    expect(inches('36 - 1/2 in')).toBe(36.5);
+    expect(inches('36 3/16 inches')).toBe(36.1875);
+    expect(inches('1/2"')).toBe(0.5);
+  });
+
+  it('reads decimals', () => {
+    expect(inches('36.5 in')).toBe(36.5);
+    expect(inches('36.5')).toBe(36.5);
+    expect(inches('.5"')).toBe(0.5);
+    expect(inches('  48  ')).toBe(48);
+  });
+
+  it('reads feet and inches', () => {
+    expect(inches(`3' 1/4"`)).toBe(36.25);
+    expect(inches(`3'1"`)).toBe(37);
+    expect(inches(`3'`)).toBe(36);
+    expect(inches('3 ft 0 1/4 in')).toBe(36.25);
+    expect(inches('4 feet 6 inches')).toBe(54);
+  });
+
+  it('reads hyphenated feet and inches', () => {
+    expect(inches(`3'-6"`)).toBe(42);
+    expect(inches(`3' - 6 1/2"`)).toBe(42.5);
+    expect(inches('3ft-0 1/4in')).toBe(36.25);
+    expect(inches(`3’-6”`)).toBe(42);
+    expect(error(`3'-`)).not.toBeNull();
+  });
+
+  it('reads typographic marks and fraction characters', () => {
+    expect(inches('36½″')).toBe(36.5);
+    expect(inches('3′ 6¼”')).toBe(42.25);
+  });
+
+  it('reads metric', () => {
+    expect(inches('92.7cm')).toBeCloseTo(927 / 25.4, 10);
+    expect(inches('927 mm')).toBeCloseTo(927 / 25.4, 10);
+    expect(inches('0.927 m')).toBeCloseTo(927 / 25.4, 10);
+    expect(inches('92.7 centimetres')).toBeCloseTo(927 / 25.4, 10);
+  });
+
+  it('reads bare numbers in the default unit', () => {
+    expect(inches('927', 'mm')).toBeCloseTo(927 / 25.4, 10);
+    expect(inches('92.7', 'cm')).toBeCloseTo(927 / 25.4, 10);
+    // An inch mark still means inches
+    expect(inches('36"', 'mm')).toBe(36);
+  });
+
+  it('rejects what it cannot read', () => {
+    expect(error('')).toBe('Enter a measurement');
+    expect(error('   ')).toBe('Enter a measurement');
+    expect(error('about a yard')).toContain("Couldn't read");
+    expect(error('36 1/2 furlongs')).toContain("Couldn't read");
+    expect(error('"')).toContain("Couldn't read");
+    expect(error('5constructor')).toContain("Couldn't read");
+  });
+
+  it('rejects invalid values', () => {
+    expect(error('-36')).toContain('negative');
+    expect(error('0')).toContain('larger than 0');
+    expect(error('36 1/0')).toContain('0 at the bottom');
+    expect(error('36 5/4')).toContain('less than 1');
+    expect(error('92 1/2', 'cm')).toContain('decimal');
+  });
+
+  describe('round trip with formatInchesFraction', () => {
+    const sixteenths = Array.from({ length: 16 * 4 }, (_, i) => 30 + i / 16);
+
+    it('reads back every 1/16" inch format', () => {
+      sixteenths.forEach((value) => {
+        expect(inches(formatInchesFraction(value))).toBe(value);
+      });
+    });
+
+    it('reads back 1/32" and 1/8" formats', () => {
+      [36.03125, 36.125, 0.09375].forEach((value) => {
+        expect(inches(formatInchesFraction(value, { unit: 'in', precision: 32 }))).toBe(value);
+      });
+      expect(inches(formatInchesFraction(36.01, { unit: 'in', precision: 8 }))).toBe(36.125);
+    });
+
+    it('reads back metric formats to the millimetre', () => {
+      sixteenths.forEach((value) => {
+        const mm = roundUpToMillimetre(value);
+        expect(inches(formatInchesFraction(value, { unit: 'mm', precision: 16 }))).toBeCloseTo(unitToInches(mm, 'mm'), 10);
+        expect(inches(formatInchesFraction(value, { unit: 'cm', precision: 16 }))).toBeCloseTo(unitToInches(mm, 'mm'), 10);
+      });
+    });
+
+    it('formats parsed values the way they were typed', () => {
+      ['36 1/2"', '48 3/16"', '1/16"'].forEach((text) => {
+        expect(formatInchesFraction(inches(text)!)).toBe(text);
+      });
+      expect(formatInchesFraction(inches('92.7 cm')!, { unit: 'cm', precision: 16 })).toBe('92.7 cm');
+    });
+  });
+});
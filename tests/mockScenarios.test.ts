@@ -0,0 +1,185 @@
+import { MockProvider } from '@/providers/MockProvider';
+import {
+  createRandom,
+  curveAt,
+  mockScenarios,
+  selectMockScenario,
+  type MockScenario,
+} from '@/providers/mockScenarios';
+import { createProvider } from '@/providers/registry';
+import { updateSettings } from '@/utils/settings';
+import type { PassResult } from '@/providers/types';
+
+// Initialize without waiting out the simulated startup delay
+async function start(scenario: MockScenario): Promise<MockProvider> {
+  const mock = new MockProvider(scenario);
+  const ready = mock.initialize();
+  await jest.advanceTimersByTimeAsync(500);
+  await ready;
+  return mock;
+}
+
+// Frames as the page's frame loop runs them, then a few captures
+async function playOut(scenario: MockScenario, frameCount = 100, captureCount = 4) {
+  const mock = await start(scenario);
+  const frames = [];
+  for (let i = 0; i < frameCount; i++) {
+    frames.push([mock.getDetection(), mock.getStability(), mock.suggestCapture()]);
+  }
+  // Passes by size and confidence (timestamps differ), failures by message
+  const passes = [];
+  for (let i = 0; i < captureCount; i++) {
+    passes.push(
+      await mock.capture().then(
+        (pass) => [pass.widthInInches, pass.heightInInches, pass.confidence, pass.points],
+        (err: Error) => err.message
+      )
+    );
+  }
+  return { frames, passes };
+}
+
+async function capturePasses(scenario: MockScenario, count: number): Promise<PassResult[]> {
+  const mock = await start(scenario);
+  const passes = [];
+  for (let i = 0; i < count; i++) passes.push(await mock.capture());
+  return passes;
+}
+
+beforeEach(() => jest.useFakeTimers());
+afterEach(() => {
+  jest.useRealTimers();
+  localStorage.clear();
+  window.history.replaceState({}, '', '/');
+});
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const c = createRandom(43);
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect([c(), c(), c()]).not.toEqual(first);
+    first.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('curveAt', () => {
+  it('moves toward its limit and stops there', () => {
+    expect(curveAt({ start: 0.5, perFrame: -0.02, limit: 0.05 }, 10)).toBeCloseTo(0.3);
+    expect(curveAt({ start: 0.5, perFrame: -0.02, limit: 0.05 }, 100)).toBe(0.05);
+    expect(curveAt({ start: 0.7, perFrame: 0.002, limit: 0.95 }, 1000)).toBe(0.95);
+  });
+});
+
+describe('selectMockScenario', () => {
+  it('prefers the query parameter over the stored setting', () => {
+    expect(selectMockScenario('?scenario=never-stable', 'capture-fails').id).toBe('never-stable');
+  });
+
+  it('uses the stored setting, then the default', () => {
+    expect(selectMockScenario('', 'capture-fails').id).toBe('capture-fails');
+    expect(selectMockScenario('?scenario=earthquake', null).id).toBe('default');
+  });
+
+  it('ignores names every object inherits', () => {
+    expect(selectMockScenario('?scenario=toString', null)).toBe(mockScenarios.default);
+    expect(selectMockScenario('', 'constructor' as MockScenario['id'])).toBe(mockScenarios.default);
+  });
+
+  it('is what the registry creates the mock provider with', () => {
+    updateSettings({ mockScenario: 'low-confidence' });
+    expect((createProvider('mock') as MockProvider).scenario.id).toBe('low-confidence');
+
+    window.history.replaceState({}, '', '/?provider=mock&scenario=picture-window');
+    expect((createProvider('mock') as MockProvider).scenario.id).toBe('picture-window');
+  });
+});
+
+describe('mock scenarios', () => {
+  it.each(Object.values(mockScenarios))('$id plays out the same way every time', async (scenario: MockScenario) => {
+    expect(await playOut(scenario)).toEqual(await playOut(scenario));
+  });
+
+  it('keeps typical passes within an inch of 36×48', async () => {
+    const passes = await capturePasses(mockScenarios.default, 6);
+    passes.forEach((pass) => {
+      expect(Math.abs(pass.widthInInches - 36)).toBeLessThanOrEqual(1);
+      expect(Math.abs(pass.heightInInches - 48)).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('suggests a capture from the current frame without moving the simulation on', async () => {
+    const quiet = await start(mockScenarios.default);
+    const asked = await start(mockScenarios.default);
+    const suggestions = [];
+    for (let i = 0; i < 100; i++) {
+      const detection = asked.getDetection();
+      const stability = asked.getStability();
+      // The page asks once per frame; asking again must not change the answer
+      const suggest = asked.suggestCapture();
+      expect(asked.suggestCapture()).toBe(suggest);
+      suggestions.push(suggest);
+
+      expect(detection).toEqual(quiet.getDetection());
+      expect(stability).toEqual(quiet.getStability());
+    }
+    expect(suggestions.some(Boolean)).toBe(true);
+  });
+
+  it('freezes the frame last shown', async () => {
+    const mock = await start(mockScenarios.default);
+    mock.getDetection();
+    const shown = mock.getDetection();
+    expect(mock.freezeFrame()?.detection).toEqual(shown);
+    expect(mock.getDetection()).toEqual(shown);
+  });
+
+  it('never suggests a capture at low confidence, and rates passes Not Great', async () => {
+    const { frames } = await playOut(mockScenarios['low-confidence'], 300, 0);
+    expect(frames.some(([, , suggest]) => suggest)).toBe(false);
+
+    const passes = await capturePasses(mockScenarios['low-confidence'], 4);
+    expect(passes.map((pass) => pass.category)).toEqual(Array(4).fill('Not Great'));
+  });
+
+  it('never settles when never stable', async () => {
+    const mock = await start(mockScenarios['never-stable']);
+    for (let i = 0; i < 500; i++) {
+      expect(mock.getStability().isStable).toBe(false);
+    }
+  });
+
+  it('loses the window on the scheduled frames and finds it again', async () => {
+    const mock = await start(mockScenarios['detection-lost']);
+    const detected = Array.from({ length: 200 }, () => mock.getDetection() !== null);
+
+    expect(detected.slice(0, 59).every(Boolean)).toBe(true);
+    expect(detected.slice(59, 180).some(Boolean)).toBe(false);
+    expect(detected.slice(180).every(Boolean)).toBe(true);
+  });
+
+  it('throws on the scheduled capture attempts', async () => {
+    const mock = await start(mockScenarios['capture-fails']);
+    await expect(mock.capture()).rejects.toThrow('Simulated capture failure (attempt 1)');
+    await expect(mock.capture()).resolves.toMatchObject({ source: 'camera' });
+    await expect(mock.capture()).rejects.toThrow('attempt 3');
+    await expect(mock.capture()).resolves.toMatchObject({ source: 'camera' });
+  });
+
+  it('spreads varying passes over several inches', async () => {
+    const widths = (await capturePasses(mockScenarios['varying-passes'], 8)).map((pass) => pass.widthInInches);
+    expect(Math.max(...widths) - Math.min(...widths)).toBeGreaterThan(2);
+  });
+
+  it('measures the picture window at its own size', async () => {
+    const [pass] = await capturePasses(mockScenarios['picture-window'], 1);
+    expect(Math.abs(pass.widthInInches - 96)).toBeLessThanOrEqual(1);
+    expect(Math.abs(pass.heightInInches - 60)).toBeLessThanOrEqual(1);
+    expect(pass.frameMetadata.detectorMetadata).toMatchObject({ scenario: 'picture-window' });
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  createProject,
+  deleteWindow,
+  getProject,
+  saveProject,
+  saveWindow,
+  updateWindowDetails,
+  updateWindowMeasurement,
+  windowDetails,
+  windowsByRoom,
+  type WindowMeasurement,
+} from '@/utils/project';
+import { DEFAULT_MOUNT_RULES } from '@/utils/mount';
+import { checkDepth } from '@/utils/depth';
+import { verifyMeasurement } from '@/utils/accuracy';
+
+function createMeasurement(width: number, height: number): WindowMeasurement {
+  return {
+    mountType: 'outside',
+    mountRules: DEFAULT_MOUNT_RULES,
+    source: 'camera',
+    widthInches: width,
+    heightInches: height,
+    orderWidthInches: width + 3,
+    orderHeightInches: height + 3,
+    points: null,
+    outOfSquareInches: null,
+    depth: null,
+    confidence: 0.9,
+    category: 'Excellent',
+    passCount: 2,
+  };
+}
+
+const details = (label: string, roomName: string, notes = '') => ({ label, roomName, notes });
+
+describe('saveWindow', () => {
+  it('files windows under rooms, matching room names loosely', () => {
+    let project = createProject();
+    project = saveWindow(project, details('Left', 'Kitchen'), createMeasurement(36, 48)).project;
+    project = saveWindow(project, details('Bay', 'Living room'), createMeasurement(72, 60)).project;
+    project = saveWindow(project, details('Right', ' kitchen '), createMeasurement(36, 48)).project;
+
+    expect(windowsByRoom(project).map(({ room, windows }) => [room.name, windows.map((w) => w.label)])).toEqual([
+      ['Kitchen', ['Left', 'Right']],
+      ['Living room', ['Bay']],
+    ]);
+  });
+
+  it('labels unnamed windows and replaces a window saved again', () => {
+    let project = createProject();
+    const first = saveWindow(project, details('', 'Kitchen'), createMeasurement(36, 48));
+    project = first.project;
+    expect(project.windows[0].label).toBe('Window 1');
+
+    // Re-saved after re-checking, with new notes and the old label kept
+    project = saveWindow(project, details('', 'Kitchen', 'Over the sink'), createMeasurement(36.5, 48), first.windowId)
+      .project;
+    expect(project.windows).toHaveLength(1);
+    expect(project.windows[0]).toMatchObject({ id: first.windowId, label: 'Window 1', notes: 'Over the sink' });
+    expect(project.windows[0].widthInches).toBe(36.5);
+  });
+});
+
+describe('editing a project', () => {
+  it('moves a window between rooms and drops the room it left empty', () => {
+    const saved = saveWindow(createProject(), details('Left', 'Kitchen'), createMeasurement(36, 48));
+    const project = updateWindowDetails(saved.project, saved.windowId, details('Left', 'Bedroom'));
+
+    expect(project.rooms.map((room) => room.name)).toEqual(['Bedroom']);
+    expect(windowDetails(project, project.windows[0])).toEqual(details('Left', 'Bedroom'));
+    expect(project.windows[0].widthInches).toBe(36);
+  });
+
+  it('brings a saved window up to date with what changed after saving', () => {
+    const saved = saveWindow(createProject(), details('Left', 'Kitchen', 'Over the sink'), createMeasurement(36, 48));
+    const { windowId } = saved;
+    let project = saveWindow(saved.project, details('Right', 'Kitchen'), createMeasurement(30, 40)).project;
+
+    // Re-priced with new mount rules, then checked for depth and with a tape
+    const measurement: WindowMeasurement = {
+      ...createMeasurement(36.125, 48),
+      mountRules: { ...DEFAULT_MOUNT_RULES, outsideSideOverlap: 2 },
+      orderWidthInches: 40.125,
+      orderHeightInches: 52,
+      depth: checkDepth(3.5, 'manual', 'roller'),
+      verification: verifyMeasurement([], { widthInches: 36.125, heightInches: 48 }, 'outside', {
+        widthInches: 36.25,
+        heightInches: 48,
+      }),
+      confidence: 0.8,
+      category: 'OK',
+    };
+    project = updateWindowMeasurement(project, windowId, measurement);
+
+    expect(project.windows[0]).toEqual({ ...saved.project.windows[0], ...measurement });
+    expect(project.windows[0]).toMatchObject({ id: windowId, label: 'Left', notes: 'Over the sink' });
+    expect(project.windows[1]).toMatchObject({ label: 'Right', widthInches: 30, depth: null });
+  });
+
+  it('leaves the project alone when a saved window has not changed', () => {
+    const { project, windowId } = saveWindow(createProject(), details('Left', 'Kitchen'), createMeasurement(36, 48));
+    expect(updateWindowMeasurement(project, windowId, createMeasurement(36, 48))).toBe(project);
+    expect(updateWindowMeasurement(project, 'deleted', createMeasurement(40, 48))).toBe(project);
+  });
+
+  it('deletes windows', () => {
+    const saved = saveWindow(createProject(), details('Left', 'Kitchen'), createMeasurement(36, 48));
+    const project = deleteWindow(saved.project, saved.windowId);
+    expect(project.windows).toHaveLength(0);
+    expect(project.rooms).toHaveLength(0);
+  });
+});
+
+describe('project storage', () => {
+  afterEach(() => localStorage.clear());
+
+  it('keeps the current project between visits', () => {
+    const { project } = saveWindow(createProject('Beach house'), details('Left', 'Kitchen'), createMeasurement(36, 48));
+    saveProject(project);
+    expect(getProject()).toEqual(project);
+  });
+
+  it('starts an empty project when none is stored', () => {
+    expect(getProject()).toMatchObject({ name: 'My Home', rooms: [], windows: [] });
+  });
+});
@@ -0,0 +1,99 @@
+import { detectWindowFrame } from '@/detection/frameDetector';
+import { rectifyQuad } from '@/detection/homography';
+import { cornersToPixels } from '@/detection/geometry';
+import { detectReferenceObject, REFERENCE_OBJECTS } from '@/detection/referenceObjects';
+import type { ReferenceObjectId } from '@/providers/types';
+import { projectRectangle, renderWindowScene } from './fixtures/windowScenes';
+
+interface Camera {
+  distanceInches: number;
+  yawDegrees: number;
+  pitchDegrees: number;
+  focalPx: number;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+// Camera looking at a 36" × 48" window from a slight angle (~6 px/inch)
+const defaultCamera: Camera = {
+  distanceInches: 64,
+  yawDegrees: 20,
+  pitchDegrees: 8,
+  focalPx: 400,
+  imageWidth: 480,
+  imageHeight: 360,
+};
+
+// Higher-resolution frame (~10 px/inch), as used for small references
+const detailCamera: Camera = {
+  distanceInches: 84,
+  yawDegrees: 20,
+  pitchDegrees: 8,
+  focalPx: 840,
+  imageWidth: 800,
+  imageHeight: 600,
+};
+
+function rectifyWindow(image: ReturnType<typeof renderWindowScene>) {
+  const { width, height } = image;
+  const detection = detectWindowFrame(image)!;
+  return rectifyQuad(cornersToPixels(detection.corners, width, height), width, height)!;
+}
+
+function renderWithReference(referenceId: ReferenceObjectId, landscape = true, camera = defaultCamera) {
+  const spec = REFERENCE_OBJECTS[referenceId];
+  const window = projectRectangle({ ...camera, widthInches: 36, heightInches: 48 });
+  const reference = projectRectangle({
+    ...camera,
+    widthInches: landscape ? spec.longInches : spec.shortInches,
+    heightInches: landscape ? spec.shortInches : spec.longInches,
+    centerInches: { x: -6, y: 8 },
+  });
+  return renderWindowScene({
+    width: camera.imageWidth,
+    height: camera.imageHeight,
+    quad: window,
+    overlays: [{ quad: reference, value: 245 }],
+  });
+}
+
+function measure(referenceId: ReferenceObjectId, landscape = true, camera = defaultCamera) {
+  const image = renderWithReference(referenceId, landscape, camera);
+  const rectification = rectifyWindow(image);
+  const reference = detectReferenceObject(image, rectification, referenceId);
+  return { rectification, reference };
+}
+
+describe('detectReferenceObject', () => {
+  it('scales the window plane from a sheet of letter paper', () => {
+    const { rectification, reference } = measure('us-letter', false);
+
+    expect(reference).not.toBeNull();
+    expect(reference!.referenceId).toBe('us-letter');
+    expect(Math.abs(rectification.width * reference!.pxToInch - 36)).toBeLessThan(36 * 0.04);
+    expect(Math.abs(rectification.height * reference!.pxToInch - 48)).toBeLessThan(48 * 0.04);
+  });
+
+  it('finds a credit card in either orientation', () => {
+    for (const landscape of [true, false]) {
+      const { rectification, reference } = measure('credit-card', landscape, detailCamera);
+
+      expect(reference).not.toBeNull();
+      expect(Math.abs(rectification.height * reference!.pxToInch - 48)).toBeLessThan(48 * 0.08);
+    }
+  });
+
+  it('rejects objects whose proportions do not match the reference', () => {
+    // A letter sheet is far too square to be a dollar bill
+    const image = renderWithReference('us-letter');
+
+    expect(detectReferenceObject(image, rectifyWindow(image), 'dollar-bill')).toBeNull();
+  });
+
+  it('returns null when no reference is in view', () => {
+    const window = projectRectangle({ ...defaultCamera, widthInches: 36, heightInches: 48 });
+    const image = renderWindowScene({ width: 480, height: 360, quad: window });
+
+    expect(detectReferenceObject(image, rectifyWindow(image), 'credit-card')).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { selectProvider, getQueryProviderType, createProvider, isProviderType } from '@/providers/registry';
+import { createTrace, setReplayTrace } from '@/providers/trace';
+
+// jsdom has no navigator.mediaDevices, so toggle it per test
+function setGetUserMedia(available: boolean) {
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: available ? { getUserMedia: jest.fn() } : undefined,
+  });
+}
+
+describe('getQueryProviderType', () => {
+  it('reads a known provider from the query string', () => {
+    expect(getQueryProviderType('?provider=mock')).toBe('mock');
+    expect(getQueryProviderType('?foo=1&provider=web')).toBe('web');
+  });
+
+  it('ignores missing or unknown providers', () => {
+    expect(getQueryProviderType('')).toBeNull();
+    expect(getQueryProviderType('?provider=lidar')).toBeNull();
+  });
+
+  it('ignores names every object inherits', () => {
+    expect(getQueryProviderType('?provider=toString')).toBeNull();
+    expect(isProviderType('constructor')).toBe(false);
+    expect(selectProvider('?provider=toString', null).source).toBe('default');
+  });
+});
+
+describe('selectProvider', () => {
+  afterEach(() => setGetUserMedia(false));
+
+  it('defaults to the web provider when the camera API exists', () => {
+    setGetUserMedia(true);
+    const selection = selectProvider('', null);
+    expect(selection).toEqual({ type: 'web', requested: 'web', source: 'default', fellBack: false });
+  });
+
+  it('prefers the query parameter over the stored setting', () => {
+    setGetUserMedia(true);
+    const selection = selectProvider('?provider=mock', 'web');
+    expect(selection.type).toBe('mock');
+    expect(selection.source).toBe('query');
+  });
+
+  it('uses the stored setting when there is no query parameter', () => {
+    setGetUserMedia(true);
+    const selection = selectProvider('', 'mock');
+    expect(selection.type).toBe('mock');
+    expect(selection.source).toBe('settings');
+  });
+
+  it('falls back to mock when getUserMedia is unavailable', () => {
+    setGetUserMedia(false);
+    const selection = selectProvider('?provider=web', null);
+    expect(selection.type).toBe('mock');
+    expect(selection.requested).toBe('web');
+    expect(selection.fellBack).toBe(true);
+  });
+});
+
+// jsdom has no URL.createObjectURL either
+function setObjectUrls(available: boolean) {
+  Object.defineProperty(URL, 'createObjectURL', {
+    configurable: true,
+    writable: true,
+    value: available ? jest.fn() : undefined,
+  });
+}
+
+describe('photo provider selection', () => {
+  afterEach(() => setObjectUrls(false));
+
+  it('runs without the camera API', () => {
+    setGetUserMedia(false);
+    setObjectUrls(true);
+    const selection = selectProvider('?provider=photo', null);
+    expect(selection).toEqual({ type: 'photo', requested: 'photo', source: 'query', fellBack: false });
+  });
+
+  it('falls back to mock when object URLs are unavailable', () => {
+    setObjectUrls(false);
+    const selection = selectProvider('', 'photo');
+    expect(selection.type).toBe('mock');
+    expect(selection.fellBack).toBe(true);
+  });
+});
+
+describe('replay provider selection', () => {
+  afterEach(() => setReplayTrace(null));
+
+  it('falls back to mock until a trace is loaded', () => {
+    const selection = selectProvider('?provider=replay', null);
+    expect(selection.type).toBe('mock');
+    expect(selection.fellBack).toBe(true);
+  });
+
+  it('runs once a trace is loaded', () => {
+    setReplayTrace(createTrace('web'));
+    const selection = selectProvider('', 'replay');
+    expect(selection).toEqual({ type: 'replay', requested: 'replay', source: 'settings', fellBack: false });
+  });
+});
+
+describe('createProvider', () => {
+  it('creates a provider reporting the requested type', () => {
+    expect(createProvider('mock').providerType).toBe('mock');
+    expect(createProvider('web').providerType).toBe('web');
+    expect(createProvider('photo').providerType).toBe('photo');
+    expect(createProvider('replay').providerType).toBe('replay');
+  });
+});
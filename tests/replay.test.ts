@@ -0,0 +1,171 @@
+import { MockProvider } from '@/providers/MockProvider';
+import { mockScenarios } from '@/providers/mockScenarios';
+import { RecordingProvider } from '@/providers/RecordingProvider';
+import { ReplayProvider } from '@/providers/ReplayProvider';
+import { exportTrace, parseTrace, TRACE_VERSION, type MeasurementTrace } from '@/providers/trace';
+import type {
+  DetectionResult,
+  FrozenFrame,
+  MeasurementProvider,
+  PassResult,
+  StabilityState,
+} from '@/providers/types';
+
+interface Session {
+  frames: { detection: DetectionResult | null; stability: StabilityState; suggest: boolean }[];
+  frozen: (FrozenFrame | null)[];
+  passes: PassResult[];
+}
+
+// Run frames as the page's frame loop does, capturing every tenth frame.
+// With corner review, each capture is preceded by a few frozen frames.
+async function runSession(provider: MeasurementProvider, frameCount: number, review = false): Promise<Session> {
+  const session: Session = { frames: [], frozen: [], passes: [] };
+  for (let i = 1; i <= frameCount; i++) {
+    if (review && i % 10 === 6) session.frozen.push(provider.freezeFrame?.() ?? null);
+    session.frames.push({
+      detection: provider.getDetection(),
+      stability: provider.getStability(),
+      suggest: provider.suggestCapture(),
+    });
+    if (i % 10 === 0) session.passes.push(await provider.capture());
+  }
+  return session;
+}
+
+// A mock session recorded to a trace and read back from the saved file
+async function recordMockSession(
+  frameCount = 30,
+  review = false
+): Promise<{ session: Session; trace: MeasurementTrace }> {
+  const recording = new RecordingProvider(new MockProvider());
+  await recording.initialize();
+  const session = await runSession(recording, frameCount, review);
+  recording.cleanup();
+
+  const parsed = parseTrace(exportTrace(recording.getTrace()));
+  if (!parsed.ok) throw new Error(parsed.error);
+  return { session, trace: parsed.trace };
+}
+
+describe('RecordingProvider', () => {
+  it('records every output of the wrapped provider', async () => {
+    const { session, trace } = await recordMockSession();
+
+    expect(trace.version).toBe(TRACE_VERSION);
+    expect(trace.providerType).toBe('mock');
+    expect(trace.detections).toEqual(session.frames.map((frame) => frame.detection));
+    expect(trace.stabilities).toEqual(session.frames.map((frame) => frame.stability));
+    expect(trace.suggestions).toEqual(session.frames.map((frame) => frame.suggest));
+    expect(trace.captures.map((capture) => 'result' in capture && capture.result)).toEqual(session.passes);
+    expect(trace.captures[0].options).toEqual({});
+  });
+
+  it('reports the wrapped provider type and capabilities', () => {
+    const recording = new RecordingProvider(new MockProvider());
+    expect(recording.providerType).toBe('mock');
+    expect(recording.freezeFrame).toBeDefined();
+    expect(recording.loadImage).toBeUndefined();
+  });
+});
+
+describe('ReplayProvider', () => {
+  it('plays a recorded session back exactly', async () => {
+    const { session, trace } = await recordMockSession();
+
+    const replay = new ReplayProvider(trace);
+    expect(await replay.initialize()).toBe(true);
+    expect(await runSession(replay, 30)).toEqual(session);
+  });
+
+  it('plays the same session every time it is initialized', async () => {
+    const { trace } = await recordMockSession();
+    const replay = new ReplayProvider(trace);
+
+    await replay.initialize();
+    const first = await runSession(replay, 30);
+    await replay.initialize();
+    expect(await runSession(replay, 30)).toEqual(first);
+  });
+
+  it('holds the last frame once the trace runs out', async () => {
+    const { trace } = await recordMockSession(10);
+    const replay = new ReplayProvider(trace);
+    await replay.initialize();
+
+    for (let i = 0; i < 10; i++) replay.getDetection();
+    expect(replay.getDetection()).toEqual(trace.detections[9]);
+  });
+
+  it('fails a capture the trace does not have', async () => {
+    const { trace } = await recordMockSession(10);
+    const replay = new ReplayProvider(trace);
+    await replay.initialize();
+
+    await replay.capture();
+    await expect(replay.capture()).rejects.toThrow('no more captures');
+  });
+
+  it('plays a session with corner reviews back in step', async () => {
+    const { session, trace } = await recordMockSession(30, true);
+    expect(trace.freezes).toHaveLength(3);
+    expect(session.frozen.every((frame) => frame !== null)).toBe(true);
+
+    const replay = new ReplayProvider(trace);
+    await replay.initialize();
+    expect(await runSession(replay, 30, true)).toEqual(session);
+  });
+
+  it('fails the captures that failed when recorded', async () => {
+    const recording = new RecordingProvider(new MockProvider(mockScenarios['capture-fails']));
+    await recording.initialize();
+    const attempts = [];
+    for (let i = 0; i < 4; i++) {
+      attempts.push(await recording.capture().then((pass) => pass.widthInInches, (err: Error) => err.message));
+    }
+    expect(attempts[0]).toBe('Simulated capture failure (attempt 1)');
+
+    const parsed = parseTrace(exportTrace(recording.getTrace()));
+    if (!parsed.ok) throw new Error(parsed.error);
+    const replay = new ReplayProvider(parsed.trace);
+    await replay.initialize();
+
+    await expect(replay.capture()).rejects.toThrow('Simulated capture failure (attempt 1)');
+    await expect(replay.capture()).resolves.toMatchObject({ widthInInches: attempts[1] });
+    await expect(replay.capture()).rejects.toThrow('Simulated capture failure (attempt 3)');
+    await expect(replay.capture()).resolves.toMatchObject({ widthInInches: attempts[3] });
+  });
+
+  it('does not start without a trace', async () => {
+    const replay = new ReplayProvider(null);
+    expect(await replay.initialize()).toBe(false);
+    expect(replay.getDetection()).toBeNull();
+  });
+});
+
+describe('parseTrace', () => {
+  it('rejects files that are not traces', () => {
+    expect(parseTrace('not json').ok).toBe(false);
+    expect(parseTrace('[]').ok).toBe(false);
+    expect(parseTrace(JSON.stringify({ records: [] })).ok).toBe(false);
+  });
+
+  it('rejects other trace versions', () => {
+    const result = parseTrace(JSON.stringify({ version: 99, providerType: 'web' }));
+    expect(result).toEqual({ ok: false, error: expect.stringContaining('version 99') });
+  });
+
+  it('rejects damaged captures', () => {
+    const trace = {
+      version: TRACE_VERSION,
+      providerType: 'web',
+      recordedAt: 0,
+      detections: [],
+      stabilities: [],
+      suggestions: [],
+      freezes: [],
+      captures: [{ options: {}, result: { widthInInches: 'wide' } }],
+    };
+    expect(parseTrace(JSON.stringify(trace))).toEqual({ ok: false, error: 'This trace is incomplete or damaged' });
+  });
+});
@@ -0,0 +1,145 @@
+import { createActor } from 'xstate';
+import { tutorialMachine } from '@/state/tutorialMachine';
+import {
+  loadSession,
+  restoreSession,
+  saveSession,
+  SESSION_VERSION,
+  type StoredSession,
+} from '@/state/session';
+import { manualPassResult } from '@/utils/manualEntry';
+import { createPassResult } from './fixtures/passResults';
+
+// An actor whose every transition is saved, as the page does
+function startPersistedActor() {
+  const actor = createActor(tutorialMachine);
+  actor.subscribe(saveSession);
+  return actor.start();
+}
+
+function storedSession(): StoredSession {
+  return JSON.parse(localStorage.getItem('wm-session') ?? 'null');
+}
+
+afterEach(() => localStorage.clear());
+
+describe('session persistence', () => {
+  it('resumes mid-measurement with the passes taken so far', () => {
+    const actor = startPersistedActor();
+    actor.send({ type: 'START' });
+    actor.send({ type: 'PERMISSION_GRANTED' });
+    actor.send({ type: 'SELECT_MOUNT', mountType: 'outside' });
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48) });
+    actor.stop();
+
+    const session = loadSession();
+    expect(session?.snapshot.value).toBe('review');
+
+    const resumed = createActor(tutorialMachine, { snapshot: session?.snapshot }).start();
+    expect(resumed.getSnapshot().context.mountType).toBe('outside');
+    expect(resumed.getSnapshot().context.passes).toHaveLength(1);
+
+    resumed.send({ type: 'NEXT_PASS' });
+    resumed.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48) });
+    resumed.send({ type: 'VIEW_RESULTS' });
+    expect(resumed.getSnapshot().value).toBe('completion');
+    expect(resumed.getSnapshot().context.finalWidth).toBe(36);
+  });
+
+  it('asks for the camera again when a resumed capture cannot start it', () => {
+    const actor = startPersistedActor();
+    actor.send({ type: 'START' });
+    actor.send({ type: 'PERMISSION_GRANTED' });
+    actor.send({ type: 'SELECT_MOUNT', mountType: 'outside' });
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48) });
+    actor.send({ type: 'NEXT_PASS' });
+    actor.stop();
+
+    const resumed = createActor(tutorialMachine, { snapshot: loadSession()?.snapshot }).start();
+    expect(resumed.getSnapshot().value).toBe('capture');
+    resumed.send({ type: 'PERMISSION_DENIED' });
+    expect(resumed.getSnapshot().value).toBe('permission');
+    expect(resumed.getSnapshot().context.cameraPermissionDenied).toBe(true);
+
+    // Granted on retry, the measurement carries on where it was
+    resumed.send({ type: 'RETRY_PERMISSION' });
+    resumed.send({ type: 'PERMISSION_GRANTED' });
+    expect(resumed.getSnapshot().value).toBe('capture');
+    expect(resumed.getSnapshot().context.passes).toHaveLength(1);
+
+    // ...or is dropped when the user leaves
+    resumed.send({ type: 'PERMISSION_DENIED' });
+    resumed.send({ type: 'BACK' });
+    expect(resumed.getSnapshot().value).toBe('home');
+    expect(resumed.getSnapshot().context.passes).toHaveLength(0);
+  });
+
+  it('has nothing to resume before a mount type is chosen or after restarting', () => {
+    const actor = startPersistedActor();
+    actor.send({ type: 'START' });
+    actor.send({ type: 'ENTER_MANUALLY' });
+    expect(loadSession()).toBeNull();
+
+    actor.send({ type: 'SELECT_MOUNT', mountType: 'outside' });
+    actor.send({ type: 'MANUAL_ENTRY_COMPLETE', result: manualPassResult({ widths: [36], heights: [48] }) });
+    expect(loadSession()?.snapshot.value).toBe('completion');
+
+    actor.send({ type: 'RESTART' });
+    expect(loadSession()).toBeNull();
+  });
+
+  it('fills in context added since the session was saved', () => {
+    const actor = startPersistedActor();
+    actor.send({ type: 'START' });
+    actor.send({ type: 'ENTER_MANUALLY' });
+    actor.send({ type: 'SELECT_MOUNT', mountType: 'outside' });
+
+    const stored = storedSession();
+    delete stored.context.savedWindowId;
+    const session = restoreSession(stored);
+    expect(session?.snapshot.value).toBe('manualEntry');
+    expect(session?.snapshot.context.savedWindowId).toBeNull();
+  });
+});
+
+describe('restoreSession', () => {
+  const stored = (overrides: Partial<StoredSession>): StoredSession => ({
+    version: SESSION_VERSION,
+    savedAt: 0,
+    value: 'manualEntry',
+    context: { mountType: 'inside', entryMode: 'manual' },
+    ...overrides,
+  });
+
+  it('discards sessions naming a state that no longer exists', () => {
+    expect(restoreSession(stored({ value: 'pass2' }))).toBeNull();
+  });
+
+  it('discards sessions from unknown versions', () => {
+    expect(restoreSession(stored({ version: SESSION_VERSION - 1 }))).toBeNull();
+    expect(restoreSession(stored({ version: SESSION_VERSION + 1 }))).toBeNull();
+    expect(restoreSession('not a session')).toBeNull();
+  });
+
+  it('migrates sessions from older versions', () => {
+    const migrations = {
+      [SESSION_VERSION - 1]: (session: StoredSession) => ({
+        ...session,
+        version: session.version + 1,
+        value: session.value === 'pass1' ? 'capture' : session.value,
+      }),
+    };
+    const session = restoreSession(stored({ version: SESSION_VERSION - 1, value: 'pass1' }), migrations);
+    expect(session?.snapshot.value).toBe('capture');
+    expect(session?.snapshot.context.mountType).toBe('inside');
+  });
+
+  it('clears a stored session that cannot be resumed', () => {
+    localStorage.setItem('wm-session', JSON.stringify(stored({ value: 'pass2' })));
+    expect(loadSession()).toBeNull();
+    expect(localStorage.getItem('wm-session')).toBeNull();
+
+    localStorage.setItem('wm-session', '{not json');
+    expect(loadSession()).toBeNull();
+  });
+});
@@ -0,0 +1,417 @@
+import { createActor } from 'xstate';
+import { tutorialMachine, type MountType } from '@/state/tutorialMachine';
+import { DEFAULT_MOUNT_RULES } from '@/utils/mount';
+import { DEFAULT_PASS_POLICY } from '@/utils/aggregate';
+import { checkDepth } from '@/utils/depth';
+import { manualPassResult } from '@/utils/manualEntry';
+import { verifyMeasurement } from '@/utils/accuracy';
+import type { MeasurementPoints, PassResult } from '@/providers/types';
+import { createPassResult } from './fixtures/passResults';
+
+// Start an actor and walk it to the first capture screen
+function startAtCapture(mountType: MountType = 'outside') {
+  const actor = createActor(tutorialMachine).start();
+  actor.send({ type: 'START' });
+  actor.send({ type: 'PERMISSION_GRANTED' });
+  actor.send({ type: 'SELECT_MOUNT', mountType });
+  if (mountType === 'inside') actor.send({ type: 'CONTINUE_TO_PASS1' });
+  return actor;
+}
+
+describe('tutorialMachine', () => {
+  it('walks from home to capture and records the mount type', () => {
+    const actor = startAtCapture();
+    expect(actor.getSnapshot().value).toBe('capture');
+    expect(actor.getSnapshot().context.mountType).toBe('outside');
+  });
+
+  it('shows the three-point guide before inside mount passes', () => {
+    const actor = createActor(tutorialMachine).start();
+    actor.send({ type: 'START' });
+    actor.send({ type: 'PERMISSION_GRANTED' });
+    actor.send({ type: 'SELECT_MOUNT', mountType: 'inside' });
+    expect(actor.getSnapshot().value).toBe('threePointGuide');
+    expect(actor.getSnapshot().context.mountType).toBe('inside');
+
+    actor.send({ type: 'CONTINUE_TO_PASS1' });
+    expect(actor.getSnapshot().value).toBe('capture');
+
+    actor.send({ type: 'BACK' });
+    expect(actor.getSnapshot().value).toBe('threePointGuide');
+  });
+
+  it('stays on permission when denied until retried', () => {
+    const actor = createActor(tutorialMachine).start();
+    actor.send({ type: 'START' });
+    actor.send({ type: 'PERMISSION_DENIED' });
+    expect(actor.getSnapshot().value).toBe('permission');
+    expect(actor.getSnapshot().context.cameraPermissionDenied).toBe(true);
+
+    actor.send({ type: 'RETRY_PERMISSION' });
+    expect(actor.getSnapshot().context.cameraPermissionDenied).toBe(false);
+  });
+
+  it('drops the reviewed pass when going back to retake it', () => {
+    const actor = startAtCapture();
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48, 0.8) });
+    expect(actor.getSnapshot().context.passes).toHaveLength(1);
+
+    actor.send({ type: 'BACK' });
+    expect(actor.getSnapshot().value).toBe('capture');
+    expect(actor.getSnapshot().context.passes).toHaveLength(0);
+  });
+
+  it('computes final results with aggregateResults on completion', () => {
+    const actor = startAtCapture();
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36.01, 48, 0.9) });
+    actor.send({ type: 'NEXT_PASS' });
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(35.9, 48.2, 0.9) });
+    actor.send({ type: 'VIEW_RESULTS' });
+
+    const { value, context } = actor.getSnapshot();
+    expect(value).toBe('completion');
+    // Max width and max height, unrounded until shown
+    expect(context.finalWidth).toBe(36.01);
+    expect(context.finalHeight).toBe(48.2);
+    expect(context.finalConfidence).toBeCloseTo(0.9);
+    expect(context.finalCategory).toBe('Excellent');
+  });
+
+  it('reports the narrowest width and shortest height for inside mount', () => {
+    const withPoints = (result: PassResult, points: MeasurementPoints): PassResult => ({
+      ...result,
+      points,
+    });
+
+    const actor = startAtCapture('inside');
+    actor.send({
+      type: 'CAPTURE_COMPLETE',
+      providerType: 'mock',
+      result: withPoints(createPassResult(36, 48, 0.9), {
+        widths: [36, 35.5, 36],
+        heights: [48, 48, 47.75],
+      }),
+    });
+    actor.send({ type: 'NEXT_PASS' });
+    actor.send({
+      type: 'CAPTURE_COMPLETE',
+      providerType: 'mock',
+      result: withPoints(createPassResult(36, 48, 0.9), {
+        widths: [36.1, 35.6, 35.9],
+        heights: [48.1, 48, 47.8],
+      }),
+    });
+    actor.send({ type: 'VIEW_RESULTS' });
+
+    const { context } = actor.getSnapshot();
+    expect(context.finalWidth).toBe(35.6);
+    expect(context.finalHeight).toBe(47.8);
+    expect(context.finalPoints?.widths).toEqual([36.1, 35.6, 36]);
+  });
+
+  it('re-prices a finished measurement when the mount rules change', () => {
+    const actor = startAtCapture();
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48, 0.9) });
+    actor.send({ type: 'NEXT_PASS' });
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48, 0.9) });
+    actor.send({ type: 'VIEW_RESULTS' });
+    expect(actor.getSnapshot().context.finalOrderWidth).toBe(39);
+
+    actor.send({ type: 'VIEW_SETTINGS' });
+    actor.send({
+      type: 'UPDATE_MOUNT_RULES',
+      rules: { ...DEFAULT_MOUNT_RULES, outsideSideOverlap: 2, outsideTopOverlap: 4 },
+    });
+
+    const { context } = actor.getSnapshot();
+    expect(context.finalWidth).toBe(36);
+    expect(context.finalOrderWidth).toBe(40);
+    expect(context.finalOrderHeight).toBe(52);
+  });
+
+  it('offers the depth step after inside mount passes', () => {
+    const actor = startAtCapture('inside');
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48, 0.9) });
+    actor.send({ type: 'NEXT_PASS' });
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48, 0.9) });
+    actor.send({ type: 'VIEW_RESULTS' });
+    expect(actor.getSnapshot().value).toBe('depth');
+    expect(actor.getSnapshot().context.finalWidth).toBe(36);
+
+    actor.send({ type: 'DEPTH_COMPLETE', depth: checkDepth(1.75, 'manual', 'roller') });
+    const { value, context } = actor.getSnapshot();
+    expect(value).toBe('completion');
+    expect(context.depth).toMatchObject({ depthInches: 1.75, feasible: false, minimumDepthInches: 2.5 });
+
+    // Can be re-checked from the results
+    actor.send({ type: 'MEASURE_DEPTH' });
+    expect(actor.getSnapshot().value).toBe('depth');
+    actor.send({ type: 'SKIP_DEPTH' });
+    expect(actor.getSnapshot().value).toBe('completion');
+  });
+
+  it('goes straight to completion for outside mount', () => {
+    const actor = startAtCapture('outside');
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48, 0.9) });
+    actor.send({ type: 'NEXT_PASS' });
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48, 0.9) });
+    actor.send({ type: 'VIEW_RESULTS' });
+
+    expect(actor.getSnapshot().value).toBe('completion');
+    expect(actor.getSnapshot().can({ type: 'MEASURE_DEPTH' })).toBe(false);
+  });
+
+  it('checks a camera measurement against a tape measure', () => {
+    const actor = startAtCapture('outside');
+    const passes = [createPassResult(36.25, 48, 0.9), createPassResult(36.25, 48, 0.9)];
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'photo', result: passes[0] });
+    actor.send({ type: 'NEXT_PASS' });
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'photo', result: passes[1] });
+    actor.send({ type: 'VIEW_RESULTS' });
+
+    actor.send({ type: 'VERIFY' });
+    expect(actor.getSnapshot().value).toBe('verification');
+    actor.send({ type: 'BACK' });
+    expect(actor.getSnapshot().value).toBe('completion');
+    expect(actor.getSnapshot().context.verification).toBeNull();
+
+    actor.send({ type: 'VERIFY' });
+    const verification = verifyMeasurement(passes, { widthInches: 36.25, heightInches: 48 }, 'outside', {
+      widthInches: 36,
+      heightInches: 48,
+    });
+    actor.send({ type: 'VERIFICATION_COMPLETE', verification });
+    expect(actor.getSnapshot().value).toBe('completion');
+    expect(actor.getSnapshot().context.verification?.aggregate.widthInches).toBe(0.25);
+    // Logged with the check, whichever provider is running by then
+    expect(actor.getSnapshot().context.passProvider).toBe('photo');
+
+    actor.send({ type: 'RESTART' });
+    expect(actor.getSnapshot().context.verification).toBeNull();
+    expect(actor.getSnapshot().context.passProvider).toBeNull();
+  });
+
+  it('does not offer a tape check for typed-in sizes', () => {
+    const actor = createActor(tutorialMachine).start();
+    actor.send({ type: 'START' });
+    actor.send({ type: 'ENTER_MANUALLY' });
+    actor.send({ type: 'SELECT_MOUNT', mountType: 'outside' });
+    actor.send({ type: 'MANUAL_ENTRY_COMPLETE', result: manualPassResult({ widths: [36], heights: [48] }) });
+    expect(actor.getSnapshot().value).toBe('completion');
+    expect(actor.getSnapshot().can({ type: 'VERIFY' })).toBe(false);
+  });
+
+  it('requires the minimum passes before showing results', () => {
+    const actor = startAtCapture();
+    expect(actor.getSnapshot().can({ type: 'SKIP_PASS' })).toBe(false);
+
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48, 0.9) });
+    expect(actor.getSnapshot().value).toBe('review');
+    expect(actor.getSnapshot().can({ type: 'VIEW_RESULTS' })).toBe(false);
+    expect(actor.getSnapshot().can({ type: 'NEXT_PASS' })).toBe(true);
+  });
+
+  it('stops asking for passes once they agree', () => {
+    const actor = startAtCapture();
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48, 0.9) });
+    actor.send({ type: 'NEXT_PASS' });
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36.05, 48, 0.9) });
+    expect(actor.getSnapshot().can({ type: 'NEXT_PASS' })).toBe(false);
+    expect(actor.getSnapshot().can({ type: 'VIEW_RESULTS' })).toBe(true);
+  });
+
+  it('stops before the maximum once consistent passes pin the size down', () => {
+    const actor = startAtCapture();
+    // Largest pass (the default strategy): 2 passes 3/8" apart leave it
+    // uncertain, a third between them settles it
+    [36, 36.375, 36.125].forEach((width, i) => {
+      if (i > 0) {
+        expect(actor.getSnapshot().can({ type: 'NEXT_PASS' })).toBe(true);
+        actor.send({ type: 'NEXT_PASS' });
+      }
+      actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(width, 48, 0.9) });
+    });
+
+    expect(actor.getSnapshot().context.aggregationStrategy).toBe('max');
+    expect(actor.getSnapshot().can({ type: 'NEXT_PASS' })).toBe(false);
+    actor.send({ type: 'VIEW_RESULTS' });
+    expect(actor.getSnapshot().context.passes.length).toBeLessThan(DEFAULT_PASS_POLICY.maxPasses);
+  });
+
+  it('keeps asking for passes until they converge', () => {
+    const actor = startAtCapture();
+    actor.send({ type: 'SET_AGGREGATION_STRATEGY', strategy: 'mad' });
+    [36, 37, 36.05].forEach((width, i) => {
+      if (i > 0) {
+        expect(actor.getSnapshot().can({ type: 'NEXT_PASS' })).toBe(true);
+        actor.send({ type: 'NEXT_PASS' });
+      }
+      actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(width, 48, 0.9) });
+    });
+
+    // The third pass outvotes the 37" misread
+    expect(actor.getSnapshot().can({ type: 'NEXT_PASS' })).toBe(false);
+    actor.send({ type: 'VIEW_RESULTS' });
+    const { value, context } = actor.getSnapshot();
+    expect(value).toBe('completion');
+    expect(context.passes).toHaveLength(3);
+    expect(context.rejectedPasses).toEqual([1]);
+  });
+
+  it('stops at the maximum pass count', () => {
+    const actor = startAtCapture();
+    actor.send({
+      type: 'SET_PASS_POLICY',
+      policy: { targetUncertaintyInches: 1 / 8, minPasses: 2, maxPasses: 3 },
+    });
+    [34, 36, 38].forEach((width, i) => {
+      if (i > 0) actor.send({ type: 'NEXT_PASS' });
+      actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(width, 48, 0.9) });
+    });
+
+    expect(actor.getSnapshot().context.passes).toHaveLength(3);
+    expect(actor.getSnapshot().can({ type: 'NEXT_PASS' })).toBe(false);
+  });
+
+  it('lets an optional pass be skipped or backed out of', () => {
+    const actor = startAtCapture();
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48, 0.6) });
+    actor.send({ type: 'NEXT_PASS' });
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48, 0.6) });
+    // Low confidence asks for a third pass
+    expect(actor.getSnapshot().can({ type: 'NEXT_PASS' })).toBe(true);
+
+    actor.send({ type: 'NEXT_PASS' });
+    actor.send({ type: 'BACK' });
+    expect(actor.getSnapshot().value).toBe('review');
+    expect(actor.getSnapshot().context.passes).toHaveLength(2);
+
+    actor.send({ type: 'NEXT_PASS' });
+    actor.send({ type: 'SKIP_PASS' });
+    expect(actor.getSnapshot().value).toBe('completion');
+    expect(actor.getSnapshot().context.passes).toHaveLength(2);
+  });
+
+  it('offers manual entry when the camera is unavailable', () => {
+    const actor = createActor(tutorialMachine).start();
+    actor.send({ type: 'START' });
+    actor.send({ type: 'PERMISSION_DENIED' });
+    actor.send({ type: 'ENTER_MANUALLY' });
+    expect(actor.getSnapshot().value).toBe('mountSelection');
+    expect(actor.getSnapshot().context.entryMode).toBe('manual');
+
+    actor.send({ type: 'SELECT_MOUNT', mountType: 'outside' });
+    expect(actor.getSnapshot().value).toBe('manualEntry');
+
+    actor.send({
+      type: 'MANUAL_ENTRY_COMPLETE',
+      result: manualPassResult({ widths: [36.02], heights: [48] }),
+    });
+    const { value, context } = actor.getSnapshot();
+    expect(value).toBe('completion');
+    expect(context.passes).toHaveLength(1);
+    expect(context.finalWidth).toBe(36.02);
+    expect(context.finalOrderWidth).toBe(39.02);
+    expect(context.finalCategory).toBe('Excellent');
+  });
+
+  it('guides manual inside mount entry through three points and the depth step', () => {
+    const actor = createActor(tutorialMachine).start();
+    actor.send({ type: 'START' });
+    actor.send({ type: 'ENTER_MANUALLY' });
+    actor.send({ type: 'SELECT_MOUNT', mountType: 'inside' });
+    expect(actor.getSnapshot().value).toBe('threePointGuide');
+
+    actor.send({ type: 'CONTINUE_TO_PASS1' });
+    expect(actor.getSnapshot().value).toBe('manualEntry');
+    actor.send({ type: 'BACK' });
+    expect(actor.getSnapshot().value).toBe('threePointGuide');
+    actor.send({ type: 'CONTINUE_TO_PASS1' });
+
+    actor.send({
+      type: 'MANUAL_ENTRY_COMPLETE',
+      result: manualPassResult({ widths: [36, 35.75, 36], heights: [48, 48.125, 47.875] }),
+    });
+    const { value, context } = actor.getSnapshot();
+    expect(value).toBe('depth');
+    expect(context.finalWidth).toBe(35.75);
+    expect(context.finalHeight).toBe(47.875);
+    expect(context.finalPoints?.widths).toEqual([36, 35.75, 36]);
+  });
+
+  it('returns to camera passes once permission is granted', () => {
+    const actor = createActor(tutorialMachine).start();
+    actor.send({ type: 'START' });
+    actor.send({ type: 'ENTER_MANUALLY' });
+    actor.send({ type: 'BACK' });
+    actor.send({ type: 'PERMISSION_GRANTED' });
+    actor.send({ type: 'SELECT_MOUNT', mountType: 'outside' });
+    expect(actor.getSnapshot().value).toBe('capture');
+  });
+
+  it('saves to the project before measuring another window', () => {
+    const actor = createActor(tutorialMachine).start();
+    actor.send({ type: 'START' });
+    actor.send({ type: 'ENTER_MANUALLY' });
+    actor.send({ type: 'SELECT_MOUNT', mountType: 'outside' });
+    actor.send({ type: 'MANUAL_ENTRY_COMPLETE', result: manualPassResult({ widths: [36], heights: [48] }) });
+
+    // Nothing is discarded until the window is saved
+    expect(actor.getSnapshot().can({ type: 'MEASURE_ANOTHER' })).toBe(false);
+    actor.send({ type: 'SAVE_WINDOW' });
+    expect(actor.getSnapshot().value).toBe('saveWindow');
+    actor.send({ type: 'WINDOW_SAVED', windowId: 'w1' });
+    expect(actor.getSnapshot().value).toBe('completion');
+    expect(actor.getSnapshot().context.savedWindowId).toBe('w1');
+
+    actor.send({ type: 'MEASURE_ANOTHER' });
+    const { value, context } = actor.getSnapshot();
+    expect(value).toBe('mountSelection');
+    expect(context.entryMode).toBe('manual');
+    expect(context.passes).toHaveLength(0);
+    expect(context.savedWindowId).toBeNull();
+  });
+
+  it('can save and go straight on to the next window', () => {
+    const actor = createActor(tutorialMachine).start();
+    actor.send({ type: 'START' });
+    actor.send({ type: 'ENTER_MANUALLY' });
+    actor.send({ type: 'SELECT_MOUNT', mountType: 'outside' });
+    actor.send({ type: 'MANUAL_ENTRY_COMPLETE', result: manualPassResult({ widths: [36], heights: [48] }) });
+    actor.send({ type: 'SAVE_WINDOW' });
+    actor.send({ type: 'WINDOW_SAVED', windowId: 'w1', measureAnother: true });
+
+    expect(actor.getSnapshot().value).toBe('mountSelection');
+    expect(actor.getSnapshot().context.finalWidth).toBeNull();
+  });
+
+  it('shows the project from home and from results', () => {
+    const actor = createActor(tutorialMachine).start();
+    actor.send({ type: 'VIEW_PROJECT' });
+    expect(actor.getSnapshot().value).toBe('project');
+    actor.send({ type: 'BACK' });
+    expect(actor.getSnapshot().value).toBe('home');
+
+    actor.send({ type: 'START' });
+    actor.send({ type: 'ENTER_MANUALLY' });
+    actor.send({ type: 'SELECT_MOUNT', mountType: 'outside' });
+    actor.send({ type: 'MANUAL_ENTRY_COMPLETE', result: manualPassResult({ widths: [36], heights: [48] }) });
+    actor.send({ type: 'VIEW_PROJECT' });
+    actor.send({ type: 'BACK' });
+    expect(actor.getSnapshot().value).toBe('completion');
+  });
+
+  it('resets context on restart', () => {
+    const actor = startAtCapture();
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48, 0.9) });
+    actor.send({ type: 'NEXT_PASS' });
+    actor.send({ type: 'CAPTURE_COMPLETE', providerType: 'mock', result: createPassResult(36, 48, 0.9) });
+    actor.send({ type: 'VIEW_RESULTS' });
+    actor.send({ type: 'RESTART' });
+
+    const { value, context } = actor.getSnapshot();
+    expect(value).toBe('home');
+    expect(context.passes).toHaveLength(0);
+    expect(context.finalWidth).toBeNull();
+  });
+});